@@ -1,8 +1,26 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
 import Renderer from './components/Renderer';
 import Controls from './components/Controls';
 import MusicPlayer from './components/MusicPlayer';
-import { ArtStyleConfig, ParticleShape } from './types';
+import AudioReactivePanel from './components/AudioReactivePanel';
+import GesturePanel from './components/GesturePanel';
+import InputSourcePanel from './components/InputSourcePanel';
+import BackgroundPanel from './components/BackgroundPanel';
+import PerformancePanel from './components/PerformancePanel';
+import LibraryPanel from './components/LibraryPanel';
+import MidiPanel from './components/MidiPanel';
+import { ArtStyleConfig, ParticleShape, StyleOffsets } from './types';
+import { CaptureTarget } from './services/capture';
+import { validateStyle } from './services/styleValidation';
+import { DEFAULT_TRANSITION, INSTANT, StyleTransition } from './services/styleTransition';
+import { DEFAULT_GESTURE_BINDINGS, GestureBindings } from './services/gestures';
+import { BackgroundControl } from './services/backgroundMask';
+import { PerformanceControl } from './services/qualityGovernor';
+import { DEFAULT_INPUT, InputSource, InputSourceConfig, openInputSource } from './services/inputSources';
+import { DEFAULT_GLYPH_FONT, DEFAULT_GLYPH_RAMP } from './services/shapeAssets';
+import { createStyleLibrary } from './services/styleLibrary';
+import { readShareHash } from './services/styleSharing';
+import { createMidiController, LiveEdit, MidiController, MidiState, requestMidiAccess } from './services/midi';
 
 const PRESET_STYLES: ArtStyleConfig[] = [
   {
@@ -19,7 +37,19 @@ const PRESET_STYLES: ArtStyleConfig[] = [
     connectionDistance: 0,
     trailEffect: 0.2,
     noiseStrength: 2.5,
-    flowFieldStrength: 3.5
+    flowFieldStrength: 3.5,
+    interactionMode: 'vortex',
+    interactionRadius: 220,
+    interactionStrength: 30,
+    interactionFalloff: 'smooth',
+    motionStrength: 1.2,
+    samplingChannel: 'luminance',
+    colorMode: 'gradient',
+    glyphRamp: DEFAULT_GLYPH_RAMP,
+    glyphFont: DEFAULT_GLYPH_FONT,
+    fluidCoupling: 0.35,
+    fluidViscosity: 0.2,
+    fluidVorticity: 2.5
   },
   {
     name: "Aurora Dream (极光)",
@@ -35,7 +65,19 @@ const PRESET_STYLES: ArtStyleConfig[] = [
     connectionDistance: 0,
     trailEffect: 0.16,
     noiseStrength: 2.5,
-    flowFieldStrength: 3.8
+    flowFieldStrength: 3.8,
+    interactionMode: 'paint',
+    interactionRadius: 260,
+    interactionStrength: 40,
+    interactionFalloff: 'smooth',
+    motionStrength: 2,
+    samplingChannel: 'brightness',
+    colorMode: 'gradient',
+    glyphRamp: DEFAULT_GLYPH_RAMP,
+    glyphFont: DEFAULT_GLYPH_FONT,
+    fluidCoupling: 0,
+    fluidViscosity: 0.1,
+    fluidVorticity: 1
   },
   {
     name: "Cyber Neon (赛博)",
@@ -51,93 +93,194 @@ const PRESET_STYLES: ArtStyleConfig[] = [
     connectionDistance: 45,
     trailEffect: 0.15,
     noiseStrength: 1.0,
-    flowFieldStrength: 1.5
+    flowFieldStrength: 1.5,
+    interactionMode: 'repel',
+    interactionRadius: 200,
+    interactionStrength: 35,
+    interactionFalloff: 'linear',
+    motionStrength: 0.8,
+    samplingChannel: 'brightness',
+    colorMode: 'stepped',
+    glyphRamp: DEFAULT_GLYPH_RAMP,
+    glyphFont: DEFAULT_GLYPH_FONT,
+    fluidCoupling: 0,
+    fluidViscosity: 0.1,
+    fluidVorticity: 1
   }
 ];
 
+const noSubscription = () => () => {};
+const noMidiState = (): MidiState | null => null;
+
+// Always available, so demos work on machines without a camera
+const FALLBACK_INPUT: InputSourceConfig = { kind: 'pattern', pattern: 'shapes' };
+
 const App: React.FC = () => {
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const [streamStarted, setStreamStarted] = useState(false);
+  const mountRef = useRef<HTMLDivElement>(null);
+  const [source, setSource] = useState<InputSource | null>(null);
+  const sourceRef = useRef<InputSource | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [currentStyle, setCurrentStyle] = useState<ArtStyleConfig>(PRESET_STYLES[1]); 
+  const [styleTransition, setStyleTransition] = useState<StyleTransition>(INSTANT);
   const [showWelcome, setShowWelcome] = useState(true);
+  const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null);
+  const styleOffsetsRef = useRef<StyleOffsets>({});
+  const captureRef = useRef<CaptureTarget | null>(null);
+  const backgroundRef = useRef<BackgroundControl | null>(null);
+  const performanceRef = useRef<PerformanceControl | null>(null);
+  const [gestureBindings, setGestureBindings] = useState<GestureBindings>(DEFAULT_GESTURE_BINDINGS);
+  const [sprite, setSprite] = useState<ImageBitmap | null>(null);
+  const [library] = useState(createStyleLibrary);
+  const libraryEntries = useSyncExternalStore(library.subscribe, library.list);
+  // What became of a style link the page was opened with, shown on the welcome screen
+  const [sharedNotice, setSharedNotice] = useState<{ text: string; error: boolean } | null>(null);
+  const [midi, setMidi] = useState<MidiController | null>(null);
+  const midiState = useSyncExternalStore(midi?.subscribe ?? noSubscription, midi?.getState ?? noMidiState);
 
-  useEffect(() => {
-    let stream: MediaStream | null = null;
-    const startVideo = async () => {
-      try {
-        stream = await navigator.mediaDevices.getUserMedia({
-          video: { 
-            width: { ideal: 640 }, 
-            height: { ideal: 480 }, 
-            facingMode: "user" 
-          },
-          audio: false
-        });
-        if (videoRef.current) {
-          videoRef.current.srcObject = stream;
-          await videoRef.current.play();
-          setStreamStarted(true);
-        }
-      } catch (err) {
-        console.error("Camera error:", err);
-        setError("无法访问摄像头，请确保已授予权限并在 HTTPS 环境下运行。");
+  // Built-ins first, then the library with favourites up front; presets and swipes walk this list
+  const allStyles = useMemo(() => [
+    ...PRESET_STYLES,
+    ...libraryEntries.filter(e => e.favourite).map(e => e.style),
+    ...libraryEntries.filter(e => !e.favourite).map(e => e.style)
+  ], [libraryEntries]);
+
+  // Every style change (presets, AI, manual edits) is validated before it reaches the renderer
+  const handleStyleChange = useCallback((style: ArtStyleConfig, transition: StyleTransition = INSTANT) => {
+    const { style: safeStyle, warnings } = validateStyle(style);
+    if (warnings.length > 0) console.warn("Style adjusted:", warnings);
+    setStyleTransition(transition);
+    setCurrentStyle(safeStyle);
+  }, []);
+
+  // Swipes and other preset gestures walk the preset list, wrapping at both ends
+  const handlePresetStep = useCallback((delta: number) => {
+    const index = allStyles.findIndex(p => p.name === currentStyle.name);
+    const next = allStyles[(Math.max(0, index) + delta + allStyles.length) % allStyles.length];
+    handleStyleChange(next, DEFAULT_TRANSITION);
+  }, [allStyles, currentStyle, handleStyleChange]);
+
+  // MIDI reads the latest style and preset list when a message arrives, not the ones from when it connected
+  const currentStyleRef = useRef(currentStyle);
+  currentStyleRef.current = currentStyle;
+  const allStylesRef = useRef(allStyles);
+  allStylesRef.current = allStyles;
+  // The style editor, while mounted, so knob turns land in its undo history
+  const liveEditRef = useRef<LiveEdit | null>(null);
+
+  const connectMidi = useCallback(async () => {
+    const access = await requestMidiAccess();
+    setMidi(createMidiController(access, {
+      getStyle: () => currentStyleRef.current,
+      getPresets: () => allStylesRef.current,
+      onStyleChange: handleStyleChange,
+      onLiveEdit: (apply, key) => {
+        if (liveEditRef.current) liveEditRef.current(apply, key);
+        else handleStyleChange(apply(currentStyleRef.current));
       }
-    };
-    
-    if (!showWelcome) {
-      startVideo();
-    }
-
-    return () => {
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
+    }));
+  }, [handleStyleChange]);
+
+  useEffect(() => () => midi?.dispose(), [midi]);
+
+  // A shared link carries a style in the hash; open with it, then tidy the URL
+  useEffect(() => {
+    let cancelled = false;
+    const clearHash = () => history.replaceState(null, '', window.location.pathname + window.location.search);
+    readShareHash(window.location.hash).then(result => {
+      if (cancelled || !result) return;
+      if (result.warnings.length > 0) console.warn("Shared style adjusted:", result.warnings);
+      handleStyleChange(result.style);
+      setSharedNotice({ text: `Opening shared style "${result.style.name}"`, error: false });
+      clearHash();
+    }).catch(err => {
+      if (cancelled) return;
+      setSharedNotice({ text: `Could not open the shared style: ${err instanceof Error ? err.message : String(err)}`, error: true });
+      clearHash();
+    });
+    return () => { cancelled = true; };
+  }, [handleStyleChange]);
+
+  // Opens a source and swaps it in; throws (leaving the current source running) if it can't be opened
+  const openSource = useCallback(async (config: InputSourceConfig): Promise<void> => {
+    if (!mountRef.current) return;
+    const opened: InputSource = await openInputSource(config, {
+      mount: mountRef.current,
+      // Screen sharing stopped from the browser UI: keep the show going on the test pattern
+      onEnded: () => {
+        if (sourceRef.current === opened) openSource(FALLBACK_INPUT).catch(() => {});
       }
-    };
-  }, [showWelcome]);
+    });
+    sourceRef.current?.stop();
+    sourceRef.current = opened;
+    setSource(opened);
+    setError(null);
+  }, []);
+
+  const enter = (config: InputSourceConfig) => {
+    setShowWelcome(false);
+    openSource(config).catch(err => {
+      console.error("Camera error:", err);
+      setError("无法访问摄像头，请确保已授予权限并在 HTTPS 环境下运行。");
+    });
+  };
+
+  useEffect(() => () => sourceRef.current?.stop(), []);
 
   return (
     <div className="relative w-full h-screen bg-black overflow-hidden font-sans text-white">
-      {/* 关键：不要使用 hidden，而是使用 opacity-0，否则 MediaPipe 可能无法抓取帧 */}
-      <video 
-        ref={videoRef} 
-        className="opacity-0 absolute pointer-events-none" 
-        playsInline 
-        muted 
-        width="640" 
-        height="480"
-      />
+      {/* 关键：不要使用 hidden，而是使用 opacity-0，否则 MediaPipe 可能无法抓取帧 (input source videos mount here) */}
+      <div ref={mountRef} className="opacity-0 absolute pointer-events-none" />
       
-      {streamStarted && <Renderer styleConfig={currentStyle} videoRef={videoRef} isPaused={false} />}
-      {streamStarted && <MusicPlayer />}
+      {source && <Renderer styleConfig={currentStyle} transition={styleTransition} source={source} isPaused={false} styleOffsetsRef={styleOffsetsRef} captureRef={captureRef} backgroundRef={backgroundRef} performanceRef={performanceRef} gestureBindings={gestureBindings} onPresetStep={handlePresetStep} sprite={sprite} />}
+      {source && <MusicPlayer onAudioElement={setAudioElement} />}
+      {source && <AudioReactivePanel audioElement={audioElement} offsetsRef={styleOffsetsRef} />}
+      {source && (
+        <div className="fixed top-32 left-6 z-50 w-56 space-y-2">
+          <InputSourcePanel source={source} onSelect={openSource} />
+          <BackgroundPanel backgroundRef={backgroundRef} source={source} />
+          <GesturePanel bindings={gestureBindings} onChange={setGestureBindings} />
+          <PerformancePanel performanceRef={performanceRef} />
+          <MidiPanel midi={midi} midiState={midiState} onConnect={connectMidi} currentStyle={currentStyle} presets={allStyles} />
+          <LibraryPanel library={library} entries={libraryEntries} currentStyle={currentStyle} onStyleChange={(style) => handleStyleChange(style, DEFAULT_TRANSITION)} />
+        </div>
+      )}
 
       {showWelcome && (
         <div className="absolute inset-0 z-50 flex items-center justify-center bg-black">
           <div className="max-w-md p-10 text-center space-y-8 glass-panel rounded-3xl">
             <h1 className="text-6xl font-black bg-gradient-to-tr from-cyan-400 via-purple-500 to-pink-500 bg-clip-text text-transparent italic">ArtFlow</h1>
             <p className="text-white/60 text-lg font-light tracking-wide">Transform your reality into digital masterpieces.</p>
+            {sharedNotice && (
+              <p className={`text-sm ${sharedNotice.error ? 'text-red-400' : 'text-white/70'}`}>{sharedNotice.text}</p>
+            )}
             <button 
-              onClick={() => setShowWelcome(false)}
+              onClick={() => enter(DEFAULT_INPUT)}
               className="w-full bg-white text-black font-bold py-5 rounded-2xl text-xl hover:scale-[1.02] active:scale-95 transition-all shadow-2xl shadow-purple-500/20"
             >
               Enter Experience
             </button>
+            <button onClick={() => enter(FALLBACK_INPUT)} className="text-xs text-white/40 hover:text-white/70 transition-colors">
+              No camera? Start with a test pattern
+            </button>
             <p className="text-[10px] text-white/20 uppercase tracking-widest">Balanced Art & Precision Rendering</p>
           </div>
         </div>
       )}
 
-      {error && !showWelcome && (
+      {error && !showWelcome && !source && (
         <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/90 px-6">
           <div className="max-w-sm text-center p-8 border border-red-500/30 rounded-3xl bg-red-500/10 backdrop-blur-xl">
             <h2 className="text-2xl font-bold text-red-500 mb-4">Connection Failed</h2>
             <p className="text-white/80 text-sm mb-6">{error}</p>
-            <button onClick={() => window.location.reload()} className="px-6 py-2 bg-white/10 hover:bg-white/20 rounded-full text-xs transition-colors">Retry</button>
+            <div className="flex justify-center gap-2">
+              <button onClick={() => window.location.reload()} className="px-6 py-2 bg-white/10 hover:bg-white/20 rounded-full text-xs transition-colors">Retry</button>
+              <button onClick={() => enter(FALLBACK_INPUT)} className="px-6 py-2 bg-white/10 hover:bg-white/20 rounded-full text-xs transition-colors">Use Test Pattern</button>
+            </div>
           </div>
         </div>
       )}
 
-      {streamStarted && <Controls currentStyle={currentStyle} onStyleChange={setCurrentStyle} presetStyles={PRESET_STYLES} />}
+      {source && <Controls currentStyle={currentStyle} onStyleChange={handleStyleChange} presetStyles={PRESET_STYLES} libraryEntries={libraryEntries} midiLearn={midi && midiState ? { state: midiState, onPick: midi.pickField } : null} liveEditRef={liveEditRef} captureRef={captureRef} audioElement={audioElement} sprite={sprite} onSpriteChange={setSprite} source={source} />}
 
       <div className="absolute top-6 left-1/2 -translate-x-1/2 z-40 pointer-events-none opacity-30 text-[10px] uppercase tracking-[0.3em] font-light text-center">
           Moving your hand to sculpt the aurora
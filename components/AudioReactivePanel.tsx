@@ -0,0 +1,187 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ModulatableField, StyleOffsets } from '../types';
+import { AudioAnalyzer, AudioFeatures, AudioInput, createAudioAnalyzer, SILENT_FEATURES } from '../services/audioAnalyzer';
+import {
+  AUDIO_FEATURES,
+  AudioFeatureName,
+  AudioMapping,
+  createAudioModulator,
+  DEFAULT_AUDIO_MAPPINGS,
+  MODULATION_TARGETS
+} from '../services/audioModulation';
+
+interface AudioReactivePanelProps {
+  audioElement: HTMLAudioElement | null;
+  // Written every animation frame; the Renderer forwards it to the simulation
+  offsetsRef: React.MutableRefObject<StyleOffsets>;
+}
+
+const METER_INTERVAL_MS = 100;
+
+const sliderClass = "w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full";
+
+const AudioReactivePanel: React.FC<AudioReactivePanelProps> = ({ audioElement, offsetsRef }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [input, setInput] = useState<AudioInput>('off');
+  const [mappings, setMappings] = useState<AudioMapping[]>(DEFAULT_AUDIO_MAPPINGS);
+  const [levels, setLevels] = useState<AudioFeatures>(SILENT_FEATURES);
+  const [error, setError] = useState<string | null>(null);
+  const analyzerRef = useRef<AudioAnalyzer | null>(null);
+  const mappingsRef = useRef(mappings);
+  const lastBeatRef = useRef(0);
+
+  useEffect(() => { mappingsRef.current = mappings; }, [mappings]);
+
+  // Analysis loop: only runs while a source is selected
+  useEffect(() => {
+    const analyzer = analyzerRef.current;
+    if (input === 'off' || !analyzer) {
+      offsetsRef.current = {};
+      return;
+    }
+    const modulator = createAudioModulator();
+    let frame = 0;
+    let last = performance.now();
+    let lastMeter = 0;
+
+    const tick = (now: number) => {
+      const features = analyzer.read(now);
+      offsetsRef.current = modulator.update(mappingsRef.current, features, now - last);
+      last = now;
+      if (features.beat) lastBeatRef.current = now;
+      if (now - lastMeter > METER_INTERVAL_MS) {
+        lastMeter = now;
+        setLevels({ ...features, beat: now - lastBeatRef.current < 150 });
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => {
+      cancelAnimationFrame(frame);
+      offsetsRef.current = {};
+    };
+  }, [input, offsetsRef]);
+
+  useEffect(() => () => analyzerRef.current?.stop(), []);
+
+  const selectInput = async (next: AudioInput) => {
+    setError(null);
+    if (!analyzerRef.current) analyzerRef.current = createAudioAnalyzer();
+    const analyzer = analyzerRef.current;
+    try {
+      if (next === 'player') {
+        if (!audioElement) throw new Error('Music player is not ready');
+        await analyzer.useElement(audioElement);
+      } else if (next === 'mic') {
+        await analyzer.useMicrophone();
+      } else {
+        analyzer.stop();
+      }
+      setInput(next);
+    } catch (err) {
+      console.error("Audio input failed:", err);
+      analyzer.stop();
+      setInput('off');
+      setError(next === 'mic' ? 'Microphone unavailable' : 'Cannot analyse the player track');
+    }
+  };
+
+  const updateMapping = (id: string, patch: Partial<AudioMapping>) => {
+    setMappings(prev => prev.map(m => (m.id === id ? { ...m, ...patch } : m)));
+  };
+
+  const addMapping = () => {
+    setMappings(prev => [...prev, {
+      id: `map-${Date.now()}`,
+      feature: 'rms',
+      field: 'speed',
+      amount: 0.3,
+      attackMs: 30,
+      releaseMs: 300
+    }]);
+  };
+
+  return (
+    <div className="fixed top-52 right-6 z-50 w-64">
+      <div className="glass-panel rounded-2xl p-3 text-xs">
+        <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between">
+          <span className="text-[10px] uppercase tracking-widest text-white/60">Audio Reactive</span>
+          <span className={`w-2 h-2 rounded-full ${input === 'off' ? 'bg-white/20' : levels.beat ? 'bg-pink-400 shadow-[0_0_8px_#f472b6]' : 'bg-purple-500'}`} />
+        </button>
+
+        {isOpen && (
+          <div className="mt-3 space-y-3">
+            <div className="flex gap-1">
+              {(['off', 'player', 'mic'] as AudioInput[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => selectInput(option)}
+                  className={`flex-1 py-1 rounded-md border transition-colors ${input === option ? 'bg-white/10 border-purple-500' : 'border-white/10 hover:bg-white/5'}`}
+                >
+                  {option === 'off' ? 'Off' : option === 'player' ? 'Track' : 'Mic'}
+                </button>
+              ))}
+            </div>
+            {error && <p className="text-red-400 text-[10px]">{error}</p>}
+
+            <div className="grid grid-cols-4 gap-1 items-end h-10">
+              {(['bass', 'mid', 'treble', 'rms'] as const).map(band => (
+                <div key={band} className="flex flex-col items-center gap-1 h-full justify-end">
+                  <div className="w-3 bg-purple-500/80 rounded-sm transition-all duration-100" style={{ height: `${Math.round(levels[band] * 100)}%` }} />
+                  <span className="text-[9px] text-white/40 uppercase">{band}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+              {mappings.map(m => (
+                <div key={m.id} className="space-y-1 border border-white/10 rounded-lg p-2">
+                  <div className="flex gap-1 items-center">
+                    <select
+                      value={m.feature}
+                      onChange={(e) => updateMapping(m.id, { feature: e.target.value as AudioFeatureName })}
+                      className="bg-black/60 border border-white/10 rounded px-1 py-0.5"
+                    >
+                      {AUDIO_FEATURES.map(f => <option key={f} value={f}>{f}</option>)}
+                    </select>
+                    <span className="text-white/40">→</span>
+                    <select
+                      value={m.field}
+                      onChange={(e) => updateMapping(m.id, { field: e.target.value as ModulatableField })}
+                      className="flex-1 bg-black/60 border border-white/10 rounded px-1 py-0.5"
+                    >
+                      {(Object.keys(MODULATION_TARGETS) as ModulatableField[]).map(f => (
+                        <option key={f} value={f}>{MODULATION_TARGETS[f].label}</option>
+                      ))}
+                    </select>
+                    <button onClick={() => setMappings(prev => prev.filter(x => x.id !== m.id))} className="text-white/30 hover:text-white px-1">×</button>
+                  </div>
+                  <label className="flex items-center gap-2 text-white/50">
+                    <span className="w-12">Amount</span>
+                    <input type="range" min="-1" max="1" step="0.05" value={m.amount}
+                      onChange={(e) => updateMapping(m.id, { amount: parseFloat(e.target.value) })} className={sliderClass} />
+                  </label>
+                  <label className="flex items-center gap-2 text-white/50">
+                    <span className="w-12">Attack</span>
+                    <input type="range" min="1" max="500" step="1" value={m.attackMs}
+                      onChange={(e) => updateMapping(m.id, { attackMs: parseInt(e.target.value) })} className={sliderClass} />
+                  </label>
+                  <label className="flex items-center gap-2 text-white/50">
+                    <span className="w-12">Release</span>
+                    <input type="range" min="10" max="2000" step="10" value={m.releaseMs}
+                      onChange={(e) => updateMapping(m.id, { releaseMs: parseInt(e.target.value) })} className={sliderClass} />
+                  </label>
+                </div>
+              ))}
+            </div>
+            <button onClick={addMapping} className="w-full py-1 rounded-md border border-dashed border-white/20 text-white/60 hover:bg-white/5">
+              + Add mapping
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AudioReactivePanel;
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { BackgroundControl, DEFAULT_MASK_SETTINGS, DEFAULT_PLATE_FRAMES, MaskSettings } from '../services/backgroundMask';
+import { InputSource } from '../services/inputSources';
+
+interface BackgroundPanelProps {
+  backgroundRef: React.RefObject<BackgroundControl | null>;
+  // The plate is dropped whenever the source changes
+  source: InputSource | null;
+}
+
+// 'lost': a window resize changed the sampling size and the plate no longer fits
+type PlateStatus = 'none' | 'countdown' | 'capturing' | 'ready' | 'lost';
+
+// Time to step out of the frame before the plate is taken
+const COUNTDOWN_SECONDS = 3;
+
+const sliderClass = "w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full";
+
+const BackgroundPanel: React.FC<BackgroundPanelProps> = ({ backgroundRef, source }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [status, setStatus] = useState<PlateStatus>('none');
+  const [countdown, setCountdown] = useState(0);
+  const [settings, setSettings] = useState<MaskSettings>(DEFAULT_MASK_SETTINGS);
+
+  useEffect(() => { setStatus('none'); }, [source]);
+
+  useEffect(() => { backgroundRef.current?.setSettings(settings); }, [settings, backgroundRef]);
+
+  useEffect(() => {
+    if (status !== 'ready') return;
+    return backgroundRef.current?.onLost(() => setStatus('lost'));
+  }, [status, backgroundRef]);
+
+  useEffect(() => {
+    if (status !== 'countdown') return;
+    if (countdown <= 0) {
+      const target = backgroundRef.current;
+      if (!target) {
+        setStatus('none');
+        return;
+      }
+      setStatus('capturing');
+      target.capture(DEFAULT_PLATE_FRAMES)
+        .then(() => setStatus('ready'))
+        .catch(err => {
+          console.warn("Background capture stopped:", err);
+          setStatus('none');
+        });
+      return;
+    }
+    const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [status, countdown, backgroundRef]);
+
+  const startCapture = () => {
+    setCountdown(COUNTDOWN_SECONDS);
+    setStatus('countdown');
+  };
+
+  const clear = () => {
+    backgroundRef.current?.clear();
+    setStatus('none');
+  };
+
+  const statusLabel = status === 'countdown' ? `Step out… ${countdown}`
+    : status === 'capturing' ? 'Capturing…'
+    : status === 'ready' ? 'Silhouette on'
+    : status === 'lost' ? 'Resized, recapture'
+    : 'Off';
+
+  return (
+    <div className="glass-panel rounded-2xl p-3 text-xs">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between gap-2">
+        <span className="text-[10px] uppercase tracking-widest text-white/60">Background</span>
+        <span className={status === 'ready' ? 'text-cyan-300' : status === 'lost' ? 'text-amber-300' : 'text-white/40'}>{statusLabel}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-2">
+          <div className="flex gap-1">
+            <button
+              onClick={startCapture}
+              disabled={status === 'countdown' || status === 'capturing'}
+              className="flex-1 py-1 rounded-md border border-white/10 hover:bg-white/5 disabled:opacity-40"
+            >
+              Capture background
+            </button>
+            <button onClick={clear} disabled={status === 'none'} className="px-2 py-1 rounded-md border border-white/10 hover:bg-white/5 disabled:opacity-40">
+              Clear
+            </button>
+          </div>
+          <label className="flex items-center gap-2 text-white/50">
+            <span className="w-16">Threshold</span>
+            <input type="range" min="5" max="150" step="1" value={settings.threshold}
+              onChange={(e) => setSettings({ ...settings, threshold: parseInt(e.target.value) })} className={sliderClass} />
+          </label>
+          <label className="flex items-center gap-2 text-white/50">
+            <span className="w-16">Smoothing</span>
+            <input type="range" min="0" max="0.95" step="0.05" value={settings.smoothing}
+              onChange={(e) => setSettings({ ...settings, smoothing: parseFloat(e.target.value) })} className={sliderClass} />
+          </label>
+          <p className="text-[10px] text-white/30">Averages {DEFAULT_PLATE_FRAMES} frames of the empty scene; only what differs from it makes particles.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackgroundPanel;
@@ -0,0 +1,109 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { CanvasRecorder, CaptureTarget, captureFilename, downloadBlob, startCanvasRecording } from '../services/capture';
+
+interface CapturePanelProps {
+  captureRef: React.RefObject<CaptureTarget | null>;
+  audioElement: HTMLAudioElement | null;
+}
+
+const formatElapsed = (ms: number) => {
+  const total = Math.floor(ms / 1000);
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const buttonClass = "px-3 py-2 rounded-lg border border-white/10 text-xs font-bold hover:bg-white/10 disabled:opacity-40 transition-colors";
+
+const CapturePanel: React.FC<CapturePanelProps> = ({ captureRef, audioElement }) => {
+  const [recorder, setRecorder] = useState<CanvasRecorder | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [withAudio, setWithAudio] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const recorderRef = useRef<CanvasRecorder | null>(null);
+
+  useEffect(() => {
+    if (!recorder) return;
+    const timer = setInterval(() => setElapsed(performance.now() - recorder.startedAt), 250);
+    return () => clearInterval(timer);
+  }, [recorder]);
+
+  // Don't leave a recorder running if the panel goes away
+  useEffect(() => () => { recorderRef.current?.stop(); }, []);
+
+  const toggleRecording = async () => {
+    if (recorder) {
+      setRecorder(null);
+      recorderRef.current = null;
+      const blob = await recorder.stop();
+      downloadBlob(blob, captureFilename('webm'));
+      return;
+    }
+    const target = captureRef.current;
+    if (!target) return;
+    try {
+      const next = startCanvasRecording(target.canvas, withAudio ? audioElement : null);
+      recorderRef.current = next;
+      setElapsed(0);
+      setRecorder(next);
+    } catch (err) {
+      console.error("Recording failed:", err);
+      alert("Recording is not supported in this browser.");
+    }
+  };
+
+  const capture = async (label: string, take: (target: CaptureTarget) => Promise<Blob>, suffix: string) => {
+    const target = captureRef.current;
+    if (!target || busy) return;
+    setBusy(label);
+    try {
+      downloadBlob(await take(target), captureFilename('png', suffix));
+    } catch (err) {
+      console.error("Capture failed:", err);
+      alert("Capture failed. Please try again.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="block text-xs text-white/40 uppercase tracking-wider">Capture</label>
+      <div className="flex gap-2 flex-wrap">
+        <button
+          onClick={toggleRecording}
+          className={`${buttonClass} ${recorder ? 'bg-red-500/20 border-red-500/60 text-red-200' : ''}`}
+        >
+          {recorder ? `■ Stop ${formatElapsed(elapsed)}` : '● Record'}
+        </button>
+        <button onClick={() => capture('snapshot', t => t.snapshot(), '')} disabled={!!busy} className={buttonClass}>
+          {busy === 'snapshot' ? '...' : 'Snapshot'}
+        </button>
+        {[2, 4].map(scale => (
+          <button
+            key={scale}
+            onClick={() => capture(`still-${scale}`, t => t.renderStill(scale), `-${scale}x`)}
+            disabled={!!busy}
+            className={buttonClass}
+          >
+            {busy === `still-${scale}` ? '...' : `Still ${scale}x`}
+          </button>
+        ))}
+      </div>
+      <label className="flex items-center gap-2 text-[10px] text-white/50">
+        <input type="checkbox" checked={withAudio} disabled={!!recorder} onChange={(e) => setWithAudio(e.target.checked)} />
+        Include music in recording
+      </label>
+
+      {/* Recording HUD (portalled: the controls drawer is transformed, which would trap `fixed`) */}
+      {recorder && createPortal(
+        <div className="fixed top-20 left-8 z-50 flex items-center gap-2 px-4 py-1.5 glass-panel rounded-full border-red-500/40 pointer-events-none">
+          <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
+          <span className="text-[10px] uppercase tracking-widest font-bold text-red-100">Rec {formatElapsed(elapsed)}</span>
+        </div>,
+        document.body
+      )}
+    </div>
+  );
+};
+
+export default CapturePanel;
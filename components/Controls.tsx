@@ -1,29 +1,110 @@
 
-import React, { useState } from 'react';
-import { ArtStyleConfig, ParticleShape } from '../types';
-import { generateArtStyle } from '../services/geminiService';
+import React, { useEffect, useRef, useState } from 'react';
+import { ArtStyleConfig } from '../types';
+import { createGeminiStyleProvider } from '../services/geminiService';
+import { createLocalStyleProvider } from '../services/localStyleProvider';
+import { formatFailures, GeneratedStyles, generateStyle, isAbortError, MAX_VARIATIONS, StyleProvider } from '../services/styleProviders';
+import { CaptureTarget } from '../services/capture';
+import { formatWarnings, StyleValidationResult } from '../services/styleValidation';
+import { DEFAULT_TRANSITION, EASINGS, EasingName, StyleTransition } from '../services/styleTransition';
+import { InputSource } from '../services/inputSources';
+import { LibraryEntry } from '../services/styleLibrary';
+import { LiveEdit } from '../services/midi';
+import { MidiLearn } from './StyleEditor';
+import CapturePanel from './CapturePanel';
+import SequencerPanel from './SequencerPanel';
+import PalettePanel from './PalettePanel';
+import StyleEditor from './StyleEditor';
 
 interface ControlsProps {
   currentStyle: ArtStyleConfig;
-  onStyleChange: (style: ArtStyleConfig) => void;
+  onStyleChange: (style: ArtStyleConfig, transition?: StyleTransition) => void;
   presetStyles: ArtStyleConfig[];
+  // Saved styles, shown in the carousel after the built-ins
+  libraryEntries: LibraryEntry[];
+  captureRef: React.RefObject<CaptureTarget | null>;
+  audioElement: HTMLAudioElement | null;
+  // Image the SPRITE shape stamps
+  sprite: ImageBitmap | null;
+  onSpriteChange: (sprite: ImageBitmap | null) => void;
+  // The live input, for sampling palettes from the frame
+  source: InputSource;
+  midiLearn: MidiLearn | null;
+  liveEditRef: React.MutableRefObject<LiveEdit | null>;
 }
 
-const Controls: React.FC<ControlsProps> = ({ currentStyle, onStyleChange, presetStyles }) => {
+// 'auto' asks Gemini and falls back to the local generator when it can't answer
+type ProviderChoice = 'auto' | 'gemini' | 'local';
+
+const GEMINI_PROVIDER = createGeminiStyleProvider();
+const LOCAL_PROVIDER = createLocalStyleProvider();
+const PROVIDER_CHAINS: Record<ProviderChoice, StyleProvider[]> = {
+  auto: [GEMINI_PROVIDER, LOCAL_PROVIDER],
+  gemini: [GEMINI_PROVIDER],
+  local: [LOCAL_PROVIDER]
+};
+
+// A generated style and the answer it came from
+interface AppliedStyle {
+  result: StyleValidationResult;
+  source: GeneratedStyles;
+}
+
+const Controls: React.FC<ControlsProps> = ({ currentStyle, onStyleChange, presetStyles, libraryEntries, captureRef, audioElement, sprite, onSpriteChange, source, midiLearn, liveEditRef }) => {
   const [isOpen, setIsOpen] = useState(true);
   const [prompt, setPrompt] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
+  const [providerChoice, setProviderChoice] = useState<ProviderChoice>('auto');
+  // Refine mode edits the current style instead of starting from scratch
+  const [refine, setRefine] = useState(false);
+  // The instructions that led to a generated style, oldest first; only used while it's still the current style
+  const [refineHistory, setRefineHistory] = useState<{ styleName: string; prompts: string[] } | null>(null);
+  // Who produced the last generated style and what the validator fixed, shown while that style is active
+  const [applied, setApplied] = useState<AppliedStyle | null>(null);
+  const [candidates, setCandidates] = useState<{ source: GeneratedStyles; prompts: string[] } | null>(null);
+  const [generationError, setGenerationError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Used when switching to a preset or generated style; slider tweaks always apply instantly
+  const [transition, setTransition] = useState<StyleTransition>(DEFAULT_TRANSITION);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Favourites lead the saved styles, matching the order swipes walk them in
+  const carousel = [
+    ...presetStyles.map(style => ({ key: `preset-${style.name}`, style, entry: null as LibraryEntry | null })),
+    ...[...libraryEntries.filter(e => e.favourite), ...libraryEntries.filter(e => !e.favourite)]
+      .map(entry => ({ key: entry.id, style: entry.style, entry }))
+  ];
+
+  const history = refineHistory?.styleName === currentStyle.name ? refineHistory.prompts : [];
+
+  const applyResult = (result: StyleValidationResult, source: GeneratedStyles, prompts: string[]) => {
+    setApplied({ result, source });
+    setRefineHistory({ styleName: result.style.name, prompts });
+    onStyleChange(result.style, transition);
+  };
 
-  const handleGenerate = async () => {
-    if (!prompt.trim()) return;
+  const handleGenerate = async (count = 1) => {
+    const text = prompt.trim();
+    if (!text || isGenerating) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsGenerating(true);
+    setGenerationError(null);
+    setCandidates(null);
     try {
-      const newStyle = await generateArtStyle(prompt);
-      onStyleChange(newStyle);
+      const source = await generateStyle(
+        { prompt: text, base: refine ? currentStyle : undefined, history: refine ? history : undefined, count, signal: controller.signal },
+        PROVIDER_CHAINS[providerChoice]
+      );
+      const prompts = refine ? [...history, text] : [text];
+      if (count > 1) setCandidates({ source, prompts });
+      else applyResult(source.results[0], source, prompts);
       setPrompt('');
     } catch (e) {
-      alert("Failed to generate style. Please try again.");
+      if (!isAbortError(e)) setGenerationError(e instanceof Error ? e.message : String(e));
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsGenerating(false);
     }
   };
@@ -48,22 +129,67 @@ const Controls: React.FC<ControlsProps> = ({ currentStyle, onStyleChange, preset
           {/* Top Row: AI Generator & Current Info */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
              {/* AI Input */}
-             <div className="flex gap-2">
-              <input 
-                type="text" 
-                value={prompt}
-                onChange={(e) => setPrompt(e.target.value)}
-                placeholder="Describe a style (e.g., 'Cyberpunk Rain', 'Van Gogh Starry Night')"
-                className="flex-1 bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-purple-500"
-                onKeyDown={(e) => e.key === 'Enter' && handleGenerate()}
-              />
-              <button 
-                onClick={handleGenerate}
-                disabled={isGenerating}
-                className="bg-gradient-to-r from-purple-600 to-blue-600 text-white font-bold py-2 px-4 rounded-lg hover:opacity-90 disabled:opacity-50 transition-all shadow-lg shadow-purple-900/20"
-              >
-                {isGenerating ? 'Thinking...' : 'Generate'}
-              </button>
+             <div>
+              <div className="flex gap-2">
+                <select
+                  value={providerChoice}
+                  onChange={(e) => setProviderChoice(e.target.value as ProviderChoice)}
+                  title="Which generator turns the prompt into a style"
+                  className="bg-white/5 border border-white/10 rounded-lg px-2 text-xs text-white/70 focus:outline-none"
+                >
+                  <option value="auto" className="bg-black">Auto</option>
+                  <option value="gemini" className="bg-black">{GEMINI_PROVIDER.label}</option>
+                  <option value="local" className="bg-black">{LOCAL_PROVIDER.label}</option>
+                </select>
+                <input 
+                  type="text" 
+                  value={prompt}
+                  onChange={(e) => setPrompt(e.target.value)}
+                  placeholder={refine
+                    ? "Describe a change (e.g., 'warmer', 'slower and more abstract')"
+                    : "Describe a style (e.g., 'Cyberpunk Rain', 'Van Gogh Starry Night')"}
+                  className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  onKeyDown={(e) => e.key === 'Enter' && handleGenerate()}
+                />
+                {isGenerating ? (
+                  <button
+                    onClick={() => abortRef.current?.abort()}
+                    className="bg-white/10 text-white font-bold py-2 px-4 rounded-lg hover:bg-white/20 transition-all"
+                    title="Stop waiting for this style"
+                  >
+                    Cancel
+                  </button>
+                ) : (
+                  <>
+                    <button 
+                      onClick={() => handleGenerate()}
+                      className="bg-gradient-to-r from-purple-600 to-blue-600 text-white font-bold py-2 px-4 rounded-lg hover:opacity-90 disabled:opacity-50 transition-all shadow-lg shadow-purple-900/20"
+                    >
+                      {refine ? 'Refine' : 'Generate'}
+                    </button>
+                    <button
+                      onClick={() => handleGenerate(MAX_VARIATIONS)}
+                      className="bg-white/5 border border-white/10 text-white/80 text-xs py-2 px-3 rounded-lg hover:bg-white/10 transition-all"
+                      title={`Offer ${MAX_VARIATIONS} candidates to choose from`}
+                    >
+                      Variations
+                    </button>
+                  </>
+                )}
+              </div>
+              <div className="mt-1 flex items-center gap-2 text-[10px] text-white/50">
+                <label className="flex items-center gap-1 cursor-pointer">
+                  <input type="checkbox" checked={refine} onChange={(e) => setRefine(e.target.checked)} />
+                  Refine current style
+                </label>
+                {isGenerating && <span className="text-white/40">Thinking...</span>}
+                {refine && history.length > 0 && (
+                  <span className="truncate text-white/30" title={history.join('\n')}>after {history.map(h => `"${h}"`).join(' → ')}</span>
+                )}
+              </div>
+              {generationError && (
+                <p className="mt-1 text-[10px] text-red-400 whitespace-pre-line">Generation failed — {generationError}</p>
+              )}
             </div>
 
             {/* Current Style Info */}
@@ -71,6 +197,21 @@ const Controls: React.FC<ControlsProps> = ({ currentStyle, onStyleChange, preset
                 <div>
                     <span className="block text-xs text-white/40 uppercase tracking-wider">Current Style</span>
                     <span className="font-bold text-white">{currentStyle.name}</span>
+                    {applied?.result.style.name === currentStyle.name && (
+                        <>
+                            <span className="block text-[10px] text-white/40">via {applied.source.providerLabel}</span>
+                            {applied.source.failures.length > 0 && (
+                                <span className="block text-[10px] text-red-300/80 cursor-help" title={formatFailures(applied.source.failures)}>
+                                    {applied.source.failures.map(f => f.label).join(', ')} failed
+                                </span>
+                            )}
+                            {applied.result.warnings.length > 0 && (
+                                <span className="block text-[10px] text-amber-300/80 cursor-help" title={formatWarnings(applied.result.warnings)}>
+                                    {applied.result.warnings.length} field{applied.result.warnings.length > 1 ? 's' : ''} adjusted
+                                </span>
+                            )}
+                        </>
+                    )}
                 </div>
                 <div className="flex gap-1">
                     {currentStyle.colors.map((c, i) => (
@@ -80,76 +221,108 @@ const Controls: React.FC<ControlsProps> = ({ currentStyle, onStyleChange, preset
             </div>
           </div>
 
-          <hr className="border-white/10" />
-
-          {/* Presets Carousel */}
-          <div>
-            <label className="block text-xs text-white/40 uppercase tracking-wider mb-2">Presets</label>
-            <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
-                {presetStyles.map((style, idx) => (
-                    <button
-                        key={idx}
-                        onClick={() => onStyleChange(style)}
-                        className={`flex-shrink-0 px-4 py-3 rounded-lg border text-left min-w-[140px] transition-all
-                            ${currentStyle.name === style.name 
-                                ? 'bg-white/10 border-purple-500 shadow-[0_0_15px_rgba(168,85,247,0.3)]' 
-                                : 'bg-transparent border-white/10 hover:bg-white/5'}`}
-                    >
-                        <div className="font-bold text-sm text-white mb-1 truncate">{style.name}</div>
-                        <div className="flex gap-1">
-                            {style.colors.slice(0, 3).map((c, i) => (
-                                <div key={i} className="w-2 h-2 rounded-full" style={{ backgroundColor: c }} />
-                            ))}
-                        </div>
-                    </button>
+          {/* Variation Candidates */}
+          {candidates && (
+            <div>
+              <div className="flex items-center justify-between mb-2 text-xs">
+                <span className="text-white/40 uppercase tracking-wider">
+                  Variations <span className="normal-case tracking-normal">via {candidates.source.providerLabel}</span>
+                  {candidates.source.failures.length > 0 && (
+                    <span className="ml-2 normal-case tracking-normal text-red-300/80 cursor-help" title={formatFailures(candidates.source.failures)}>
+                      {candidates.source.failures.map(f => f.label).join(', ')} failed
+                    </span>
+                  )}
+                </span>
+                <button onClick={() => setCandidates(null)} className="text-white/40 hover:text-white" title="Dismiss">✕</button>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {candidates.source.results.map((result, idx) => (
+                  <button
+                    key={idx}
+                    onClick={() => applyResult(result, candidates.source, candidates.prompts)}
+                    className={`px-3 py-2 rounded-lg border text-left transition-all
+                        ${currentStyle.name === result.style.name
+                            ? 'bg-white/10 border-purple-500 shadow-[0_0_15px_rgba(168,85,247,0.3)]'
+                            : 'bg-transparent border-white/10 hover:bg-white/5'}`}
+                  >
+                    <div className="font-bold text-sm text-white truncate">{result.style.name}</div>
+                    {result.style.description && (
+                      <div className="text-[10px] text-white/40 truncate" title={result.style.description}>{result.style.description}</div>
+                    )}
+                    <div className="flex gap-1 mt-1">
+                      {result.style.colors.map((c, i) => (
+                        <div key={i} className="w-2.5 h-2.5 rounded-full border border-white/10" style={{ backgroundColor: c }} />
+                      ))}
+                    </div>
+                  </button>
                 ))}
+              </div>
             </div>
-          </div>
+          )}
 
-          {/* Manual Adjustments */}
-          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 md:gap-8">
-            <div className="space-y-2">
-                <div className="flex justify-between text-xs text-white/60">
-                    <span>Density</span>
-                    <span>{currentStyle.density}</span>
-                </div>
-                <input 
-                    type="range" 
-                    min="4" max="25" step="1"
-                    value={currentStyle.density}
-                    onChange={(e) => onStyleChange({...currentStyle, density: parseInt(e.target.value)})}
-                    className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full"
-                />
-            </div>
-            
-            <div className="space-y-2">
-                <div className="flex justify-between text-xs text-white/60">
-                    <span>Speed</span>
-                    <span>{currentStyle.speed.toFixed(1)}</span>
-                </div>
-                <input 
-                    type="range" 
-                    min="0" max="5" step="0.1"
-                    value={currentStyle.speed}
-                    onChange={(e) => onStyleChange({...currentStyle, speed: parseFloat(e.target.value)})}
-                    className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full"
-                />
-            </div>
+          <hr className="border-white/10" />
 
-            <div className="space-y-2">
-                <div className="flex justify-between text-xs text-white/60">
-                    <span>Max Size</span>
-                    <span>{currentStyle.particleSizeMax}</span>
+          {/* Presets Carousel, Sequencer & Capture */}
+          <div className="flex flex-col md:flex-row gap-4">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between gap-4 mb-2">
+                <label className="block text-xs text-white/40 uppercase tracking-wider">Presets</label>
+                <div className="flex items-center gap-2 text-[10px] text-white/50">
+                  <span>Morph {(transition.durationMs / 1000).toFixed(1)}s</span>
+                  <input
+                    type="range"
+                    min="0" max="5000" step="100"
+                    value={transition.durationMs}
+                    onChange={(e) => setTransition({ ...transition, durationMs: parseInt(e.target.value) })}
+                    className="w-20 h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full"
+                  />
+                  <select
+                    value={transition.easing}
+                    onChange={(e) => setTransition({ ...transition, easing: e.target.value as EasingName })}
+                    className="bg-white/5 border border-white/10 rounded px-1 py-0.5 text-white/70 focus:outline-none"
+                  >
+                    {(Object.keys(EASINGS) as EasingName[]).map(name => (
+                      <option key={name} value={name} className="bg-black">{name}</option>
+                    ))}
+                  </select>
                 </div>
-                <input 
-                    type="range" 
-                    min="2" max="30" step="1"
-                    value={currentStyle.particleSizeMax}
-                    onChange={(e) => onStyleChange({...currentStyle, particleSizeMax: parseInt(e.target.value)})}
-                    className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full"
-                />
+              </div>
+              <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
+                  {carousel.map(({ key, style, entry }) => (
+                      <button
+                          key={key}
+                          onClick={() => onStyleChange(style, transition)}
+                          title={entry && entry.tags.length > 0 ? entry.tags.join(', ') : style.description}
+                          className={`flex-shrink-0 px-4 py-3 rounded-lg border text-left min-w-[140px] transition-all
+                              ${currentStyle.name === style.name 
+                                  ? 'bg-white/10 border-purple-500 shadow-[0_0_15px_rgba(168,85,247,0.3)]' 
+                                  : 'bg-transparent border-white/10 hover:bg-white/5'}`}
+                      >
+                          <div className="font-bold text-sm text-white mb-1 truncate">{style.name}</div>
+                          <div className="flex items-center gap-1">
+                              {style.colors.slice(0, 3).map((c, i) => (
+                                  <div key={i} className="w-2 h-2 rounded-full" style={{ backgroundColor: c }} />
+                              ))}
+                              {entry && (
+                                  <span className={`ml-auto text-[9px] ${entry.favourite ? 'text-amber-300' : 'text-white/30'}`}>
+                                      {entry.favourite ? '★' : 'saved'}
+                                  </span>
+                              )}
+                          </div>
+                      </button>
+                  ))}
+              </div>
+              <SequencerPanel currentStyle={currentStyle} onStyleChange={onStyleChange} presetStyles={presetStyles} transition={transition} />
+            </div>
+            <div className="flex flex-col gap-4">
+              <CapturePanel captureRef={captureRef} audioElement={audioElement} />
+              <PalettePanel currentStyle={currentStyle} onStyleChange={onStyleChange} transition={transition} source={source} />
             </div>
           </div>
+
+          <hr className="border-white/10" />
+
+          <StyleEditor currentStyle={currentStyle} onStyleChange={onStyleChange} sprite={sprite} onSpriteChange={onSpriteChange} midiLearn={midiLearn} liveEditRef={liveEditRef} />
         </div>
       </div>
     </div>
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { GESTURE_ACTIONS, GestureAction, GestureBindings, GestureName, GESTURES } from '../services/gestures';
+
+interface GesturePanelProps {
+  bindings: GestureBindings;
+  onChange: (bindings: GestureBindings) => void;
+}
+
+const GESTURE_LABELS: Record<GestureName, string> = {
+  none: 'Hand (no pose)',
+  pinch: 'Pinch',
+  fist: 'Fist',
+  open: 'Open palm',
+  point: 'Point',
+  swipeLeft: 'Swipe left',
+  swipeRight: 'Swipe right'
+};
+
+const ACTION_LABELS: Record<GestureAction, string> = {
+  none: 'Nothing',
+  touch: "Style's touch",
+  attract: 'Attract',
+  repel: 'Repel',
+  explode: 'Explode',
+  freeze: 'Freeze',
+  nextPreset: 'Next preset',
+  previousPreset: 'Previous preset',
+  scaleRadius: 'Scale radius (pinch width)'
+};
+
+const GesturePanel: React.FC<GesturePanelProps> = ({ bindings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="glass-panel rounded-2xl p-3 text-xs">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between">
+        <span className="text-[10px] uppercase tracking-widest text-white/60">Gestures</span>
+        <span className="text-white/40">{isOpen ? '−' : '+'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-1">
+          {GESTURES.map(gesture => (
+            <label key={gesture} className="flex items-center gap-2 text-white/50">
+              <span className="w-20 flex-shrink-0">{GESTURE_LABELS[gesture]}</span>
+              <select
+                value={bindings[gesture]}
+                onChange={(e) => onChange({ ...bindings, [gesture]: e.target.value as GestureAction })}
+                className="flex-1 min-w-0 bg-black/60 border border-white/10 rounded px-1 py-0.5 text-white/80"
+              >
+                {GESTURE_ACTIONS.map(action => <option key={action} value={action}>{ACTION_LABELS[action]}</option>)}
+              </select>
+            </label>
+          ))}
+          <p className="pt-1 text-[10px] text-white/30">Both hands act independently.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GesturePanel;
@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  InputSource,
+  InputSourceConfig,
+  InputSourceKind,
+  listCameras,
+  PatternName,
+  PATTERNS,
+  RESOLUTIONS
+} from '../services/inputSources';
+
+interface InputSourcePanelProps {
+  source: InputSource | null;
+  // Rejects if the source can't be opened; the current source keeps running in that case
+  onSelect: (config: InputSourceConfig) => Promise<void>;
+}
+
+const KIND_LABELS: Record<InputSourceKind, string> = {
+  webcam: 'Camera',
+  video: 'Video',
+  image: 'Image',
+  screen: 'Screen',
+  pattern: 'Pattern'
+};
+
+const selectClass = "w-full bg-black/60 border border-white/10 rounded px-1 py-0.5 text-white/80";
+
+const InputSourcePanel: React.FC<InputSourcePanelProps> = ({ source, onSelect }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState('');
+  const [resolution, setResolution] = useState(RESOLUTIONS[0]);
+  const [pattern, setPattern] = useState<PatternName>('shapes');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  // Device labels are only filled in once camera permission has been granted, so refresh on open
+  useEffect(() => {
+    if (!isOpen) return;
+    listCameras().then(setCameras).catch(() => setCameras([]));
+  }, [isOpen, source]);
+
+  const select = async (config: InputSourceConfig) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await onSelect(config);
+    } catch (err) {
+      console.error("Input source failed:", err);
+      setError(`Could not open ${KIND_LABELS[config.kind].toLowerCase()}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openCamera = () => select({ kind: 'webcam', deviceId: deviceId || undefined, resolution });
+
+  const fileInput = (ref: React.RefObject<HTMLInputElement | null>, kind: 'video' | 'image') => (
+    <input
+      ref={ref}
+      type="file"
+      accept={`${kind}/*`}
+      className="hidden"
+      onChange={(e) => {
+        const file = e.target.files?.[0];
+        if (file) select({ kind, file });
+        e.target.value = '';
+      }}
+    />
+  );
+
+  return (
+    <div className="glass-panel rounded-2xl p-3 text-xs">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between gap-2">
+        <span className="text-[10px] uppercase tracking-widest text-white/60">Input</span>
+        <span className="text-white/40 truncate">{source ? source.label : '—'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-2">
+          <div className="space-y-1">
+            <select value={deviceId} onChange={(e) => setDeviceId(e.target.value)} className={selectClass}>
+              <option value="">Default camera</option>
+              {cameras.map((camera, i) => (
+                <option key={camera.deviceId || i} value={camera.deviceId}>{camera.label || `Camera ${i + 1}`}</option>
+              ))}
+            </select>
+            <div className="flex gap-1">
+              <select
+                value={resolution.label}
+                onChange={(e) => setResolution(RESOLUTIONS.find(r => r.label === e.target.value) ?? RESOLUTIONS[0])}
+                className={selectClass}
+              >
+                {RESOLUTIONS.map(r => <option key={r.label} value={r.label}>{r.label}</option>)}
+              </select>
+              <button onClick={openCamera} disabled={busy} className="px-2 rounded-md border border-white/10 hover:bg-white/5 disabled:opacity-40">
+                {KIND_LABELS.webcam}
+              </button>
+            </div>
+          </div>
+
+          <div className="flex gap-1">
+            <select value={pattern} onChange={(e) => setPattern(e.target.value as PatternName)} className={selectClass}>
+              {PATTERNS.map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+            <button onClick={() => select({ kind: 'pattern', pattern })} disabled={busy} className="px-2 rounded-md border border-white/10 hover:bg-white/5 disabled:opacity-40">
+              {KIND_LABELS.pattern}
+            </button>
+          </div>
+
+          <div className="flex gap-1">
+            {(['video', 'image'] as const).map(kind => (
+              <button
+                key={kind}
+                onClick={() => (kind === 'video' ? videoInputRef : imageInputRef).current?.click()}
+                disabled={busy}
+                className="flex-1 py-1 rounded-md border border-white/10 hover:bg-white/5 disabled:opacity-40"
+              >
+                {KIND_LABELS[kind]}
+              </button>
+            ))}
+            <button
+              onClick={() => select({ kind: 'screen' })}
+              disabled={busy || !navigator.mediaDevices?.getDisplayMedia}
+              className="flex-1 py-1 rounded-md border border-white/10 hover:bg-white/5 disabled:opacity-40"
+            >
+              {KIND_LABELS.screen}
+            </button>
+          </div>
+          {fileInput(videoInputRef, 'video')}
+          {fileInput(imageInputRef, 'image')}
+          {error && <p className="text-red-400 text-[10px]">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InputSourcePanel;
@@ -0,0 +1,198 @@
+import React, { useRef, useState } from 'react';
+import { ArtStyleConfig } from '../types';
+import { LibraryEntry, parseTags, StyleLibrary } from '../services/styleLibrary';
+import { ARTFLOW_EXTENSION, artflowFilename, parseArtflow, serializeArtflow, shareUrl } from '../services/styleSharing';
+import { formatWarnings } from '../services/styleValidation';
+import { downloadBlob } from '../services/capture';
+
+interface LibraryPanelProps {
+  library: StyleLibrary;
+  entries: LibraryEntry[];
+  currentStyle: ArtStyleConfig;
+  onStyleChange: (style: ArtStyleConfig) => void;
+}
+
+const buttonClass = "px-2 py-1 rounded border border-white/10 text-[10px] hover:bg-white/10 disabled:opacity-40 transition-colors";
+const inputClass = "w-full bg-black/60 border border-white/10 rounded px-1 py-0.5 text-white/80 focus:outline-none";
+
+const download = (text: string, filename: string) =>
+  downloadBlob(new Blob([text], { type: 'application/json' }), filename);
+
+const matches = (entry: LibraryEntry, filter: string) => {
+  const needle = filter.trim().toLowerCase();
+  return !needle || entry.style.name.toLowerCase().includes(needle) || entry.tags.some(t => t.includes(needle));
+};
+
+const LibraryPanel: React.FC<LibraryPanelProps> = ({ library, entries, currentStyle, onStyleChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [filter, setFilter] = useState('');
+  const [favouritesOnly, setFavouritesOnly] = useState(false);
+  // The entry whose name and tags are being edited
+  const [editing, setEditing] = useState<{ id: string; name: string; tags: string } | null>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  // Storage can refuse a write (quota, blocked), so every change reports instead of throwing
+  const attempt = (action: () => void, success?: string) => {
+    try {
+      action();
+      setMessage(success ? { text: success, error: false } : null);
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), error: true });
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(await shareUrl(currentStyle));
+      setMessage({ text: 'Link copied', error: false });
+    } catch (err) {
+      setMessage({ text: `Could not copy the link: ${err instanceof Error ? err.message : String(err)}`, error: true });
+    }
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parseArtflow(await file.text());
+      library.saveAll(imported.map(({ result, tags, favourite }) => ({ style: result.style, tags, favourite })));
+      const warnings = imported.flatMap(i => i.result.warnings);
+      if (warnings.length > 0) console.warn("Imported styles adjusted:", formatWarnings(warnings));
+      const adjusted = imported.filter(i => i.result.warnings.length > 0).length;
+      setMessage({
+        text: `Imported ${imported.length} style${imported.length > 1 ? 's' : ''}${adjusted > 0 ? `, ${adjusted} adjusted` : ''}`,
+        error: false
+      });
+    } catch (err) {
+      setMessage({ text: `Import failed: ${err instanceof Error ? err.message : String(err)}`, error: true });
+    }
+  };
+
+  const exportEntries = (list: LibraryEntry[], filename: string) =>
+    download(serializeArtflow(list.map(({ style, tags, favourite }) => ({ style, tags, favourite }))), filename);
+
+  const commitEdit = () => {
+    if (!editing) return;
+    attempt(() => library.update(editing.id, { name: editing.name, tags: parseTags(editing.tags) }));
+    setEditing(null);
+  };
+
+  const visible = entries.filter(e => (!favouritesOnly || e.favourite) && matches(e, filter));
+
+  return (
+    <div className="glass-panel rounded-2xl p-3 text-xs">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between gap-2">
+        <span className="text-[10px] uppercase tracking-widest text-white/60">Library</span>
+        <span className="font-mono text-white/40">{entries.length}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-2">
+          <div className="flex flex-wrap gap-1">
+            <button onClick={() => attempt(() => library.save(currentStyle), `Saved "${currentStyle.name}"`)} className={buttonClass}>
+              Save current
+            </button>
+            <button onClick={copyLink} className={buttonClass} title="Copy a link that opens the current style">Share link</button>
+            <button onClick={() => fileRef.current?.click()} className={buttonClass}>Import</button>
+            <button onClick={() => exportEntries(entries, `artflow-library${ARTFLOW_EXTENSION}`)} disabled={entries.length === 0} className={buttonClass}>
+              Export all
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept={`${ARTFLOW_EXTENSION},.json,application/json`}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) importFile(file);
+              }}
+            />
+          </div>
+
+          {entries.length > 0 && (
+            <div className="flex items-center gap-1">
+              <input value={filter} onChange={(e) => setFilter(e.target.value)} placeholder="Filter by name or tag" className={inputClass} />
+              <button
+                onClick={() => setFavouritesOnly(!favouritesOnly)}
+                className={`${buttonClass} ${favouritesOnly ? 'text-amber-300' : 'text-white/40'}`}
+                title="Favourites only"
+              >
+                ★
+              </button>
+            </div>
+          )}
+
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {visible.map(entry => editing?.id === entry.id ? (
+              <div key={entry.id} className="space-y-1 p-1 rounded border border-white/20">
+                <input
+                  autoFocus
+                  value={editing.name}
+                  onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && commitEdit()}
+                  className={inputClass}
+                />
+                <input
+                  value={editing.tags}
+                  onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && commitEdit()}
+                  placeholder="Tags, comma separated"
+                  className={inputClass}
+                />
+                <div className="flex gap-1">
+                  <button onClick={commitEdit} className={buttonClass}>Done</button>
+                  <button onClick={() => setEditing(null)} className={buttonClass}>Cancel</button>
+                </div>
+              </div>
+            ) : (
+              <div
+                key={entry.id}
+                className={`flex items-center gap-1 p-1 rounded border ${currentStyle.name === entry.style.name ? 'border-purple-500' : 'border-white/10'}`}
+              >
+                <button
+                  onClick={() => attempt(() => library.update(entry.id, { favourite: !entry.favourite }))}
+                  className={entry.favourite ? 'text-amber-300' : 'text-white/30 hover:text-white/60'}
+                  title={entry.favourite ? 'Unfavourite' : 'Favourite'}
+                >
+                  ★
+                </button>
+                <button onClick={() => onStyleChange(entry.style)} className="flex-1 min-w-0 text-left" title={entry.style.description}>
+                  <div className="truncate text-white/80">{entry.style.name}</div>
+                  <div className="flex items-center gap-1">
+                    {entry.style.colors.slice(0, 5).map((c, i) => (
+                      <div key={i} className="w-2 h-2 rounded-full" style={{ backgroundColor: c }} />
+                    ))}
+                    {entry.tags.length > 0 && <span className="truncate text-[9px] text-white/30">{entry.tags.join(', ')}</span>}
+                  </div>
+                </button>
+                <button
+                  onClick={() => setEditing({ id: entry.id, name: entry.style.name, tags: entry.tags.join(', ') })}
+                  className="text-white/30 hover:text-white/70"
+                  title="Rename and tag"
+                >
+                  ✎
+                </button>
+                <button onClick={() => exportEntries([entry], artflowFilename(entry.style.name))} className="text-white/30 hover:text-white/70" title="Export">
+                  ⤓
+                </button>
+                <button
+                  onClick={() => confirm(`Delete "${entry.style.name}"?`) && attempt(() => library.remove(entry.id))}
+                  className="text-white/30 hover:text-red-400"
+                  title="Delete"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            {entries.length === 0 && <p className="text-[10px] text-white/30">Saved and imported styles appear here and in the presets.</p>}
+            {entries.length > 0 && visible.length === 0 && <p className="text-[10px] text-white/30">Nothing matches.</p>}
+          </div>
+
+          {message && <p className={`text-[10px] ${message.error ? 'text-red-400' : 'text-white/50'}`}>{message.text}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LibraryPanel;
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { ArtStyleConfig } from '../types';
+import { EASINGS, EasingName } from '../services/styleTransition';
+import {
+  describeCc,
+  describeNote,
+  isOptionField,
+  MIDI_OPTION_FIELDS,
+  MidiController,
+  MidiField,
+  MidiState,
+  NoteAction
+} from '../services/midi';
+
+interface MidiPanelProps {
+  midi: MidiController | null;
+  midiState: MidiState | null;
+  onConnect: () => Promise<void>;
+  currentStyle: ArtStyleConfig;
+  // Everything the presets carousel offers, for binding notes to a preset
+  presets: ArtStyleConfig[];
+}
+
+const buttonClass = "px-2 py-1 rounded border border-white/10 text-[10px] hover:bg-white/10 disabled:opacity-40 transition-colors";
+const selectClass = "bg-black/60 border border-white/10 rounded px-1 py-0.5 text-white/80 min-w-0";
+const numberClass = "w-12 bg-black/60 border border-white/10 rounded px-1 py-0.5 text-white/80";
+
+// Note actions by select value; preset actions are `preset:<name>`
+const NOTE_CHOICES: Record<string, string> = {
+  nextPreset: 'Next preset',
+  previousPreset: 'Previous preset',
+  snapshot: 'Snapshot of current style'
+};
+
+const describeAction = (action: NoteAction) =>
+  action.kind === 'preset' ? action.name
+    : action.kind === 'snapshot' ? `Snapshot: ${action.style.name}`
+    : NOTE_CHOICES[action.kind];
+
+const MidiPanel: React.FC<MidiPanelProps> = ({ midi, midiState, onConnect, currentStyle, presets }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [connecting, setConnecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [noteChoice, setNoteChoice] = useState('nextPreset');
+
+  const connect = async () => {
+    setConnecting(true);
+    try {
+      await onConnect();
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  // Snapshots keep the style as it is when learning starts
+  const noteAction = (): NoteAction =>
+    noteChoice.startsWith('preset:') ? { kind: 'preset', name: noteChoice.slice('preset:'.length) }
+      : noteChoice === 'snapshot' ? { kind: 'snapshot', style: currentStyle }
+      : { kind: noteChoice as 'nextPreset' | 'previousPreset' };
+
+  const learning = midiState?.learning ?? null;
+  const learnHint = learning?.kind === 'note' ? 'Press a pad or key'
+    : learning?.field ? `Move a knob for ${learning.field}`
+    : learning ? 'Click a parameter in the Style Editor'
+    : null;
+
+  // An option field's range is picked by option rather than typed as an index
+  const rangeInput = (field: MidiField, value: number, onChange: (value: number) => void) =>
+    isOptionField(field) ? (
+      <select value={value} onChange={(e) => onChange(parseInt(e.target.value))} className={selectClass}>
+        {MIDI_OPTION_FIELDS[field].map((option, i) => <option key={option} value={i}>{option}</option>)}
+      </select>
+    ) : (
+      <input type="number" value={Number(value.toFixed(3))} step="any" onChange={(e) => {
+        const next = parseFloat(e.target.value);
+        if (Number.isFinite(next)) onChange(next);
+      }} className={numberClass} />
+    );
+
+  return (
+    <div className="glass-panel rounded-2xl p-3 text-xs">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between gap-2">
+        <span className="text-[10px] uppercase tracking-widest text-white/60">MIDI</span>
+        <span className={`font-mono ${learning ? 'text-purple-300' : 'text-white/40'}`}>
+          {!midiState ? 'off' : learning ? 'learn' : `${midiState.devices.length} in`}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-2">
+          {!midi || !midiState ? (
+            <button onClick={connect} disabled={connecting} className={buttonClass}>
+              {connecting ? 'Connecting...' : 'Connect MIDI'}
+            </button>
+          ) : midiState.devices.length === 0 ? (
+            <p className="text-[10px] text-white/30">No MIDI inputs. Plug one in and it appears here.</p>
+          ) : (
+            <>
+              <div className="flex items-center gap-1">
+                <select value={midiState.deviceId ?? ''} onChange={(e) => midi.selectDevice(e.target.value)} className={`${selectClass} flex-1`}>
+                  {midiState.devices.map(d => <option key={d.id} value={d.id}>{d.key}</option>)}
+                </select>
+                <button
+                  onClick={() => midi.learn(learning?.kind === 'field' ? null : { kind: 'field', field: null })}
+                  className={`${buttonClass} ${learning?.kind === 'field' ? 'bg-purple-500/30 border-purple-500' : ''}`}
+                  title="Click a parameter, then move a knob to bind it"
+                >
+                  Learn
+                </button>
+              </div>
+              {learnHint && <p className="text-[10px] text-purple-300">{learnHint}</p>}
+
+              {midiState.mappings.cc.map((m, i) => (
+                <div key={`${m.field}-${i}`} className="space-y-1 p-1 rounded border border-white/10">
+                  <div className="flex items-center justify-between gap-1">
+                    <span className="text-white/80 truncate">{m.field}</span>
+                    <span className="font-mono text-[10px] text-white/40">{describeCc(m)}</span>
+                    <button onClick={() => midi.removeCc(i)} className="text-white/30 hover:text-red-400" title="Unbind">✕</button>
+                  </div>
+                  <div className="flex items-center gap-1 text-white/50">
+                    {rangeInput(m.field, m.min, (min) => midi.updateCc(i, { min }))}
+                    <span>→</span>
+                    {rangeInput(m.field, m.max, (max) => midi.updateCc(i, { max }))}
+                    <select value={m.curve} onChange={(e) => midi.updateCc(i, { curve: e.target.value as EasingName })} className={`${selectClass} flex-1`} title="Curve">
+                      {(Object.keys(EASINGS) as EasingName[]).map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                  </div>
+                </div>
+              ))}
+
+              <div className="flex items-center gap-1">
+                <select value={noteChoice} onChange={(e) => setNoteChoice(e.target.value)} className={`${selectClass} flex-1`}>
+                  {Object.entries(NOTE_CHOICES).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                  {presets.map((p, i) => <option key={`${i}-${p.name}`} value={`preset:${p.name}`}>{p.name}</option>)}
+                </select>
+                <button
+                  onClick={() => midi.learn(learning?.kind === 'note' ? null : { kind: 'note', action: noteAction() })}
+                  className={`${buttonClass} ${learning?.kind === 'note' ? 'bg-purple-500/30 border-purple-500' : ''}`}
+                  title="Bind the next note played to this action"
+                >
+                  Learn note
+                </button>
+              </div>
+              {midiState.mappings.notes.map((m, i) => (
+                <div key={`${m.channel}-${m.note}`} className="flex items-center justify-between gap-1">
+                  <span className="font-mono text-[10px] text-white/40">{describeNote(m)}</span>
+                  <span className="text-white/70 truncate">{describeAction(m.action)}</span>
+                  <button onClick={() => midi.removeNote(i)} className="text-white/30 hover:text-red-400" title="Unbind">✕</button>
+                </div>
+              ))}
+              <p className="text-[10px] text-white/30">Bindings are saved for each device.</p>
+            </>
+          )}
+          {(error || midiState?.error) && <p className="text-[10px] text-red-400">{error ?? midiState?.error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MidiPanel;
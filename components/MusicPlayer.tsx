@@ -7,7 +7,12 @@ const TRACK = {
   url: "https://archive.org/download/MoonlightSonata_755/Beethoven-MoonlightSonata.mp3"
 };
 
-const MusicPlayer: React.FC = () => {
+interface MusicPlayerProps {
+  // Hands the <audio> element to whoever wants to analyse it (audio-reactive visuals)
+  onAudioElement?: (audio: HTMLAudioElement | null) => void;
+}
+
+const MusicPlayer: React.FC<MusicPlayerProps> = ({ onAudioElement }) => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [volume, setVolume] = useState(0.4);
   const [isMinimized, setIsMinimized] = useState(false);
@@ -16,13 +21,17 @@ const MusicPlayer: React.FC = () => {
 
   useEffect(() => {
     const audio = new Audio();
+    // Without CORS the Web Audio analyser only ever sees silence
+    audio.crossOrigin = "anonymous";
     audio.src = TRACK.url;
     audio.loop = true;
     audio.preload = "auto";
     audio.volume = volume;
     audioRef.current = audio;
+    onAudioElement?.(audio);
 
     return () => {
+      onAudioElement?.(null);
       if (audioRef.current) {
         // If there's an active play promise, we don't need to await it here
         // but we should avoid setting src = "" immediately if we want to be absolutely quiet.
@@ -0,0 +1,140 @@
+import React, { useRef, useState } from 'react';
+import { ArtStyleConfig } from '../types';
+import {
+  DEFAULT_EXTRACTED_COLORS,
+  extractPalette,
+  MAX_EXTRACTED_COLORS,
+  MIN_EXTRACTED_COLORS,
+  readImagePixels
+} from '../services/paletteExtraction';
+import { deriveLocalStyle } from '../services/localStyleProvider';
+import { validateStyle } from '../services/styleValidation';
+import { StyleTransition } from '../services/styleTransition';
+import { InputSource } from '../services/inputSources';
+
+interface PalettePanelProps {
+  currentStyle: ArtStyleConfig;
+  onStyleChange: (style: ArtStyleConfig, transition?: StyleTransition) => void;
+  transition: StyleTransition;
+  // The live input, for "From frame"
+  source: InputSource;
+}
+
+const SIZES = Array.from({ length: MAX_EXTRACTED_COLORS - MIN_EXTRACTED_COLORS + 1 }, (_, i) => MIN_EXTRACTED_COLORS + i);
+
+const buttonClass = "px-3 py-2 rounded-lg border border-white/10 text-xs font-bold hover:bg-white/10 disabled:opacity-40 transition-colors";
+
+const PalettePanel: React.FC<PalettePanelProps> = ({ currentStyle, onStyleChange, transition, source }) => {
+  const [size, setSize] = useState(DEFAULT_EXTRACTED_COLORS);
+  // Pixels of the last image sampled, so changing the size re-runs without sampling again
+  const [sampled, setSampled] = useState<{ label: string; pixels: Uint8ClampedArray } | null>(null);
+  const [palette, setPalette] = useState<string[]>([]);
+  const [locked, setLocked] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const extract = (pixels: Uint8ClampedArray, label: string, nextSize = size) => {
+    try {
+      setPalette(extractPalette(pixels, { size: nextSize, locked }));
+      setSampled({ label, pixels });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const fromFrame = () => {
+    try {
+      extract(readImagePixels(source.element), source.label);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const fromFile = async (file: File) => {
+    try {
+      const image = await createImageBitmap(file);
+      const pixels = readImagePixels(image);
+      image.close();
+      extract(pixels, file.name.replace(/\.[^.]+$/, ''));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read that image');
+    }
+  };
+
+  const changeSize = (next: number) => {
+    setSize(next);
+    if (sampled) extract(sampled.pixels, sampled.label, next);
+  };
+
+  const toggleLock = (color: string) =>
+    setLocked(locked.includes(color) ? locked.filter(c => c !== color) : [...locked, color]);
+
+  // A fresh style around the palette; the label seeds the rest the same way a prompt would
+  const seedStyle = () => {
+    if (!sampled) return;
+    const { style } = validateStyle({
+      ...deriveLocalStyle(sampled.label),
+      name: `${sampled.label} Palette`,
+      description: `Palette extracted from ${sampled.label}`,
+      colors: palette
+    });
+    onStyleChange(style, transition);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between gap-2">
+        <label className="block text-xs text-white/40 uppercase tracking-wider">Palette</label>
+        <select
+          value={size}
+          onChange={(e) => changeSize(parseInt(e.target.value))}
+          className="bg-white/5 border border-white/10 rounded px-1 py-0.5 text-[10px] text-white/70 focus:outline-none"
+          title="Number of colours"
+        >
+          {SIZES.map(n => <option key={n} value={n} className="bg-black">{n} colours</option>)}
+        </select>
+      </div>
+      <div className="flex gap-2 flex-wrap">
+        <button onClick={fromFrame} className={buttonClass}>From frame</button>
+        <button onClick={() => fileRef.current?.click()} className={buttonClass}>From image...</button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) fromFile(file);
+          }}
+        />
+      </div>
+      {palette.length > 0 && (
+        <>
+          <div className="flex gap-1" title="Click a colour to keep it when re-extracting">
+            {palette.map((c, i) => (
+              <button
+                key={`${c}-${i}`}
+                onClick={() => toggleLock(c)}
+                className={`w-6 h-6 rounded border text-[9px] leading-none ${locked.includes(c) ? 'border-white' : 'border-white/20'}`}
+                style={{ backgroundColor: c }}
+              >
+                {locked.includes(c) ? '🔒' : ''}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={() => onStyleChange({ ...currentStyle, colors: palette }, transition)} className={buttonClass}>
+              Apply to style
+            </button>
+            <button onClick={seedStyle} className={buttonClass}>New style</button>
+          </div>
+        </>
+      )}
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default PalettePanel;
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import {
+  DEFAULT_QUALITY_SETTINGS,
+  PerformanceControl,
+  PerformanceStats,
+  QUALITY_LEVELS,
+  QualitySettings,
+  TARGET_FPS_OPTIONS
+} from '../services/qualityGovernor';
+
+interface PerformancePanelProps {
+  performanceRef: React.RefObject<PerformanceControl | null>;
+}
+
+const POLL_MS = 500;
+
+const selectClass = "bg-black/60 border border-white/10 rounded px-1 py-0.5 text-white/80";
+
+const PerformancePanel: React.FC<PerformancePanelProps> = ({ performanceRef }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [stats, setStats] = useState<PerformanceStats | null>(null);
+  const [settings, setSettings] = useState<QualitySettings>(DEFAULT_QUALITY_SETTINGS);
+
+  useEffect(() => {
+    const timer = setInterval(() => setStats(performanceRef.current?.getStats() ?? null), POLL_MS);
+    return () => clearInterval(timer);
+  }, [performanceRef]);
+
+  useEffect(() => { performanceRef.current?.setSettings(settings); }, [settings, performanceRef]);
+
+  const fpsClass = !stats ? 'text-white/40'
+    : stats.fps >= settings.targetFps * 0.9 ? 'text-emerald-300'
+    : stats.fps >= settings.targetFps * 0.6 ? 'text-amber-300'
+    : 'text-red-400';
+
+  const row = (label: string, value: string) => (
+    <div className="flex justify-between text-white/50">
+      <span>{label}</span>
+      <span className="font-mono text-white/80">{value}</span>
+    </div>
+  );
+
+  return (
+    <div className="glass-panel rounded-2xl p-3 text-xs">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between gap-2">
+        <span className="text-[10px] uppercase tracking-widest text-white/60">Performance</span>
+        <span className={`font-mono ${fpsClass}`}>{stats ? `${stats.fps.toFixed(0)} fps` : '—'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-2">
+          {stats && (
+            <div className="space-y-0.5">
+              {row('Frame', `${stats.frameMs.toFixed(1)} ms`)}
+              {row('Simulate', `${stats.simMs.toFixed(1)} ms`)}
+              {row('Draw', `${stats.drawMs.toFixed(1)} ms`)}
+              {row('Particles', `${stats.visible} / ${stats.particles}`)}
+              {row('Sample scale', stats.sampleScale.toFixed(2))}
+              {row('Quality', `${QUALITY_LEVELS.length - stats.qualityLevel} / ${QUALITY_LEVELS.length}`)}
+            </div>
+          )}
+          <label className="flex items-center justify-between gap-2 text-white/50">
+            <span className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={settings.governor}
+                onChange={(e) => setSettings({ ...settings, governor: e.target.checked })}
+              />
+              Auto quality
+            </span>
+            <select
+              value={settings.targetFps}
+              disabled={!settings.governor}
+              onChange={(e) => setSettings({ ...settings, targetFps: parseInt(e.target.value) })}
+              className={selectClass}
+            >
+              {TARGET_FPS_OPTIONS.map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+            </select>
+          </label>
+          <p className="text-[10px] text-white/30">Thins the grid, samples the input more coarsely and drops connection lines to hold the target.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PerformancePanel;
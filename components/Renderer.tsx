@@ -1,28 +1,116 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { ArtStyleConfig, MouseState, Particle, ParticleShape } from '../types';
+import { ArtStyleConfig, ForceSource, PointerState, StyleOffsets } from '../types';
+import { createSimulationClient, SimulationClient } from '../services/simulationClient';
+import { CaptureTarget } from '../services/capture';
+import { StyleTransition } from '../services/styleTransition';
+import { InputSource } from '../services/inputSources';
+import { BackgroundControl } from '../services/backgroundMask';
+import { PerformanceControl } from '../services/qualityGovernor';
+import { pointerForce } from '../services/particleEngine';
+import {
+  createGestureTracker,
+  DEFAULT_GESTURE_BINDINGS,
+  GestureBindings,
+  HandInput,
+  handForce,
+  handPresetStep
+} from '../services/gestures';
 
 declare global {
   interface Window {
     Hands: any;
-    Camera: any;
   }
 }
 
+const POINTER_REST_MS = 60;
+const FRAME_MS = 1000 / 60;
+
+interface TrackedPointer extends PointerState {
+  lastMove: number; // event timestamp of the last move
+}
+
 interface RendererProps {
   styleConfig: ArtStyleConfig;
-  videoRef: React.RefObject<HTMLVideoElement | null>;
+  // How to get from the previous style to styleConfig; instant when omitted
+  transition?: StyleTransition;
+  // What gets sampled (and hand-tracked, if the source has people in it)
+  source: InputSource;
   isPaused: boolean;
+  // Live modulation written by the audio panel every frame
+  styleOffsetsRef?: React.RefObject<StyleOffsets>;
+  // Filled while mounted so the capture controls can record and snapshot the canvas
+  captureRef?: React.MutableRefObject<CaptureTarget | null>;
+  // Filled while mounted so the background panel can capture a plate and tune the mask
+  backgroundRef?: React.MutableRefObject<BackgroundControl | null>;
+  // Filled while mounted so the performance panel can read stats and steer the quality governor
+  performanceRef?: React.MutableRefObject<PerformanceControl | null>;
+  // What each recognised hand gesture does
+  gestureBindings?: GestureBindings;
+  // Called when a gesture asks for the next (+1) or previous (-1) preset
+  onPresetStep?: (delta: number) => void;
+  // Image the SPRITE shape stamps
+  sprite?: ImageBitmap | null;
 }
 
-const Renderer: React.FC<RendererProps> = ({ styleConfig, videoRef, isPaused }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const particlesRef = useRef<Particle[]>([]);
+const Renderer: React.FC<RendererProps> = ({
+  styleConfig, transition, source, isPaused, styleOffsetsRef, captureRef, backgroundRef, performanceRef,
+  gestureBindings = DEFAULT_GESTURE_BINDINGS, onPresetStep, sprite = null
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const simulationRef = useRef<SimulationClient | null>(null);
   const animationFrameRef = useRef<number>(0);
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
+  const dimensionsRef = useRef(dimensions);
+  const styleRef = useRef(styleConfig);
   const handTrackerRef = useRef<any>(null);
-  const cameraRef = useRef<any>(null);
-  const mouseRef = useRef<MouseState>({ x: 0, y: 0, isActive: false });
-  const [isHandDetected, setIsHandDetected] = useState(false);
+  const handBusyRef = useRef(false);
+  // Every mouse, pen and finger currently over the canvas, by pointerId
+  const pointersRef = useRef(new Map<number, TrackedPointer>());
+  const handForcesRef = useRef<ForceSource[]>([]);
+  // Poses of the tracked hands, for the HUD; empty when no hand is in view
+  const [handPoses, setHandPoses] = useState<string[]>([]);
+  const isHandDetected = handPoses.length > 0;
+  const bindingsRef = useRef(gestureBindings);
+  const presetStepRef = useRef(onPresetStep);
+  const transitionRef = useRef(transition);
+  bindingsRef.current = gestureBindings;
+  presetStepRef.current = onPresetStep;
+  transitionRef.current = transition;
+  const spriteRef = useRef(sprite);
+
+  // Pointer and hand state live on the main thread; the simulation only gets copies.
+  // Hands take over from the pointers while any are in view.
+  const currentForces = (): ForceSource[] => {
+    if (handForcesRef.current.length > 0) return handForcesRef.current;
+    return Array.from(pointersRef.current.values(), pointerForce);
+  };
+
+  const syncForces = () => simulationRef.current?.setForces(currentForces());
+
+  // When mirrored (as for the hands), internal x runs right-to-left across the screen
+  const trackPointer = (e: React.PointerEvent) => {
+    if (isHandDetected) return;
+    const x = source.mirrored ? dimensions.width - e.clientX : e.clientX;
+    const y = e.clientY;
+    const prev = pointersRef.current.get(e.pointerId);
+    // Velocity in px per 60fps frame, for styles that paint with the pointer's motion
+    const frames = prev ? Math.max(1, (e.timeStamp - prev.lastMove) / FRAME_MS) : 1;
+    pointersRef.current.set(e.pointerId, {
+      id: e.pointerId,
+      x,
+      y,
+      vx: prev ? (x - prev.x) / frames : 0,
+      vy: prev ? (y - prev.y) / frames : 0,
+      pressure: e.pressure,
+      type: e.pointerType === 'pen' || e.pointerType === 'touch' ? e.pointerType : 'mouse',
+      lastMove: e.timeStamp
+    });
+    syncForces();
+  };
+
+  const releasePointer = (e: React.PointerEvent) => {
+    if (pointersRef.current.delete(e.pointerId)) syncForces();
+  };
 
   // Initialize MediaPipe Hands
   useEffect(() => {
@@ -30,9 +118,9 @@ const Renderer: React.FC<RendererProps> = ({ styleConfig, videoRef, isPaused })
     let pollInterval: any;
 
     const setupTracking = async () => {
-      if (!window.Hands || !window.Camera) return;
+      if (!window.Hands) return;
 
-      if (videoRef.current && !handTrackerRef.current) {
+      if (!handTrackerRef.current) {
         clearInterval(pollInterval);
         
         const hands = new window.Hands({
@@ -40,251 +128,206 @@ const Renderer: React.FC<RendererProps> = ({ styleConfig, videoRef, isPaused })
         });
 
         hands.setOptions({
-          maxNumHands: 1,
+          maxNumHands: 2,
           modelComplexity: 1,
           minDetectionConfidence: 0.5,
           minTrackingConfidence: 0.5
         });
 
+        const tracker = createGestureTracker();
         hands.onResults((results: any) => {
-          if (!isMounted || !canvasRef.current) return;
-
-          if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-            const indexTip = results.multiHandLandmarks[0][8]; 
-            const w = canvasRef.current.width;
-            const h = canvasRef.current.height;
-
-            /**
-             * MIRROR COORDINATE MAPPING (Systematic Solution):
-             * Canvas is mirrored (scale-x-[-1]). 
-             * Visual Right = Internal X=0.
-             * Visual Left = Internal X=width.
-             * 
-             * Camera is unmirrored:
-             * Physically moving hand to Right -> Camera sees it on Left (tip.x is small).
-             * Internal X should be small (Right).
-             * Result: Internal X = tip.x * w.
-             */
-            mouseRef.current = {
-              x: indexTip.x * w,
-              y: indexTip.y * h,
-              isActive: true
-            };
-            if (!isHandDetected) setIsHandDetected(true);
-          } else {
-            if (isHandDetected) setIsHandDetected(false);
+          if (!isMounted) return;
+
+          const inputs: HandInput[] = (results.multiHandLandmarks ?? []).map((landmarks: HandInput['landmarks'], i: number) => ({
+            landmarks,
+            handedness: results.multiHandedness?.[i]?.label ?? `hand-${i}`,
+            score: results.multiHandedness?.[i]?.score ?? 1
+          }));
+          const states = tracker.update(inputs, performance.now());
+          const { width: w, height: h } = dimensionsRef.current;
+
+          /**
+           * MIRROR COORDINATE MAPPING (Systematic Solution):
+           * Canvas is mirrored (scale-x-[-1]).
+           * Visual Right = Internal X=0.
+           * Visual Left = Internal X=width.
+           *
+           * Camera is unmirrored:
+           * Physically moving hand to Right -> Camera sees it on Left (tip.x is small).
+           * Internal X should be small (Right).
+           * Result: Internal X = landmark.x * w (see handForce).
+           * Unmirrored sources (files, screens) show the frame as-is, and the same
+           * mapping still lands on the hand.
+           */
+          const forces: ForceSource[] = [];
+          for (const hand of states) {
+            const force = handForce(hand, bindingsRef.current, w, h);
+            if (force) forces.push(force);
+            const step = handPresetStep(hand, bindingsRef.current);
+            if (step !== 0) presetStepRef.current?.(step);
           }
-        });
+          handForcesRef.current = forces;
+          simulationRef.current?.setForces(currentForces());
 
-        handTrackerRef.current = hands;
-
-        const camera = new window.Camera(videoRef.current, {
-          onFrame: async () => {
-            if (videoRef.current && isMounted) {
-              await hands.send({ image: videoRef.current });
-            }
-          },
-          width: 640,
-          height: 480
+          const poses = states.map(hand => hand.pose);
+          setHandPoses(prev => (prev.join() === poses.join() ? prev : poses));
         });
 
-        camera.start();
-        cameraRef.current = camera;
+        // Frames are sent from the animation loop, from whichever source is active
+        handTrackerRef.current = hands;
       }
     };
 
     pollInterval = setInterval(() => {
-      if (window.Hands && window.Camera) setupTracking();
+      if (window.Hands) setupTracking();
     }, 500);
 
     return () => {
       isMounted = false;
       clearInterval(pollInterval);
-      if (cameraRef.current) cameraRef.current.stop();
       if (handTrackerRef.current) handTrackerRef.current.close();
+      handTrackerRef.current = null;
     };
   }, []);
 
-  // Window Resize & Particle Initialization
+  // Simulation & Window Resize. The canvas is created here rather than in JSX because
+  // transferControlToOffscreen can only ever be called once per element.
   useEffect(() => {
-    const handleResize = () => {
-      if (canvasRef.current) {
-        const { innerWidth, innerHeight } = window;
-        canvasRef.current.width = innerWidth;
-        canvasRef.current.height = innerHeight;
-        setDimensions({ width: innerWidth, height: innerHeight });
-        initParticles(innerWidth, innerHeight);
+    const container = containerRef.current;
+    if (!container) return;
+    const canvas = document.createElement('canvas');
+    canvas.className = 'w-full h-full block bg-black';
+    container.appendChild(canvas);
+
+    const { innerWidth, innerHeight } = window;
+    const backgroundLost = new Set<() => void>();
+    const simulation = createSimulationClient(canvas, styleRef.current, innerWidth, innerHeight, {
+      onEvent: (event) => {
+        if (event.type === 'backgroundLost') backgroundLost.forEach(listener => listener());
       }
+    });
+    simulationRef.current = simulation;
+    simulation.setForces(currentForces());
+    if (spriteRef.current) simulation.setSprite(spriteRef.current);
+    if (captureRef) {
+      captureRef.current = {
+        // Read at use: the simulation moves to a new canvas if its worker fails
+        get canvas() { return simulation.canvas; },
+        snapshot: () => simulation.capture('snapshot'),
+        renderStill: (scale) => simulation.capture('still', scale)
+      };
+    }
+    if (backgroundRef) {
+      backgroundRef.current = {
+        capture: simulation.captureBackground,
+        clear: simulation.clearBackground,
+        setSettings: simulation.setMaskSettings,
+        onLost: (listener) => {
+          backgroundLost.add(listener);
+          return () => backgroundLost.delete(listener);
+        }
+      };
+    }
+    if (performanceRef) {
+      performanceRef.current = {
+        getStats: simulation.getStats,
+        setSettings: simulation.setQualitySettings
+      };
+    }
+
+    const handleResize = () => {
+      const { innerWidth, innerHeight } = window;
+      dimensionsRef.current = { width: innerWidth, height: innerHeight };
+      setDimensions(dimensionsRef.current);
+      simulation.resize(innerWidth, innerHeight);
     };
     window.addEventListener('resize', handleResize);
     handleResize();
-    return () => window.removeEventListener('resize', handleResize);
-  }, [styleConfig.density]);
-
-  const initParticles = (width: number, height: number) => {
-    if (width <= 0 || height <= 0) return;
-    particlesRef.current = [];
-    const gap = Math.max(4, styleConfig.density);
-    for (let y = 0; y < height; y += gap) {
-      for (let x = 0; x < width; x += gap) {
-        particlesRef.current.push({
-          x: x, y: y, originX: x, originY: y, vx: 0, vy: 0,
-          size: styleConfig.particleSizeMin, color: '#ffffff', brightness: 0
-        });
-      }
-    }
-  };
-
-  const mapBrightnessToColor = (brightness: number, palette: string[]) => {
-    const index = Math.floor((brightness / 255) * (palette.length - 1));
-    return palette[index] || palette[0];
-  };
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      simulation.dispose();
+      simulationRef.current = null;
+      if (captureRef) captureRef.current = null;
+      if (backgroundRef) backgroundRef.current = null;
+      if (performanceRef) performanceRef.current = null;
+      simulation.canvas.remove();
+    };
+  }, []);
 
-  const drawShape = (ctx: CanvasRenderingContext2D, p: Particle, shape: ParticleShape) => {
-    const { x, y, size } = p;
-    ctx.beginPath();
-    if (shape === ParticleShape.CIRCLE) {
-      ctx.arc(x, y, size, 0, Math.PI * 2);
-      ctx.fill();
-    } else if (shape === ParticleShape.SQUARE) {
-      ctx.fillRect(x - size, y - size, size * 2, size * 2);
-    } else if (shape === ParticleShape.LINE) {
-      const angle = Math.atan2(p.vy, p.vx) || 0;
-      const len = size * 2.5;
-      ctx.moveTo(x - Math.cos(angle) * len, y - Math.sin(angle) * len);
-      ctx.lineTo(x + Math.cos(angle) * len, y + Math.sin(angle) * len);
-      ctx.stroke();
-    } else if (shape === ParticleShape.CROSS) {
-      ctx.moveTo(x - size, y); ctx.lineTo(x + size, y);
-      ctx.moveTo(x, y - size); ctx.lineTo(x, y + size);
-      ctx.stroke();
-    }
-  };
+  // The engine rebuilds its grid itself when density changes; everything else morphs over `transition`
+  useEffect(() => {
+    styleRef.current = styleConfig;
+    simulationRef.current?.setStyle(styleConfig, transitionRef.current);
+  }, [styleConfig]);
 
   useEffect(() => {
-    const canvas = canvasRef.current;
-    const video = videoRef.current;
-    if (!canvas || !video) return;
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
-    if (!ctx) return;
+    spriteRef.current = sprite;
+    simulationRef.current?.setSprite(sprite);
+  }, [sprite]);
 
-    const tempCanvas = document.createElement('canvas');
-    const tempCtx = tempCanvas.getContext('2d');
-    let time = 0;
+  // A plate of one scene is meaningless for the next, and hands seen in the previous
+  // source don't linger once the new one can't see them
+  useEffect(() => {
+    simulationRef.current?.clearBackground();
+    if (source.trackHands) return;
+    handForcesRef.current = [];
+    setHandPoses([]);
+    syncForces();
+  }, [source]);
+
+  // Only frame capture stays on the main thread; sampling, physics and drawing happen in the simulation
+  useEffect(() => {
+    let lastOffsets: StyleOffsets | null = null;
 
     const animate = () => {
-      if (!isPaused && video.readyState >= 2 && tempCtx && dimensions.width > 0 && dimensions.height > 0) {
-        time += 0.02;
-        const sampleScale = 0.15; 
-        const w = Math.floor(dimensions.width * sampleScale);
-        const h = Math.floor(dimensions.height * sampleScale);
-        
-        tempCanvas.width = w; 
-        tempCanvas.height = h;
-        tempCtx.drawImage(video, 0, 0, w, h);
-        
-        const imgData = tempCtx.getImageData(0, 0, w, h);
-        const img = imgData.data;
-
-        // Trail effect
-        ctx.globalCompositeOperation = 'source-over';
-        ctx.fillStyle = `rgba(0, 0, 0, ${styleConfig.trailEffect})`;
-        ctx.fillRect(0, 0, dimensions.width, dimensions.height);
-        
-        ctx.globalCompositeOperation = styleConfig.blendingMode;
-
-        const tx = mouseRef.current.x;
-        const ty = mouseRef.current.y;
-        const active = mouseRef.current.isActive;
-
-        for (let i = 0; i < particlesRef.current.length; i++) {
-          const p = particlesRef.current[i];
-          const px = Math.min(w - 1, Math.max(0, Math.floor(p.originX * sampleScale)));
-          const py = Math.min(h - 1, Math.max(0, Math.floor(p.originY * sampleScale)));
-          const idx = (py * w + px) * 4;
-          
-          const brightness = (img[idx] + img[idx+1] + img[idx+2]) / 3;
-
-          if (brightness < 12) {
-            if (p.size > 0.1) p.size *= 0.85;
-            continue; 
-          }
-
-          p.brightness = brightness;
-          p.color = mapBrightnessToColor(brightness, styleConfig.colors);
-          
-          const targetSize = styleConfig.particleSizeMin + (brightness/255) * (styleConfig.particleSizeMax - styleConfig.particleSizeMin);
-          p.size += (targetSize - p.size) * 0.15;
-
-          const snapForce = 0.12 * styleConfig.speed * (brightness/255 + 0.1);
-          p.vx += (p.originX - p.x) * snapForce;
-          p.vy += (p.originY - p.y) * snapForce;
-
-          // INTERACTION (Unified Mouse & Hand)
-          if (active) {
-            const dx = tx - p.x;
-            const dy = ty - p.y;
-            const d2 = dx*dx + dy*dy;
-            const radius = isHandDetected ? 80000 : 40000; // Hand tracking feels better with larger radius
-            if (d2 < radius) {
-              const dist = Math.sqrt(d2);
-              const force = (1 - dist / Math.sqrt(radius)) * (isHandDetected ? 48 : 35) * styleConfig.speed;
-              p.vx -= (dx / dist) * force;
-              p.vy -= (dy / dist) * force;
-            }
-          }
-
-          // Flow Field
-          if (styleConfig.flowFieldStrength > 0 && px < w - 2 && py < h - 2) {
-            const b_r = (img[idx+4] + img[idx+5] + img[idx+6]) / 3;
-            const b_d = (img[idx + w*4] + img[idx + w*4 + 1] + img[idx + w*4 + 2]) / 3;
-            const n = Math.sin(p.x * 0.005 + time) * Math.cos(p.y * 0.005 + time);
-            p.vx += (brightness - b_d + Math.cos(n * Math.PI) * styleConfig.noiseStrength) * styleConfig.flowFieldStrength * 0.07;
-            p.vy += (b_r - brightness + Math.sin(n * Math.PI) * styleConfig.noiseStrength) * styleConfig.flowFieldStrength * 0.07;
-          }
-
-          p.vx *= styleConfig.friction; 
-          p.vy *= styleConfig.friction;
-          p.x += p.vx; 
-          p.y += p.vy;
-
-          ctx.fillStyle = p.color; 
-          ctx.strokeStyle = p.color;
-          ctx.lineWidth = Math.max(1, p.size / 3);
-          drawShape(ctx, p, styleConfig.shape);
+      const simulation = simulationRef.current;
+      // A resting pointer fires no events, so let its paint velocity lapse here
+      let rested = false;
+      for (const pointer of pointersRef.current.values()) {
+        if ((pointer.vx !== 0 || pointer.vy !== 0) && performance.now() - pointer.lastMove > POINTER_REST_MS) {
+          pointer.vx = 0;
+          pointer.vy = 0;
+          rested = true;
         }
-
-        // DRAW TRACKING DOT (Visual Feedback)
-        if (active) {
-          ctx.globalCompositeOperation = 'lighter';
-          ctx.beginPath();
-          ctx.arc(tx, ty, isHandDetected ? 15 : 5, 0, Math.PI * 2);
-          ctx.fillStyle = isHandDetected ? 'rgba(34, 211, 238, 0.4)' : 'rgba(255, 255, 255, 0.2)';
-          ctx.fill();
+      }
+      if (rested) syncForces();
+      source.update();
+      const ready = source.isReady();
+      if (!isPaused && simulation && ready && dimensions.width > 0 && dimensions.height > 0) {
+        const offsets = styleOffsetsRef?.current;
+        if (offsets && offsets !== lastOffsets) {
+          simulation.setStyleOffsets(offsets);
+          lastOffsets = offsets;
         }
+        simulation.pushFrame(source.element);
+      }
+      // One frame at a time into MediaPipe; frames arriving while it's busy are skipped
+      const hands = handTrackerRef.current;
+      if (hands && ready && source.trackHands && !handBusyRef.current) {
+        handBusyRef.current = true;
+        hands.send({ image: source.element })
+          .catch((err: unknown) => console.error("Hand tracking failed:", err))
+          .finally(() => { handBusyRef.current = false; });
       }
       animationFrameRef.current = requestAnimationFrame(animate);
     };
     animationFrameRef.current = requestAnimationFrame(animate);
     return () => { if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current); };
-  }, [styleConfig, dimensions, isPaused, isHandDetected]);
+  }, [dimensions, isPaused, styleOffsetsRef, source]);
 
   return (
     <>
-      <canvas
-        ref={canvasRef}
-        onMouseMove={(e) => {
-          if (!isHandDetected) {
-            mouseRef.current = { 
-              x: dimensions.width - e.clientX, 
-              y: e.clientY, 
-              isActive: true 
-            };
-          }
-        }}
-        onMouseEnter={() => !isHandDetected && (mouseRef.current.isActive = true)}
-        onMouseLeave={() => !isHandDetected && (mouseRef.current.isActive = false)}
-        className="absolute top-0 left-0 w-full h-full block touch-none scale-x-[-1] bg-black cursor-none"
+      {/* Mice and hovering pens count while over the canvas, fingers only while down.
+          touch-none stops the browser claiming touches for scrolling and zooming. */}
+      <div
+        ref={containerRef}
+        onPointerEnter={(e) => e.pointerType !== 'touch' && trackPointer(e)}
+        onPointerDown={trackPointer}
+        onPointerMove={(e) => (e.pointerType !== 'touch' || pointersRef.current.has(e.pointerId)) && trackPointer(e)}
+        onPointerUp={(e) => (e.pointerType === 'touch' ? releasePointer(e) : trackPointer(e))}
+        onPointerCancel={releasePointer}
+        onPointerLeave={releasePointer}
+        className={`absolute top-0 left-0 w-full h-full touch-none bg-black cursor-none ${source.mirrored ? 'scale-x-[-1]' : ''}`}
       />
       
       {/* HUD for tracking status */}
@@ -293,6 +336,7 @@ const Renderer: React.FC<RendererProps> = ({ styleConfig, videoRef, isPaused })
           <div className="flex items-center gap-3 px-5 py-2 glass-panel rounded-full animate-fade-in border-cyan-400/40">
             <div className="w-2.5 h-2.5 bg-cyan-400 rounded-full shadow-[0_0_12px_#22d3ee] animate-pulse"></div>
             <span className="text-[10px] uppercase tracking-widest font-bold text-cyan-100">AI Sculpting Mode</span>
+            <span className="text-[10px] uppercase tracking-widest text-cyan-100/60">{handPoses.join(' · ')}</span>
           </div>
         )}
       </div>
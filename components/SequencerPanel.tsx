@@ -0,0 +1,211 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArtStyleConfig } from '../types';
+import { Cue, CUE_DURATION_RANGE, CUE_TRANSITION_MAX_MS, createCue, parseCues, playOrder, serializeCues } from '../services/sequencer';
+import { StyleTransition } from '../services/styleTransition';
+import { formatWarnings } from '../services/styleValidation';
+import { downloadBlob } from '../services/capture';
+
+interface SequencerPanelProps {
+  currentStyle: ArtStyleConfig;
+  onStyleChange: (style: ArtStyleConfig, transition?: StyleTransition) => void;
+  presetStyles: ArtStyleConfig[];
+  // Transition given to newly added cues
+  transition: StyleTransition;
+}
+
+// 1-9 then 0 jump straight to the first ten cues; [ and ] step back and forward.
+const CUE_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '0'];
+
+const buttonClass = "px-2 py-1 rounded-md border border-white/10 text-[10px] font-bold hover:bg-white/10 disabled:opacity-40 transition-colors";
+const toggleClass = (on: boolean) => `${buttonClass} ${on ? 'bg-white/10 border-purple-500' : ''}`;
+const numberClass = "w-10 bg-white/5 border border-white/10 rounded px-1 text-[10px] text-white/80 focus:outline-none";
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const SequencerPanel: React.FC<SequencerPanelProps> = ({ currentStyle, onStyleChange, presetStyles, transition }) => {
+  const [cues, setCues] = useState<Cue[]>(() => presetStyles.map(style => createCue(style)));
+  const [current, setCurrent] = useState<number | null>(null);
+  // Bumped on every cue start so re-triggering the same cue restarts its timer
+  const [cueStart, setCueStart] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [loop, setLoop] = useState(true);
+  const [shuffle, setShuffle] = useState(false);
+  const orderRef = useRef<number[]>([]);
+  const positionRef = useRef(0);
+  // When the current cue started, so editing its hold time keeps the time already held
+  const startedAtRef = useRef(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // `list` lets a caller start a cue from a list it's about to set
+  const goTo = (index: number, list = cues) => {
+    const cue = list[index];
+    if (!cue) return;
+    setCurrent(index);
+    setCueStart(n => n + 1);
+    startedAtRef.current = performance.now();
+    const position = orderRef.current.indexOf(index);
+    if (position >= 0) positionRef.current = position;
+    onStyleChange(cue.style, cue.transition);
+  };
+
+  const play = () => {
+    if (cues.length === 0) return;
+    orderRef.current = playOrder(cues.length, shuffle);
+    positionRef.current = 0;
+    setPlaying(true);
+    goTo(shuffle || current === null ? orderRef.current[0] : current);
+  };
+
+  const advance = () => {
+    positionRef.current++;
+    if (positionRef.current >= orderRef.current.length) {
+      if (!loop) {
+        setPlaying(false);
+        return;
+      }
+      orderRef.current = playOrder(cues.length, shuffle);
+      positionRef.current = 0;
+    }
+    goTo(orderRef.current[positionRef.current]);
+  };
+
+  const step = (delta: number) => {
+    if (cues.length === 0) return;
+    goTo(current === null ? 0 : (current + delta + cues.length) % cues.length);
+  };
+
+  // Keep the play order valid when cues are added or removed mid-show
+  useEffect(() => {
+    if (orderRef.current.length === cues.length) return;
+    orderRef.current = playOrder(cues.length, shuffle);
+    positionRef.current = Math.max(0, current === null ? 0 : orderRef.current.indexOf(current));
+    if (current !== null && current >= cues.length) setCurrent(null);
+  }, [cues.length]);
+
+  // The timer outlives renders; it always calls the latest `advance`
+  const advanceRef = useRef(advance);
+  advanceRef.current = advance;
+  const durationMs = current === null ? undefined : cues[current]?.durationMs;
+
+  useEffect(() => {
+    if (!playing || durationMs === undefined) return;
+    const remaining = startedAtRef.current + durationMs - performance.now();
+    const timer = setTimeout(() => advanceRef.current(), Math.max(0, remaining));
+    return () => clearTimeout(timer);
+  }, [playing, current, cueStart, durationMs]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isTyping(e.target) || e.metaKey || e.ctrlKey || e.altKey) return;
+      const slot = CUE_KEYS.indexOf(e.key);
+      if (slot >= 0) goTo(slot);
+      else if (e.key === '[') step(-1);
+      else if (e.key === ']') step(1);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const updateCue = (id: string, patch: Partial<Cue>) => {
+    setCues(prev => prev.map(c => (c.id === id ? { ...c, ...patch } : c)));
+  };
+
+  const removeCue = (index: number) => {
+    const next = cues.filter((_, i) => i !== index);
+    setCues(next);
+    if (current === null || index > current) return;
+    if (index < current) setCurrent(current - 1);
+    // The playing cue is gone: a running show moves on to the cue that took its place
+    else if (playing && next.length > 0) goTo(index % next.length, next);
+    else {
+      setCurrent(null);
+      setPlaying(false);
+    }
+  };
+
+  const saveCues = () => {
+    downloadBlob(new Blob([serializeCues(cues)], { type: 'application/json' }), 'artflow-cues.json');
+  };
+
+  const loadCues = async (file: File) => {
+    try {
+      const { cues: loaded, warnings } = parseCues(await file.text());
+      if (warnings.length > 0) console.warn("Cue list adjusted:", formatWarnings(warnings));
+      setPlaying(false);
+      setCurrent(null);
+      setCues(loaded);
+    } catch (err) {
+      console.error("Cue list load failed:", err);
+      alert("Could not read that cue list.");
+    }
+  };
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center gap-2 mb-2">
+        <label className="block text-xs text-white/40 uppercase tracking-wider mr-auto">Sequencer</label>
+        <button onClick={() => (playing ? setPlaying(false) : play())} disabled={cues.length === 0} className={toggleClass(playing)}>
+          {playing ? '■ Stop' : '▶ Play'}
+        </button>
+        <button onClick={() => setLoop(!loop)} className={toggleClass(loop)}>Loop</button>
+        <button onClick={() => setShuffle(!shuffle)} className={toggleClass(shuffle)}>Shuffle</button>
+        <button onClick={() => setCues(prev => [...prev, createCue(currentStyle, undefined, transition)])} className={buttonClass}>+ Current</button>
+        <button onClick={saveCues} disabled={cues.length === 0} className={buttonClass}>Save</button>
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>Load</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) loadCues(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
+        {cues.map((cue, idx) => (
+          <div
+            key={cue.id}
+            className={`flex-shrink-0 w-[150px] px-2 py-2 rounded-lg border text-[10px] transition-all
+              ${current === idx ? 'bg-white/10 border-purple-500' : 'border-white/10'}`}
+          >
+            <div className="flex items-center gap-1 mb-1">
+              <button onClick={() => goTo(idx)} className="flex-1 min-w-0 text-left font-bold text-xs text-white truncate" title={`Jump to cue (${CUE_KEYS[idx] ?? '[ ]'})`}>
+                {CUE_KEYS[idx] && <span className="text-white/40 mr-1">{CUE_KEYS[idx]}</span>}
+                {cue.style.name}
+              </button>
+              <button onClick={() => removeCue(idx)} className="text-white/30 hover:text-white px-1">×</button>
+            </div>
+            <div className="flex items-center gap-1 text-white/50">
+              <span>Hold</span>
+              <input
+                type="number"
+                min={CUE_DURATION_RANGE.min / 1000} max={CUE_DURATION_RANGE.max / 1000} step="1"
+                value={cue.durationMs / 1000}
+                onChange={(e) => updateCue(cue.id, {
+                  durationMs: Math.min(CUE_DURATION_RANGE.max, Math.max(CUE_DURATION_RANGE.min, (parseFloat(e.target.value) || 0) * 1000))
+                })}
+                className={numberClass}
+              />
+              <span>Morph</span>
+              <input
+                type="number"
+                min="0" max={CUE_TRANSITION_MAX_MS / 1000} step="0.5"
+                value={cue.transition.durationMs / 1000}
+                onChange={(e) => updateCue(cue.id, {
+                  transition: { ...cue.transition, durationMs: Math.min(CUE_TRANSITION_MAX_MS, Math.max(0, (parseFloat(e.target.value) || 0) * 1000)) }
+                })}
+                className={numberClass}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SequencerPanel;
@@ -0,0 +1,381 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArtStyleConfig, ParticleShape } from '../types';
+import {
+  BLENDING_MODES,
+  COLOR_MODES,
+  INTERACTION_FALLOFFS,
+  INTERACTION_MODES,
+  MAX_PALETTE_SIZE,
+  NumericStyleField,
+  SAMPLING_CHANNELS,
+  STYLE_RANGES,
+  validateStyle
+} from '../services/styleValidation';
+import { isEdited, recordEdit, redo, startHistory, StyleHistory, undo } from '../services/styleHistory';
+import { mixOklab } from '../services/color';
+import { loadSprite } from '../services/shapeAssets';
+import { boundFields, LiveEdit, MidiField, MidiState } from '../services/midi';
+
+interface StyleEditorProps {
+  currentStyle: ArtStyleConfig;
+  onStyleChange: (style: ArtStyleConfig) => void;
+  // Image the SPRITE shape stamps
+  sprite: ImageBitmap | null;
+  onSpriteChange: (sprite: ImageBitmap | null) => void;
+  midiLearn: MidiLearn | null;
+  // Filled while mounted so live controls (MIDI knobs) edit through this editor's history
+  liveEditRef?: React.MutableRefObject<LiveEdit | null>;
+}
+
+// While MIDI learn is on, clicking a parameter picks it for the next knob moved
+export interface MidiLearn {
+  state: MidiState;
+  onPick: (field: MidiField) => void;
+}
+
+const SHAPES = Object.values(ParticleShape);
+
+const STEPS: Record<NumericStyleField, number> = {
+  particleSizeMin: 0.5,
+  particleSizeMax: 1,
+  density: 1,
+  speed: 0.1,
+  friction: 0.01,
+  connectionDistance: 5,
+  trailEffect: 0.01,
+  noiseStrength: 0.1,
+  flowFieldStrength: 0.1,
+  interactionRadius: 10,
+  interactionStrength: 1,
+  motionStrength: 0.1,
+  fluidCoupling: 0.05,
+  fluidViscosity: 0.05,
+  fluidVorticity: 0.1
+};
+
+const sliderClass = "w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full";
+const selectClass = "w-full bg-white/5 border border-white/10 rounded px-2 py-1 text-xs text-white focus:outline-none";
+const inputClass = "w-full bg-white/5 border border-white/10 rounded px-2 py-1 text-xs text-white focus:outline-none";
+const toolClass = "px-2 py-1 rounded border border-white/10 text-[10px] text-white/70 hover:bg-white/10 disabled:opacity-30 transition-colors";
+const sectionClass = "grid grid-cols-2 md:grid-cols-4 gap-4 md:gap-x-8";
+
+// App re-validates every style it receives, so edits come back as new objects; compare by value
+const styleKey = (style: ArtStyleConfig) => JSON.stringify(validateStyle(style).style);
+
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLTextAreaElement || (target instanceof HTMLInputElement && target.type === 'text');
+
+const StyleEditor: React.FC<StyleEditorProps> = ({ currentStyle, onStyleChange, sprite, onSpriteChange, midiLearn, liveEditRef }) => {
+  const [history, setHistory] = useState<StyleHistory>(() => startHistory(currentStyle));
+  // Showing the original (A) instead of the edited style (B)
+  const [comparing, setComparing] = useState(false);
+  const emittedKeyRef = useRef(styleKey(currentStyle));
+  const historyRef = useRef(history);
+  historyRef.current = history;
+
+  // A style arriving from elsewhere (preset, generator, sequencer) starts a new editing session
+  useEffect(() => {
+    const key = styleKey(currentStyle);
+    if (key === emittedKeyRef.current) return;
+    emittedKeyRef.current = key;
+    setHistory(startHistory(currentStyle));
+    setComparing(false);
+  }, [currentStyle]);
+
+  const emit = (style: ArtStyleConfig) => {
+    emittedKeyRef.current = styleKey(style);
+    onStyleChange(style);
+  };
+
+  const style = history.present;
+
+  // `key` groups changes into undo steps: a drag on one control is one step
+  const edit = (patch: Partial<ArtStyleConfig>, key: string) => {
+    const next = { ...historyRef.current.present, ...patch };
+    setHistory(recordEdit(historyRef.current, next, key, performance.now()));
+    emit(next);
+  };
+
+  const step = (move: (h: StyleHistory) => StyleHistory) => {
+    const next = move(historyRef.current);
+    if (next === historyRef.current) return;
+    setHistory(next);
+    emit(next.present);
+  };
+
+  // A knob turned while comparing edits B, so it shows the edit instead of the original
+  useEffect(() => {
+    if (!liveEditRef) return;
+    liveEditRef.current = (apply, key) => {
+      const next = apply(historyRef.current.present);
+      setHistory(recordEdit(historyRef.current, next, key, performance.now()));
+      setComparing(false);
+      emit(next);
+    };
+    return () => { liveEditRef.current = null; };
+  });
+
+  const toggleCompare = () => {
+    emit(comparing ? history.present : history.original);
+    setComparing(!comparing);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextInput(e.target) || comparing) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) step(undo);
+      else if ((key === 'z' && e.shiftKey) || key === 'y') step(redo);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Size min and max push each other along rather than cross
+  const editNumber = (field: NumericStyleField, value: number) => {
+    if (field === 'particleSizeMin') edit({ particleSizeMin: value, particleSizeMax: Math.max(value, style.particleSizeMax) }, field);
+    else if (field === 'particleSizeMax') edit({ particleSizeMax: value, particleSizeMin: Math.min(value, style.particleSizeMin) }, field);
+    else edit({ [field]: value }, field);
+  };
+
+  const bound = midiLearn ? boundFields(midiLearn.state.mappings) : {};
+  const learning = midiLearn?.state.learning?.kind === 'field' ? midiLearn.state.learning : null;
+
+  // Covers the control while learning, so a click picks the field instead of changing it
+  const learnOverlay = (field: MidiField) => learning && (
+    <button
+      onClick={() => midiLearn?.onPick(field)}
+      className={`absolute -inset-1 rounded border-2 transition-colors ${learning.field === field
+        ? 'border-purple-400 bg-purple-500/20'
+        : 'border-dashed border-purple-400/40 hover:bg-purple-500/10'}`}
+      title="Bind to the next knob moved"
+    />
+  );
+
+  const midiBadge = (field: MidiField) =>
+    bound[field] && <span className="ml-1 font-mono text-[9px] text-purple-300/80">{bound[field]}</span>;
+
+  const slider = (label: string, field: NumericStyleField) => {
+    const { min, max } = STYLE_RANGES[field];
+    const stepSize = STEPS[field];
+    const digits = stepSize >= 1 ? 0 : stepSize >= 0.1 ? 1 : 2;
+    return (
+      <div className="relative space-y-2">
+        <div className="flex justify-between text-xs text-white/60">
+          <span>{label}{midiBadge(field)}</span>
+          <span>{style[field].toFixed(digits)}</span>
+        </div>
+        <input
+          type="range"
+          min={min} max={max} step={stepSize}
+          value={style[field]}
+          onChange={(e) => editNumber(field, parseFloat(e.target.value))}
+          className={sliderClass}
+        />
+        {learnOverlay(field)}
+      </div>
+    );
+  };
+
+  const select = <K extends keyof ArtStyleConfig & MidiField>(label: string, field: K, options: readonly ArtStyleConfig[K][]) => (
+    <div className="relative space-y-2">
+      <div className="text-xs text-white/60">{label}{midiBadge(field)}</div>
+      <select
+        value={String(style[field])}
+        onChange={(e) => edit({ [field]: e.target.value } as Partial<ArtStyleConfig>, field)}
+        className={selectClass}
+      >
+        {options.map(option => <option key={String(option)} value={String(option)} className="bg-black">{String(option)}</option>)}
+      </select>
+      {learnOverlay(field)}
+    </div>
+  );
+
+  const setColors = (colors: string[], key: string) => edit({ colors }, key);
+  const moveColor = (from: number, to: number) => {
+    if (to < 0 || to >= style.colors.length) return;
+    const colors = [...style.colors];
+    [colors[from], colors[to]] = [colors[to], colors[from]];
+    setColors(colors, 'colors-order');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <label className="block text-xs text-white/40 uppercase tracking-wider">Style Editor</label>
+        <div className="flex items-center gap-1">
+          <button onClick={() => step(undo)} disabled={comparing || history.past.length === 0} className={toolClass} title="Undo (Ctrl+Z)">↶ Undo</button>
+          <button onClick={() => step(redo)} disabled={comparing || history.future.length === 0} className={toolClass} title="Redo (Ctrl+Shift+Z)">↷ Redo</button>
+          <button
+            onClick={toggleCompare}
+            disabled={!isEdited(history)}
+            className={`${toolClass} ${comparing ? 'bg-purple-500/30 border-purple-500 text-white' : ''}`}
+            title="Switch between the style as it was before editing (A) and your edits (B)"
+          >
+            {comparing ? 'A: original' : 'B: edited'}
+          </button>
+          <button
+            onClick={() => edit(history.original, 'reset')}
+            disabled={comparing || !isEdited(history)}
+            className={toolClass}
+            title="Back to the style as it was before editing (undoable)"
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+
+      <fieldset disabled={comparing} className={`space-y-4 ${comparing ? 'opacity-50' : ''}`}>
+        {/* Identity */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-x-8">
+          <div className="space-y-2">
+            <div className="text-xs text-white/60">Name</div>
+            <input type="text" value={style.name} onChange={(e) => edit({ name: e.target.value }, 'name')} className={inputClass} />
+          </div>
+          <div className="space-y-2">
+            <div className="text-xs text-white/60">Description</div>
+            <input type="text" value={style.description} onChange={(e) => edit({ description: e.target.value }, 'description')} className={inputClass} />
+          </div>
+        </div>
+
+        {/* Palette: stops from dark (low brightness) to bright */}
+        <div className="space-y-2">
+          <div className="flex justify-between text-xs text-white/60">
+            <span>Palette</span>
+            <span>{style.colors.length} / {MAX_PALETTE_SIZE}</span>
+          </div>
+          <div className="h-2 rounded" style={{ background: style.colors.length > 1 ? `linear-gradient(to right, ${style.colors.join(', ')})` : style.colors[0] }} />
+          <div className="flex flex-wrap gap-2">
+            {style.colors.map((c, i) => (
+              <div key={i} className="flex flex-col items-center gap-0.5">
+                <input
+                  type="color"
+                  value={c}
+                  onChange={(e) => setColors(style.colors.map((old, j) => (j === i ? e.target.value : old)), `colors-${i}`)}
+                  className="w-8 h-8 bg-transparent border border-white/20 rounded cursor-pointer"
+                />
+                <div className="flex text-[10px] text-white/50">
+                  <button onClick={() => moveColor(i, i - 1)} disabled={i === 0} className="px-0.5 hover:text-white disabled:opacity-20" title="Move darker">‹</button>
+                  <button
+                    onClick={() => setColors(style.colors.filter((_, j) => j !== i), 'colors-remove')}
+                    disabled={style.colors.length <= 1}
+                    className="px-0.5 hover:text-red-300 disabled:opacity-20"
+                    title="Remove"
+                  >
+                    ×
+                  </button>
+                  <button onClick={() => moveColor(i, i + 1)} disabled={i === style.colors.length - 1} className="px-0.5 hover:text-white disabled:opacity-20" title="Move brighter">›</button>
+                </div>
+              </div>
+            ))}
+            {style.colors.length < MAX_PALETTE_SIZE && (
+              <button
+                onClick={() => setColors([...style.colors, mixOklab(style.colors[style.colors.length - 1], '#ffffff', 0.5)], 'colors-add')}
+                className="w-8 h-8 rounded border border-dashed border-white/30 text-white/50 hover:bg-white/10"
+                title="Add a brighter stop"
+              >
+                +
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Particles */}
+        <div className={sectionClass}>
+          {select('Shape', 'shape', SHAPES)}
+          {select('Blending', 'blendingMode', BLENDING_MODES)}
+          {slider('Min Size', 'particleSizeMin')}
+          {slider('Max Size', 'particleSizeMax')}
+          {slider('Density', 'density')}
+          {slider('Connections', 'connectionDistance')}
+          {slider('Trail Fade', 'trailEffect')}
+        </div>
+
+        {/* Movement */}
+        <div className={sectionClass}>
+          {slider('Speed', 'speed')}
+          {slider('Friction', 'friction')}
+          {slider('Noise', 'noiseStrength')}
+          {slider('Flow Field', 'flowFieldStrength')}
+          {slider('Motion', 'motionStrength')}
+        </div>
+
+        {/* Touch: how the pointer and hands move the particles */}
+        <div className={sectionClass}>
+          {select('Touch', 'interactionMode', INTERACTION_MODES)}
+          {slider('Radius', 'interactionRadius')}
+          {slider('Strength', 'interactionStrength')}
+          {select('Falloff', 'interactionFalloff', INTERACTION_FALLOFFS)}
+        </div>
+
+        {/* Fluid: a coarse stable-fluids grid stirred by hands, pointers and motion; coupling 0 turns it off */}
+        <div className={sectionClass}>
+          {slider('Fluid', 'fluidCoupling')}
+          {slider('Viscosity', 'fluidViscosity')}
+          {slider('Vorticity', 'fluidVorticity')}
+        </div>
+
+        {/* Look: what each pixel is measured by, and where particle colour comes from */}
+        <div className={sectionClass}>
+          {select('Sample', 'samplingChannel', SAMPLING_CHANNELS)}
+          {select('Colour', 'colorMode', COLOR_MODES)}
+
+          {style.shape === ParticleShape.GLYPH && (
+            <div className="space-y-2">
+              <div className="text-xs text-white/60">Glyphs</div>
+              <input
+                type="text"
+                value={style.glyphRamp}
+                onChange={(e) => e.target.value && edit({ glyphRamp: e.target.value }, 'glyphRamp')}
+                title="Characters from sparse (dark) to dense (bright)"
+                className={`${inputClass} font-mono`}
+              />
+              <input
+                type="text"
+                value={style.glyphFont}
+                onChange={(e) => e.target.value.trim() && edit({ glyphFont: e.target.value }, 'glyphFont')}
+                title="CSS font family"
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          {style.shape === ParticleShape.SPRITE && (
+            <div className="space-y-2">
+              <div className="text-xs text-white/60">Sprite</div>
+              <div className="flex gap-1">
+                <label className="flex-1 text-center px-2 py-1 rounded border border-white/10 text-xs text-white/80 cursor-pointer hover:bg-white/5">
+                  {sprite ? 'Replace' : 'Upload'}
+                  <input
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = '';
+                      if (!file) return;
+                      loadSprite(file).then(onSpriteChange).catch(err => {
+                        console.error("Sprite failed to load:", err);
+                        alert("Could not read that image.");
+                      });
+                    }}
+                  />
+                </label>
+                {sprite && (
+                  <button onClick={() => onSpriteChange(null)} className="px-2 py-1 rounded border border-white/10 text-xs text-white/60 hover:bg-white/5">
+                    Clear
+                  </button>
+                )}
+              </div>
+              {!sprite && <p className="text-[10px] text-white/30">Circles until an image is uploaded.</p>}
+            </div>
+          )}
+        </div>
+      </fieldset>
+    </div>
+  );
+};
+
+export default StyleEditor;
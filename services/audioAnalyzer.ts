@@ -0,0 +1,138 @@
+/**
+ * Web Audio analysis for audio-reactive visuals. Listens either to the MusicPlayer's
+ * <audio> element or to the microphone and reduces each frame to a few band energies,
+ * RMS loudness and onset (beat) detection.
+ */
+
+export interface AudioFeatures {
+  bass: number;   // 20-250 Hz, 0-1
+  mid: number;    // 250-4000 Hz, 0-1
+  treble: number; // 4-16 kHz, 0-1
+  rms: number;    // time-domain loudness, 0-1
+  beat: boolean;  // true on the frame an onset is detected
+}
+
+export type AudioInput = 'off' | 'player' | 'mic';
+
+export interface AudioAnalyzer {
+  readonly input: AudioInput;
+  useElement: (element: HTMLMediaElement) => Promise<void>;
+  useMicrophone: () => Promise<void>;
+  stop: () => void;
+  read: (timeMs: number) => AudioFeatures;
+}
+
+export const SILENT_FEATURES: AudioFeatures = { bass: 0, mid: 0, treble: 0, rms: 0, beat: false };
+
+const FLUX_HISTORY = 43; // ~0.7s at 60fps
+const ONSET_SENSITIVITY = 1.5;
+const ONSET_MIN_FLUX = 0.01;
+const ONSET_REFRACTORY_MS = 120;
+
+// A media element can only ever be wrapped by one MediaElementAudioSourceNode, in one context, for
+// its whole lifetime — so an analyzer is meant to be created once and stopped, never closed.
+export const createAudioAnalyzer = (): AudioAnalyzer => {
+  const context = new AudioContext();
+  const elementSources = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  analyser.smoothingTimeConstant = 0.6;
+
+  const spectrum = new Uint8Array(analyser.frequencyBinCount);
+  const previous = new Float32Array(analyser.frequencyBinCount);
+  const waveform = new Uint8Array(analyser.fftSize);
+  const fluxHistory: number[] = [];
+
+  let input: AudioInput = 'off';
+  let current: AudioNode | null = null;
+  let micStream: MediaStream | null = null;
+  let lastOnset = -Infinity;
+
+  const detach = () => {
+    if (current) current.disconnect(analyser);
+    current = null;
+    if (micStream) micStream.getTracks().forEach(track => track.stop());
+    micStream = null;
+    input = 'off';
+  };
+
+  const useElement = async (element: HTMLMediaElement) => {
+    await context.resume();
+    detach();
+    let source = elementSources.get(element);
+    if (!source) {
+      source = context.createMediaElementSource(element);
+      // Once wrapped, the element is only audible through the graph
+      source.connect(context.destination);
+      elementSources.set(element, source);
+    }
+    source.connect(analyser);
+    current = source;
+    input = 'player';
+  };
+
+  const useMicrophone = async () => {
+    await context.resume();
+    detach();
+    micStream = await navigator.mediaDevices.getUserMedia({ audio: true, video: false });
+    // Not connected to the destination: that would feed the mic back into the speakers
+    const source = context.createMediaStreamSource(micStream);
+    source.connect(analyser);
+    current = source;
+    input = 'mic';
+  };
+
+  const bandEnergy = (fromHz: number, toHz: number) => {
+    const binHz = context.sampleRate / analyser.fftSize;
+    const from = Math.max(0, Math.floor(fromHz / binHz));
+    const to = Math.min(spectrum.length - 1, Math.ceil(toHz / binHz));
+    let sum = 0;
+    for (let i = from; i <= to; i++) sum += spectrum[i];
+    return sum / ((to - from + 1) * 255);
+  };
+
+  const read = (timeMs: number): AudioFeatures => {
+    if (input === 'off') return SILENT_FEATURES;
+    analyser.getByteFrequencyData(spectrum);
+    analyser.getByteTimeDomainData(waveform);
+
+    let sumSq = 0;
+    for (let i = 0; i < waveform.length; i++) {
+      const v = (waveform[i] - 128) / 128;
+      sumSq += v * v;
+    }
+
+    // Spectral flux: how much energy appeared since the last frame
+    let flux = 0;
+    for (let i = 0; i < spectrum.length; i++) {
+      const v = spectrum[i] / 255;
+      const diff = v - previous[i];
+      if (diff > 0) flux += diff;
+      previous[i] = v;
+    }
+    flux /= spectrum.length;
+
+    const mean = fluxHistory.length ? fluxHistory.reduce((a, b) => a + b, 0) / fluxHistory.length : 0;
+    fluxHistory.push(flux);
+    if (fluxHistory.length > FLUX_HISTORY) fluxHistory.shift();
+
+    const beat = flux > ONSET_MIN_FLUX && flux > mean * ONSET_SENSITIVITY && timeMs - lastOnset > ONSET_REFRACTORY_MS;
+    if (beat) lastOnset = timeMs;
+
+    return {
+      bass: bandEnergy(20, 250),
+      mid: bandEnergy(250, 4000),
+      treble: bandEnergy(4000, 16000),
+      rms: Math.min(1, Math.sqrt(sumSq / waveform.length) * 2),
+      beat
+    };
+  };
+
+  return {
+    get input() { return input; },
+    useElement,
+    useMicrophone,
+    stop: detach,
+    read
+  };
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { applyStyleOffsets } from './audioModulation';
+import { STYLE_RANGES, validateStyle } from './styleValidation';
+
+const style = validateStyle({ name: 'Test', colors: ['#000000'], particleSizeMin: 4, particleSizeMax: 6, speed: 1 }).style;
+
+describe('applyStyleOffsets', () => {
+  it('adds offsets on top of the style', () => {
+    expect(applyStyleOffsets(style, {})).toBe(style);
+    expect(applyStyleOffsets(style, { speed: 0.5 }).speed).toBe(1.5);
+  });
+
+  it('keeps modulated fields within their ranges', () => {
+    expect(applyStyleOffsets(style, { speed: -3 }).speed).toBe(STYLE_RANGES.speed.min);
+    expect(applyStyleOffsets(style, { speed: 10 }).speed).toBe(STYLE_RANGES.speed.max);
+    expect(applyStyleOffsets(style, { connectionDistance: 500 }).connectionDistance).toBe(STYLE_RANGES.connectionDistance.max);
+  });
+
+  it('never takes the max size below the min', () => {
+    expect(applyStyleOffsets(style, { particleSizeMax: -15 }).particleSizeMax).toBe(4);
+  });
+});
@@ -0,0 +1,68 @@
+import { ArtStyleConfig, ModulatableField, StyleOffsets } from '../types';
+import { AudioFeatures } from './audioAnalyzer';
+import { STYLE_RANGES } from './styleValidation';
+
+/**
+ * Maps audio features onto style fields. Each mapping runs its feature through an
+ * attack/release envelope and adds `amount * span` of the target field on top of the style.
+ */
+
+export type AudioFeatureName = 'bass' | 'mid' | 'treble' | 'rms' | 'beat';
+
+export interface AudioMapping {
+  id: string;
+  feature: AudioFeatureName;
+  field: ModulatableField;
+  amount: number;   // -1 to 1, fraction of the field's span
+  attackMs: number;
+  releaseMs: number;
+}
+
+export const AUDIO_FEATURES: AudioFeatureName[] = ['bass', 'mid', 'treble', 'rms', 'beat'];
+
+// How far a mapping at amount 1 pushes each field.
+export const MODULATION_TARGETS: Record<ModulatableField, { label: string; span: number }> = {
+  noiseStrength: { label: 'Noise', span: 6 },
+  particleSizeMax: { label: 'Max Size', span: 15 },
+  speed: { label: 'Speed', span: 3 },
+  flowFieldStrength: { label: 'Flow', span: 4 },
+  connectionDistance: { label: 'Connections', span: 60 }
+};
+
+export const DEFAULT_AUDIO_MAPPINGS: AudioMapping[] = [
+  { id: 'bass-size', feature: 'bass', field: 'particleSizeMax', amount: 0.5, attackMs: 20, releaseMs: 250 },
+  { id: 'beat-flow', feature: 'beat', field: 'flowFieldStrength', amount: 0.6, attackMs: 5, releaseMs: 300 },
+  { id: 'treble-noise', feature: 'treble', field: 'noiseStrength', amount: 0.4, attackMs: 40, releaseMs: 400 }
+];
+
+export const createAudioModulator = () => {
+  const envelopes = new Map<string, number>();
+
+  const update = (mappings: AudioMapping[], features: AudioFeatures, dtMs: number): StyleOffsets => {
+    const offsets: StyleOffsets = {};
+    for (const m of mappings) {
+      const target = m.feature === 'beat' ? (features.beat ? 1 : 0) : features[m.feature];
+      const prev = envelopes.get(m.id) ?? 0;
+      const tau = Math.max(1, target > prev ? m.attackMs : m.releaseMs);
+      const env = prev + (target - prev) * (1 - Math.exp(-dtMs / tau));
+      envelopes.set(m.id, env);
+      offsets[m.field] = (offsets[m.field] ?? 0) + env * m.amount * MODULATION_TARGETS[m.field].span;
+    }
+    return offsets;
+  };
+
+  return { update, reset: () => envelopes.clear() };
+};
+
+// Offsets never push a field out of its STYLE_RANGES, nor the max size below the min.
+export const applyStyleOffsets = (style: ArtStyleConfig, offsets: StyleOffsets): ArtStyleConfig => {
+  const keys = Object.keys(offsets) as ModulatableField[];
+  if (keys.length === 0) return style;
+  const next = { ...style };
+  for (const key of keys) {
+    const { min, max } = STYLE_RANGES[key];
+    next[key] = Math.min(max, Math.max(min, style[key] + (offsets[key] ?? 0)));
+  }
+  next.particleSizeMax = Math.max(next.particleSizeMax, next.particleSizeMin);
+  return next;
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createBackgroundSubtractor } from './backgroundMask';
+import { FrameData } from './particleEngine';
+
+const makeFrame = (width: number, height: number, value: number): FrameData => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height * 4).fill(value)
+});
+
+describe('createBackgroundSubtractor', () => {
+  it('masks out the captured plate and keeps what differs from it', async () => {
+    const subtractor = createBackgroundSubtractor({ threshold: 40, smoothing: 0 });
+    const ready = subtractor.capture(2);
+    subtractor.update(makeFrame(8, 8, 20));
+    expect(subtractor.capturing).toBe(true);
+    subtractor.update(makeFrame(8, 8, 20));
+    await ready;
+    expect(subtractor.capturing).toBe(false);
+    expect(subtractor.update(makeFrame(8, 8, 20))!.every(v => v === 0)).toBe(true);
+    expect(subtractor.update(makeFrame(8, 8, 200))!.every(v => v === 1)).toBe(true);
+  });
+
+  it('reports a plate dropped by a size change', async () => {
+    const onLost = vi.fn();
+    const subtractor = createBackgroundSubtractor(undefined, onLost);
+    const ready = subtractor.capture(1);
+    subtractor.update(makeFrame(8, 8, 20));
+    await ready;
+    expect(subtractor.update(makeFrame(10, 8, 20))).toBeNull();
+    expect(subtractor.hasPlate).toBe(false);
+    expect(onLost).toHaveBeenCalledTimes(1);
+    subtractor.update(makeFrame(10, 8, 20));
+    expect(onLost).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,161 @@
+import { FrameData } from './particleEngine';
+
+/**
+ * Silhouette isolation without a segmentation model: average a few frames of the empty scene
+ * into a background plate, then mark pixels that differ enough from it as foreground. The raw
+ * mask is cleaned with a morphological open/close and smoothed over time to stop flicker.
+ * Runs at the engine's sampling resolution, so it costs next to nothing.
+ */
+
+export interface MaskSettings {
+  threshold: number; // RGB distance (0-441) a pixel must move from the plate to count as foreground
+  smoothing: number; // 0 = follow each frame, towards 1 = slow fade in/out
+}
+
+export const DEFAULT_MASK_SETTINGS: MaskSettings = { threshold: 40, smoothing: 0.6 };
+export const DEFAULT_PLATE_FRAMES = 30;
+
+// What the UI drives; the Renderer fills one in while mounted, like CaptureTarget.
+export interface BackgroundControl {
+  // Resolves once `frames` frames have been averaged into the plate
+  capture: (frames: number) => Promise<void>;
+  clear: () => void;
+  setSettings: (settings: MaskSettings) => void;
+  // Called when a resize throws the plate away; returns an unsubscribe
+  onLost: (listener: () => void) => () => void;
+}
+
+export interface BackgroundSubtractor {
+  readonly hasPlate: boolean;
+  // Frames are still being averaged into a plate
+  readonly capturing: boolean;
+  capture: (frames: number) => Promise<void>;
+  clear: () => void;
+  setSettings: (settings: MaskSettings) => void;
+  // Foreground weight (0-1) per pixel of `frame`, or null while there is no plate
+  update: (frame: FrameData) => Float32Array | null;
+}
+
+// 3x3 binary erode (min) or dilate (max), done as two separable passes.
+const morph = (src: Uint8Array, tmp: Uint8Array, w: number, h: number, dilate: boolean) => {
+  const pick = dilate ? Math.max : Math.min;
+  for (let y = 0; y < h; y++) {
+    const row = y * w;
+    for (let x = 0; x < w; x++) {
+      const i = row + x;
+      tmp[i] = pick(src[i], src[x > 0 ? i - 1 : i], src[x < w - 1 ? i + 1 : i]);
+    }
+  }
+  for (let y = 0; y < h; y++) {
+    const up = y > 0 ? -w : 0;
+    const down = y < h - 1 ? w : 0;
+    for (let x = 0; x < w; x++) {
+      const i = y * w + x;
+      src[i] = pick(tmp[i], tmp[i + up], tmp[i + down]);
+    }
+  }
+};
+
+// `onLost` hears about plates dropped by a size change, which nobody asked for
+export const createBackgroundSubtractor = (
+  initial: MaskSettings = DEFAULT_MASK_SETTINGS,
+  onLost?: () => void
+): BackgroundSubtractor => {
+  let settings = initial;
+  let width = 0;
+  let height = 0;
+  let plate: Float32Array | null = null;
+  let sums: Float32Array | null = null;
+  let remaining = 0;
+  let collected = 0;
+  let pending: { resolve: () => void; reject: (err: Error) => void } | null = null;
+  let binary = new Uint8Array(0);
+  let scratch = new Uint8Array(0);
+  let mask = new Float32Array(0);
+
+  const reset = (w: number, h: number) => {
+    width = w;
+    height = h;
+    binary = new Uint8Array(w * h);
+    scratch = new Uint8Array(w * h);
+    mask = new Float32Array(w * h);
+  };
+
+  const capture = (frames: number) => {
+    pending?.reject(new Error('Background capture restarted'));
+    sums = null;
+    collected = 0;
+    remaining = Math.max(1, Math.floor(frames));
+    return new Promise<void>((resolve, reject) => { pending = { resolve, reject }; });
+  };
+
+  const clear = () => {
+    pending?.reject(new Error('Background cleared'));
+    pending = null;
+    plate = null;
+    sums = null;
+    remaining = 0;
+  };
+
+  const accumulate = (frame: FrameData) => {
+    const n = frame.width * frame.height;
+    if (!sums || sums.length !== n * 3) {
+      sums = new Float32Array(n * 3);
+      collected = 0;
+    }
+    const data = frame.data;
+    for (let i = 0; i < n; i++) {
+      sums[i * 3] += data[i * 4];
+      sums[i * 3 + 1] += data[i * 4 + 1];
+      sums[i * 3 + 2] += data[i * 4 + 2];
+    }
+    collected++;
+    if (--remaining > 0) return;
+    for (let i = 0; i < sums.length; i++) sums[i] /= collected;
+    plate = sums;
+    sums = null;
+    reset(frame.width, frame.height);
+    pending?.resolve();
+    pending = null;
+  };
+
+  const update = (frame: FrameData): Float32Array | null => {
+    if (remaining > 0) accumulate(frame);
+    if (!plate) return null;
+    // The sampling size follows the window; a plate for another size is useless
+    if (frame.width !== width || frame.height !== height) {
+      plate = null;
+      onLost?.();
+      return null;
+    }
+
+    const n = width * height;
+    const data = frame.data;
+    const thresholdSq = settings.threshold * settings.threshold;
+    for (let i = 0; i < n; i++) {
+      const dr = data[i * 4] - plate[i * 3];
+      const dg = data[i * 4 + 1] - plate[i * 3 + 1];
+      const db = data[i * 4 + 2] - plate[i * 3 + 2];
+      binary[i] = dr * dr + dg * dg + db * db > thresholdSq ? 1 : 0;
+    }
+
+    // Open removes speckle noise, close fills pinholes inside the silhouette
+    morph(binary, scratch, width, height, false);
+    morph(binary, scratch, width, height, true);
+    morph(binary, scratch, width, height, true);
+    morph(binary, scratch, width, height, false);
+
+    const keep = Math.min(0.95, Math.max(0, settings.smoothing));
+    for (let i = 0; i < n; i++) mask[i] = mask[i] * keep + binary[i] * (1 - keep);
+    return mask;
+  };
+
+  return {
+    get hasPlate() { return plate !== null; },
+    get capturing() { return remaining > 0; },
+    capture,
+    clear,
+    setSettings: (next) => { settings = next; },
+    update
+  };
+};
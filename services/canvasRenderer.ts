@@ -0,0 +1,177 @@
+import { ArtStyleConfig, Particle, ParticleShape } from '../types';
+import { CONNECTION_FLOATS, ConnectionSet } from './connections';
+import { ParticleRenderer, RenderScene, strokeWidthFor } from './particleRenderer';
+import { glyphFontFor, glyphIndex, glyphsOf, spriteExtent } from './shapeAssets';
+import { createScratchCanvas, ScratchCanvas } from './surfaces';
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Glyphs are set at this size once per layer and scaled per particle, since changing ctx.font is slow
+const GLYPH_BASE_PX = 32;
+// Tinted sprite copies kept around; 'source' colour mode can ask for thousands of colours
+const MAX_TINTS = 256;
+
+const polygon = (ctx: Context2D, x: number, y: number, radius: number, sides: number, rotation: number) => {
+  for (let i = 0; i < sides; i++) {
+    const a = rotation + i * Math.PI * 2 / sides;
+    if (i === 0) ctx.moveTo(x + Math.cos(a) * radius, y + Math.sin(a) * radius);
+    else ctx.lineTo(x + Math.cos(a) * radius, y + Math.sin(a) * radius);
+  }
+  ctx.closePath();
+  ctx.fill();
+};
+
+const drawShape = (ctx: Context2D, p: Particle, shape: ParticleShape) => {
+  const { x, y, size } = p;
+  ctx.beginPath();
+  if (shape === ParticleShape.CIRCLE) {
+    ctx.arc(x, y, size, 0, Math.PI * 2);
+    ctx.fill();
+  } else if (shape === ParticleShape.SQUARE) {
+    ctx.fillRect(x - size, y - size, size * 2, size * 2);
+  } else if (shape === ParticleShape.LINE) {
+    const angle = Math.atan2(p.vy, p.vx) || 0;
+    const len = size * 2.5;
+    ctx.moveTo(x - Math.cos(angle) * len, y - Math.sin(angle) * len);
+    ctx.lineTo(x + Math.cos(angle) * len, y + Math.sin(angle) * len);
+    ctx.stroke();
+  } else if (shape === ParticleShape.CROSS) {
+    ctx.moveTo(x - size, y); ctx.lineTo(x + size, y);
+    ctx.moveTo(x, y - size); ctx.lineTo(x, y + size);
+    ctx.stroke();
+  } else if (shape === ParticleShape.TRIANGLE) {
+    polygon(ctx, x, y, size, 3, -Math.PI / 2);
+  } else if (shape === ParticleShape.HEXAGON) {
+    polygon(ctx, x, y, size, 6, 0);
+  }
+};
+
+// Canvas2D can't cheaply do per-line gradients, so each line takes the average of its endpoint colours.
+const drawConnections = (ctx: Context2D, connections: ConnectionSet) => {
+  const s = connections.segments;
+  ctx.lineWidth = 1;
+  for (let i = 0; i < connections.count; i++) {
+    const o = i * CONNECTION_FLOATS;
+    const r = Math.round((s[o + 5] + s[o + 8]) * 127.5);
+    const g = Math.round((s[o + 6] + s[o + 9]) * 127.5);
+    const b = Math.round((s[o + 7] + s[o + 10]) * 127.5);
+    ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, ${s[o + 4].toFixed(3)})`;
+    ctx.beginPath();
+    ctx.moveTo(s[o], s[o + 1]);
+    ctx.lineTo(s[o + 2], s[o + 3]);
+    ctx.stroke();
+  }
+};
+
+// Fallback backend: one path per particle. Fine at low densities, slow at high ones.
+export const createCanvasRenderer = (ctx: Context2D): ParticleRenderer => {
+  let width = 0;
+  let height = 0;
+  let sprite: ImageBitmap | null = null;
+  const tints = new Map<string, ScratchCanvas>();
+
+  const setSprite = (image: ImageBitmap | null) => {
+    sprite = image;
+    tints.clear();
+  };
+
+  // The sprite multiplied by `color`, keeping the sprite's own alpha
+  const tinted = (color: string) => {
+    const hit = tints.get(color);
+    if (hit || !sprite) return hit;
+    if (tints.size >= MAX_TINTS) tints.clear();
+    const canvas = createScratchCanvas(sprite.width, sprite.height);
+    const tctx = canvas.getContext('2d') as Context2D | null;
+    if (!tctx) return undefined;
+    tctx.drawImage(sprite, 0, 0);
+    tctx.globalCompositeOperation = 'multiply';
+    tctx.fillStyle = color;
+    tctx.fillRect(0, 0, canvas.width, canvas.height);
+    tctx.globalCompositeOperation = 'destination-in';
+    tctx.drawImage(sprite, 0, 0);
+    tints.set(color, canvas);
+    return canvas;
+  };
+
+  const drawGlyphs = (particles: Particle[], style: ArtStyleConfig) => {
+    const glyphs = glyphsOf(style.glyphRamp);
+    ctx.font = glyphFontFor(GLYPH_BASE_PX, style.glyphFont);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    for (let i = 0; i < particles.length; i++) {
+      const p = particles[i];
+      if (!p.visible) continue;
+      const k = p.size * 2 / GLYPH_BASE_PX;
+      ctx.setTransform(k, 0, 0, k, p.x, p.y);
+      ctx.fillStyle = p.color;
+      ctx.fillText(glyphs[glyphIndex(p.brightness, glyphs.length)], 0, 0);
+    }
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+  };
+
+  const drawSprites = (particles: Particle[]) => {
+    for (let i = 0; i < particles.length; i++) {
+      const p = particles[i];
+      if (!p.visible) continue;
+      const image = tinted(p.color);
+      if (!image || !sprite) continue;
+      const extent = spriteExtent(sprite, p.size);
+      ctx.drawImage(image, p.x - extent.x, p.y - extent.y, extent.x * 2, extent.y * 2);
+    }
+  };
+
+  const resize = (w: number, h: number) => {
+    width = w;
+    height = h;
+    ctx.canvas.width = w;
+    ctx.canvas.height = h;
+  };
+
+  const render = ({ particles, style, layers, connections, markers }: RenderScene) => {
+    // Trail effect
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.fillStyle = `rgba(0, 0, 0, ${style.trailEffect})`;
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.globalCompositeOperation = style.blendingMode;
+
+    drawConnections(ctx, connections);
+
+    for (const layer of layers) {
+      if (layer.opacity <= 0) continue;
+      ctx.globalCompositeOperation = layer.blendingMode;
+      ctx.globalAlpha = layer.opacity;
+      if (layer.shape === ParticleShape.GLYPH) {
+        drawGlyphs(particles, style);
+        continue;
+      }
+      if (layer.shape === ParticleShape.SPRITE && sprite) {
+        drawSprites(particles);
+        continue;
+      }
+      // Without an uploaded sprite, SPRITE draws circles
+      const shape = layer.shape === ParticleShape.SPRITE ? ParticleShape.CIRCLE : layer.shape;
+      for (let i = 0; i < particles.length; i++) {
+        const p = particles[i];
+        if (!p.visible) continue;
+        ctx.fillStyle = p.color;
+        ctx.strokeStyle = p.color;
+        ctx.lineWidth = strokeWidthFor(p.size);
+        drawShape(ctx, p, shape);
+      }
+    }
+    ctx.globalAlpha = 1;
+
+    ctx.globalCompositeOperation = 'lighter';
+    for (const m of markers) {
+      ctx.beginPath();
+      ctx.arc(m.x, m.y, m.radius, 0, Math.PI * 2);
+      ctx.fillStyle = m.color;
+      ctx.fill();
+    }
+  };
+
+  const readPixels = () => (width > 0 && height > 0 ? ctx.getImageData(0, 0, width, height) : null);
+
+  return { backend: 'canvas2d', resize, render, setSprite, readPixels, dispose: () => tints.clear() };
+};
@@ -0,0 +1,75 @@
+/**
+ * Keeping what users make: WebM recording of the live canvas (optionally with the music
+ * track), PNG snapshots and hi-res stills, plus the download helper they share.
+ */
+
+// What the Renderer exposes so capture controls elsewhere in the tree can reach the canvas.
+export interface CaptureTarget {
+  canvas: HTMLCanvasElement;
+  snapshot: () => Promise<Blob>;
+  renderStill: (scale: number) => Promise<Blob>;
+}
+
+export interface CanvasRecorder {
+  readonly startedAt: number;
+  stop: () => Promise<Blob>;
+}
+
+const RECORDING_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm'
+];
+
+type CapturableMedia = HTMLMediaElement & {
+  captureStream?: () => MediaStream;
+  mozCaptureStream?: () => MediaStream;
+};
+
+const audioTracksOf = (audio: HTMLMediaElement | null) => {
+  if (!audio || audio.paused) return [];
+  const media = audio as CapturableMedia;
+  const stream = media.captureStream?.() ?? media.mozCaptureStream?.();
+  return stream ? stream.getAudioTracks() : [];
+};
+
+export const startCanvasRecording = (
+  canvas: HTMLCanvasElement,
+  audio: HTMLMediaElement | null,
+  fps = 60
+): CanvasRecorder => {
+  const mimeType = RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  const stream = new MediaStream([
+    ...canvas.captureStream(fps).getVideoTracks(),
+    ...audioTracksOf(audio)
+  ]);
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType, videoBitsPerSecond: 12_000_000 } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  recorder.start(1000);
+
+  const stop = () => new Promise<Blob>((resolve) => {
+    recorder.onstop = () => {
+      // Only the video track belongs to us; the audio track is the player's
+      stream.getVideoTracks().forEach(track => track.stop());
+      resolve(new Blob(chunks, { type: mimeType || 'video/webm' }));
+    };
+    recorder.stop();
+  });
+
+  return { startedAt: performance.now(), stop };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const captureFilename = (extension: string, suffix = '') => {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  return `artflow-${stamp}${suffix}.${extension}`;
+};
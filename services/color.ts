@@ -0,0 +1,150 @@
+/**
+ * Colour helpers shared by the renderers. Works without a DOM so it can run in workers and Node.
+ */
+
+export type RGBA = [number, number, number, number]; // 0-255 channels, alpha 0-1
+
+const WHITE: RGBA = [255, 255, 255, 1];
+const cache = new Map<string, RGBA>();
+// Transitions mint new colour strings every frame; don't let the cache grow forever.
+const MAX_CACHE_SIZE = 4096;
+
+// The CSS names generated styles actually tend to use; anything rarer should come as hex.
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000', white: '#ffffff', red: '#ff0000', green: '#008000', blue: '#0000ff',
+  yellow: '#ffff00', cyan: '#00ffff', aqua: '#00ffff', magenta: '#ff00ff', fuchsia: '#ff00ff',
+  orange: '#ffa500', purple: '#800080', pink: '#ffc0cb', hotpink: '#ff69b4', deeppink: '#ff1493',
+  gold: '#ffd700', silver: '#c0c0c0', gray: '#808080', grey: '#808080', brown: '#a52a2a',
+  navy: '#000080', teal: '#008080', lime: '#00ff00', olive: '#808000', maroon: '#800000',
+  indigo: '#4b0082', violet: '#ee82ee', turquoise: '#40e0d0', coral: '#ff7f50', crimson: '#dc143c',
+  salmon: '#fa8072', tomato: '#ff6347', orchid: '#da70d6', plum: '#dda0dd', lavender: '#e6e6fa',
+  beige: '#f5f5dc', khaki: '#f0e68c', skyblue: '#87ceeb', chartreuse: '#7fff00', midnightblue: '#191970'
+};
+
+const clampByte = (v: number) => Math.min(255, Math.max(0, v));
+
+const hslToRgb = (h: number, s: number, l: number): [number, number, number] => {
+  const hue = ((h % 360) + 360) % 360 / 360;
+  if (s <= 0) return [l * 255, l * 255, l * 255];
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const channel = (t: number) => {
+    const x = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (x < 1 / 6) return p + (q - p) * 6 * x;
+    if (x < 1 / 2) return q;
+    if (x < 2 / 3) return p + (q - p) * (2 / 3 - x) * 6;
+    return p;
+  };
+  return [channel(hue + 1 / 3) * 255, channel(hue) * 255, channel(hue - 1 / 3) * 255];
+};
+
+const parseUncached = (input: string): RGBA | null => {
+  const value = input.trim().toLowerCase();
+
+  if (value.startsWith('#')) {
+    let hex = value.slice(1);
+    if (hex.length === 3 || hex.length === 4) hex = hex.split('').map(c => c + c).join('');
+    if ((hex.length !== 6 && hex.length !== 8) || /[^0-9a-f]/.test(hex)) return null;
+    const n = parseInt(hex.slice(0, 6), 16);
+    const a = hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1;
+    return [(n >> 16) & 255, (n >> 8) & 255, n & 255, a];
+  }
+
+  const fn = value.match(/^rgba?\(([^)]+)\)$/);
+  if (fn) {
+    const parts = fn[1].split(/[\s,\/]+/).filter(Boolean).map(parseFloat);
+    if (parts.length < 3 || parts.some(isNaN)) return null;
+    return [clampByte(parts[0]), clampByte(parts[1]), clampByte(parts[2]), parts[3] ?? 1];
+  }
+
+  const hsl = value.match(/^hsla?\(([^)]+)\)$/);
+  if (hsl) {
+    const parts = hsl[1].replace(/deg|%/g, '').split(/[\s,\/]+/).filter(Boolean).map(parseFloat);
+    if (parts.length < 3 || parts.some(isNaN)) return null;
+    const [r, g, b] = hslToRgb(parts[0], parts[1] / 100, parts[2] / 100);
+    return [r, g, b, parts[3] ?? 1];
+  }
+
+  const named = NAMED_COLORS[value];
+  return named ? parseUncached(named) : null;
+};
+
+// Returns null for anything that isn't a hex, rgb(), hsl() or known named colour.
+export const tryParseColor = (input: string): RGBA | null => {
+  const hit = cache.get(input);
+  if (hit) return hit;
+  const parsed = parseUncached(input);
+  if (parsed) {
+    if (cache.size >= MAX_CACHE_SIZE) cache.clear();
+    cache.set(input, parsed);
+  }
+  return parsed;
+};
+
+export const parseColor = (input: string): RGBA => tryParseColor(input) ?? WHITE;
+
+export const rgbToHex = (r: number, g: number, b: number) =>
+  '#' + [r, g, b].map(v => Math.round(clampByte(v)).toString(16).padStart(2, '0')).join('');
+
+// Canonical '#rrggbb' (alpha dropped), or null if the input isn't a colour.
+export const toHex = (input: string): string | null => {
+  const parsed = tryParseColor(input);
+  return parsed ? rgbToHex(parsed[0], parsed[1], parsed[2]) : null;
+};
+
+// OKLab (Björn Ottosson) — perceptually even blending, so palette morphs don't go muddy in the middle.
+export type Oklab = [number, number, number];
+
+const toLinear = (c: number) => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+const fromLinear = (v: number) => {
+  const c = v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(Math.max(0, v), 1 / 2.4) - 0.055;
+  return c * 255;
+};
+
+export const rgbToOklab = (r: number, g: number, b: number): Oklab => {
+  const lr = toLinear(r), lg = toLinear(g), lb = toLinear(b);
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+  return [
+    0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s
+  ];
+};
+
+export const oklabToRgb = ([L, a, b]: Oklab): [number, number, number] => {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(L - 0.0894841775 * a - 1.2914855480 * b, 3);
+  return [
+    fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s)
+  ];
+};
+
+export const mixOklab = (from: string, to: string, t: number) => {
+  const a = parseColor(from);
+  const b = parseColor(to);
+  const la = rgbToOklab(a[0], a[1], a[2]);
+  const lb = rgbToOklab(b[0], b[1], b[2]);
+  const [r, g, bl] = oklabToRgb([
+    la[0] + (lb[0] - la[0]) * t,
+    la[1] + (lb[1] - la[1]) * t,
+    la[2] + (lb[2] - la[2]) * t
+  ]);
+  return rgbToHex(r, g, bl);
+};
+
+// Colour at position u (0-1) along a palette treated as an OKLab gradient.
+export const samplePalette = (palette: string[], u: number) => {
+  if (palette.length === 1) return palette[0];
+  const pos = Math.min(1, Math.max(0, u)) * (palette.length - 1);
+  const i = Math.min(palette.length - 2, Math.floor(pos));
+  return mixOklab(palette[i], palette[i + 1], pos - i);
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { createColorMapper, mapBrightnessToColor, sampleChannel } from './colorMapping';
+
+// A w x h RGBA frame from one [r, g, b] per pixel
+const frame = (pixels: [number, number, number][]) => new Uint8ClampedArray(pixels.flatMap(([r, g, b]) => [r, g, b, 255]));
+
+describe('sampleChannel', () => {
+  const orange = frame([[255, 128, 0]]);
+
+  it('reads brightness, luminance and its inverse', () => {
+    expect(sampleChannel('brightness', orange, 1, 1, 0, 0)).toBeCloseTo(127.67, 1);
+    expect(sampleChannel('luminance', orange, 1, 1, 0, 0)).toBeCloseTo(0.2126 * 255 + 0.7152 * 128, 5);
+    expect(sampleChannel('inverted', orange, 1, 1, 0, 0)).toBeCloseTo(255 - 127.67, 1);
+  });
+
+  it('reads saturation, and hue only where there is colour', () => {
+    expect(sampleChannel('saturation', orange, 1, 1, 0, 0)).toBe(255);
+    expect(sampleChannel('saturation', frame([[100, 100, 100]]), 1, 1, 0, 0)).toBe(0);
+    expect(sampleChannel('hue', frame([[100, 100, 100]]), 1, 1, 0, 0)).toBe(0);
+    const red = sampleChannel('hue', frame([[255, 0, 0]]), 1, 1, 0, 0);
+    const blue = sampleChannel('hue', frame([[0, 0, 255]]), 1, 1, 0, 0);
+    expect(red).toBeGreaterThan(0);
+    expect(blue).toBeGreaterThan(red);
+  });
+
+  it('lights up edges and nothing else', () => {
+    // Black left half, white right half
+    const w = 4;
+    const data = frame(Array.from({ length: w * w }, (_, i) => (i % w < 2 ? [0, 0, 0] : [255, 255, 255]) as [number, number, number]));
+    expect(sampleChannel('edges', data, w, w, 0, 1)).toBe(0);
+    expect(sampleChannel('edges', data, w, w, 1, 1)).toBe(255);
+    expect(sampleChannel('edges', data, w, w, 3, 1)).toBe(0);
+  });
+});
+
+describe('createColorMapper', () => {
+  const palette = ['#000000', '#ff0000', '#ffffff'];
+
+  it('steps through the palette by default', () => {
+    const mapper = createColorMapper();
+    mapper.setStyle('stepped', palette);
+    expect(mapper.map(0, 0, 0, 0)).toBe('#000000');
+    expect(mapper.map(200, 0, 0, 0)).toBe(mapBrightnessToColor(200, palette));
+    expect(mapper.map(255, 0, 0, 0)).toBe('#ffffff');
+  });
+
+  it('blends along the palette in gradient mode', () => {
+    const mapper = createColorMapper();
+    mapper.setStyle('gradient', palette);
+    expect(mapper.map(0, 0, 0, 0)).toBe('#000000');
+    expect(mapper.map(255, 0, 0, 0)).toBe('#ffffff');
+    expect(mapper.map(128, 0, 0, 0)).not.toBe(mapper.map(100, 0, 0, 0));
+  });
+
+  it('keeps the source colour, quantized, in source mode', () => {
+    const mapper = createColorMapper();
+    mapper.setStyle('source', palette);
+    expect(mapper.map(0, 255, 0, 0)).toBe('#ff0000');
+    expect(mapper.map(0, 250, 2, 3)).toBe(mapper.map(0, 255, 0, 0));
+  });
+
+  it('mixes the source with the palette in tint mode', () => {
+    const mapper = createColorMapper();
+    mapper.setStyle('tint', ['#000000', '#000000']);
+    // Halfway from white to black, then quantized to 5 bits a channel
+    expect(mapper.map(255, 255, 255, 255)).toBe('#7b7b7b');
+  });
+});
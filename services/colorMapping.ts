@@ -0,0 +1,134 @@
+import { ColorMode, SamplingChannel } from '../types';
+import { parseColor, rgbToHex, samplePalette } from './color';
+
+/**
+ * How a sampled pixel becomes a particle: the sampling channel turns RGB into the 0-255 value
+ * that drives visibility, size and the flow field; the colour mode picks the particle colour
+ * from that value, the pixel itself, or both.
+ */
+
+// Greys have no meaningful hue; below this chroma they drop out of the hue channel
+const MIN_HUE_CHROMA = 16;
+// Sobel magnitude of a hard black/white edge is ~1000; this puts ordinary contours near full scale
+const EDGE_GAIN = 0.5;
+// Share of the palette colour in 'tint' mode
+const TINT_AMOUNT = 0.5;
+
+const luminance = (data: ArrayLike<number>, i: number) =>
+  0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+
+// Sobel on Rec. 709 luminance, clamped at the frame border.
+const edgeMagnitude = (data: ArrayLike<number>, w: number, h: number, x: number, y: number) => {
+  const x0 = x > 0 ? x - 1 : x;
+  const x1 = x < w - 1 ? x + 1 : x;
+  const y0 = y > 0 ? y - 1 : y;
+  const y1 = y < h - 1 ? y + 1 : y;
+  const at = (cx: number, cy: number) => luminance(data, (cy * w + cx) * 4);
+  const tl = at(x0, y0), tc = at(x, y0), tr = at(x1, y0);
+  const ml = at(x0, y), mr = at(x1, y);
+  const bl = at(x0, y1), bc = at(x, y1), br = at(x1, y1);
+  const gx = (tr + 2 * mr + br) - (tl + 2 * ml + bl);
+  const gy = (bl + 2 * bc + br) - (tl + 2 * tc + tr);
+  return Math.min(255, Math.sqrt(gx * gx + gy * gy) * EDGE_GAIN);
+};
+
+// The channel value (0-255) of pixel (x, y) in an RGBA frame.
+export const sampleChannel = (
+  channel: SamplingChannel,
+  data: ArrayLike<number>,
+  w: number,
+  h: number,
+  x: number,
+  y: number
+): number => {
+  const i = (y * w + x) * 4;
+  const r = data[i], g = data[i + 1], b = data[i + 2];
+  switch (channel) {
+    case 'luminance':
+      return luminance(data, i);
+    case 'edges':
+      return edgeMagnitude(data, w, h, x, y);
+    case 'inverted':
+      return 255 - (r + g + b) / 3;
+    case 'hue':
+    case 'saturation': {
+      const max = Math.max(r, g, b);
+      const min = Math.min(r, g, b);
+      const chroma = max - min;
+      if (channel === 'saturation') return max === 0 ? 0 : chroma / max * 255;
+      if (chroma < MIN_HUE_CHROMA) return 0;
+      let hue = max === r ? (g - b) / chroma : max === g ? 2 + (b - r) / chroma : 4 + (r - g) / chroma;
+      if (hue < 0) hue += 6;
+      // Keep every hue, red included, above the visibility threshold
+      return MIN_HUE_CHROMA + hue / 6 * (255 - MIN_HUE_CHROMA);
+    }
+    default: // brightness
+      return (r + g + b) / 3;
+  }
+};
+
+export const mapBrightnessToColor = (brightness: number, palette: string[]) => {
+  const index = Math.floor((brightness / 255) * (palette.length - 1));
+  return palette[index] || palette[0];
+};
+
+export interface ColorMapper {
+  // Particle colour for channel value `value` sampled from pixel (r, g, b)
+  map: (value: number, r: number, g: number, b: number) => string;
+  setStyle: (mode: ColorMode, palette: string[]) => void;
+}
+
+/**
+ * Caches what can be cached: the OKLab gradient is baked into 256 steps whenever the palette
+ * changes, and pixel colours are quantized to 5 bits per channel so the renderers see a bounded
+ * set of colour strings instead of a fresh one per particle per frame.
+ */
+export const createColorMapper = (): ColorMapper => {
+  let mode: ColorMode = 'stepped';
+  let palette: string[] = [];
+  let paletteKey = '';
+  const gradient: string[] = new Array(256);
+  const gradientRgb = new Float32Array(256 * 3);
+  const hexes: string[] = new Array(32 * 32 * 32);
+
+  const quantized = (r: number, g: number, b: number) => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    return hexes[key] ??= rgbToHex((r >> 3) * 255 / 31, (g >> 3) * 255 / 31, (b >> 3) * 255 / 31);
+  };
+
+  const setStyle = (nextMode: ColorMode, nextPalette: string[]) => {
+    mode = nextMode;
+    palette = nextPalette;
+    if (mode !== 'gradient' && mode !== 'tint') return;
+    const key = nextPalette.join(',');
+    if (key === paletteKey) return;
+    paletteKey = key;
+    for (let i = 0; i < 256; i++) {
+      gradient[i] = samplePalette(nextPalette, i / 255);
+      const [r, g, b] = parseColor(gradient[i]);
+      gradientRgb[i * 3] = r;
+      gradientRgb[i * 3 + 1] = g;
+      gradientRgb[i * 3 + 2] = b;
+    }
+  };
+
+  const map = (value: number, r: number, g: number, b: number) => {
+    const step = Math.min(255, Math.max(0, Math.round(value)));
+    switch (mode) {
+      case 'gradient':
+        return gradient[step];
+      case 'source':
+        return quantized(r, g, b);
+      case 'tint':
+        return quantized(
+          r + (gradientRgb[step * 3] - r) * TINT_AMOUNT,
+          g + (gradientRgb[step * 3 + 1] - g) * TINT_AMOUNT,
+          b + (gradientRgb[step * 3 + 2] - b) * TINT_AMOUNT
+        );
+      default: // stepped
+        return mapBrightnessToColor(value, palette);
+    }
+  };
+
+  return { map, setStyle };
+};
@@ -0,0 +1,101 @@
+import { Particle } from '../types';
+import { parseColor } from './color';
+import { createRandom } from './random';
+import { createSpatialHash } from './spatialHash';
+
+/**
+ * Particle-to-particle lines for `connectionDistance` (the constellation / network look).
+ * Neighbours come from a uniform spatial hash with cell size = connection distance (16px at
+ * least), so each particle only checks the 3x3 block of cells around it.
+ */
+
+// x1, y1, x2, y2, alpha, r1, g1, b1, r2, g2, b2 (colours 0-1)
+export const CONNECTION_FLOATS = 11;
+
+export const DEFAULT_CONNECTION_BUDGET = 6000;
+
+// Without a per-particle cap, dense grids spend the whole budget on the first few rows.
+const MAX_LINKS_PER_PARTICLE = 4;
+const MAX_LINE_ALPHA = 0.6;
+
+export interface ConnectionSet {
+  segments: Float32Array;
+  count: number;
+}
+
+export const createConnectionBuilder = () => {
+  const hash = createSpatialHash();
+  const random = createRandom(7);
+  const result: ConnectionSet = { segments: new Float32Array(0), count: 0 };
+  let order = new Int32Array(0);
+  let links = new Uint8Array(0);
+
+  // Fixed shuffled visiting order: the budget is spread over the whole screen and stays stable frame to frame.
+  const ensureOrder = (n: number) => {
+    if (order.length === n) return;
+    order = new Int32Array(n);
+    links = new Uint8Array(n);
+    for (let i = 0; i < n; i++) order[i] = i;
+    for (let i = n - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      const t = order[i]; order[i] = order[j]; order[j] = t;
+    }
+  };
+
+  const build = (particles: Particle[], distance: number, budget: number, width: number, height: number): ConnectionSet => {
+    result.count = 0;
+    if (distance <= 0 || budget <= 0 || particles.length === 0) return result;
+    if (result.segments.length < budget * CONNECTION_FLOATS) {
+      result.segments = new Float32Array(budget * CONNECTION_FLOATS);
+    }
+
+    ensureOrder(particles.length);
+    links.fill(0);
+    hash.rebuild(particles, i => particles[i].visible, width, height, distance);
+
+    const { cols, rows, cellStart, items } = hash;
+    const maxD2 = distance * distance;
+    const out = result.segments;
+
+    for (let k = 0; k < order.length && result.count < budget; k++) {
+      const i = order[k];
+      const a = particles[i];
+      if (!a.visible || links[i] >= MAX_LINKS_PER_PARTICLE) continue;
+      const cell = hash.cellOf(a.x, a.y);
+      const cx = cell % cols;
+      const cy = (cell - cx) / cols;
+
+      for (let ny = Math.max(0, cy - 1); ny <= Math.min(rows - 1, cy + 1); ny++) {
+        for (let nx = Math.max(0, cx - 1); nx <= Math.min(cols - 1, cx + 1); nx++) {
+          const c = ny * cols + nx;
+          for (let s = cellStart[c]; s < cellStart[c + 1]; s++) {
+            const j = items[s];
+            if (j <= i || links[j] >= MAX_LINKS_PER_PARTICLE) continue;
+            const b = particles[j];
+            const dx = b.x - a.x;
+            const dy = b.y - a.y;
+            const d2 = dx * dx + dy * dy;
+            if (d2 >= maxD2) continue;
+
+            const ca = parseColor(a.color);
+            const cb = parseColor(b.color);
+            const o = result.count * CONNECTION_FLOATS;
+            out[o] = a.x; out[o + 1] = a.y; out[o + 2] = b.x; out[o + 3] = b.y;
+            out[o + 4] = (1 - Math.sqrt(d2) / distance) * MAX_LINE_ALPHA;
+            out[o + 5] = ca[0] / 255; out[o + 6] = ca[1] / 255; out[o + 7] = ca[2] / 255;
+            out[o + 8] = cb[0] / 255; out[o + 9] = cb[1] / 255; out[o + 10] = cb[2] / 255;
+            result.count++;
+            links[i]++;
+            links[j]++;
+            if (result.count >= budget || links[i] >= MAX_LINKS_PER_PARTICLE) break;
+          }
+          if (result.count >= budget || links[i] >= MAX_LINKS_PER_PARTICLE) break;
+        }
+        if (result.count >= budget || links[i] >= MAX_LINKS_PER_PARTICLE) break;
+      }
+    }
+    return result;
+  };
+
+  return { build };
+};
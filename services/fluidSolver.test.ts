@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createFluidSolver, FLUID_MAX_CELLS, FLUID_MIN_CELL_SIZE } from './fluidSolver';
+
+const settings = { viscosity: 0.1, vorticity: 1 };
+
+describe('createFluidSolver', () => {
+  it('sizes the grid by the long side of the canvas', () => {
+    const small = createFluidSolver(320, 240);
+    expect(small.cellSize).toBe(FLUID_MIN_CELL_SIZE);
+    expect([small.cols, small.rows]).toEqual([20, 15]);
+    const large = createFluidSolver(3840, 2160);
+    expect(large.cols).toBe(FLUID_MAX_CELLS);
+    expect(large.rows).toBeLessThan(FLUID_MAX_CELLS);
+  });
+
+  it('stays still until stirred', () => {
+    const fluid = createFluidSolver(320, 240);
+    for (let i = 0; i < 10; i++) fluid.step(settings);
+    expect(fluid.sample(160, 120)).toEqual({ vx: 0, vy: 0, dye: 0 });
+  });
+
+  it('carries a push and its dye downstream', () => {
+    const fluid = createFluidSolver(320, 240);
+    fluid.addVelocity(100, 120, 20, 0, 48);
+    fluid.addDye(100, 120, 1, 32);
+    expect(fluid.sample(180, 120).dye).toBe(0);
+    for (let i = 0; i < 20; i++) {
+      fluid.addVelocity(100, 120, 20, 0, 48);
+      fluid.step(settings);
+    }
+    expect(fluid.sample(130, 120).vx).toBeGreaterThan(0);
+    expect(fluid.sample(180, 120).dye).toBeGreaterThan(0);
+  });
+
+  it('keeps velocity bounded however hard it is pushed', () => {
+    const fluid = createFluidSolver(320, 240);
+    fluid.addVelocity(160, 120, 1e6, -1e6, 64);
+    fluid.step(settings);
+    for (let x = 0; x < 320; x += 16) {
+      const { vx, vy } = fluid.sample(x, 120);
+      expect(Math.hypot(vx, vy)).toBeLessThanOrEqual(4 * fluid.cellSize);
+    }
+  });
+
+  it('lets the dye fade', () => {
+    const fluid = createFluidSolver(320, 240);
+    fluid.addDye(160, 120, 1, 32);
+    const start = fluid.sample(160, 120).dye;
+    for (let i = 0; i < 30; i++) fluid.step(settings);
+    expect(fluid.sample(160, 120).dye).toBeLessThan(start * 0.6);
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Coarse stable-fluids grid (Stam, "Real-Time Fluid Dynamics for Games"): velocity is diffused,
+ * projected to be divergence-free, advected semi-Lagrangian, and kept swirly with vorticity
+ * confinement. A scalar dye rides along so stirred regions can light up.
+ *
+ * Positions and velocities in the public API are canvas pixels (per frame); internally
+ * everything is in cells. The grid has a one-cell border that acts as a solid wall.
+ */
+
+export interface FluidSettings {
+  viscosity: number; // 0-1, how quickly velocity spreads out and evens over
+  vorticity: number; // 0-5, vorticity confinement strength; puts back swirls the coarse grid smears
+}
+
+// Reused between calls to avoid allocating once per particle
+export interface FluidSample {
+  vx: number;
+  vy: number;
+  dye: number;
+}
+
+export interface FluidSolver {
+  readonly cols: number;
+  readonly rows: number;
+  readonly cellSize: number;
+  // Gaussian splat of velocity / dye around (x, y), all in canvas px
+  addVelocity: (x: number, y: number, vx: number, vy: number, radius: number) => void;
+  addDye: (x: number, y: number, amount: number, radius: number) => void;
+  step: (settings: FluidSettings) => void;
+  sample: (x: number, y: number) => FluidSample;
+}
+
+// Cells are at least this many px, and the long side of the canvas gets at most FLUID_MAX_CELLS
+// of them, so the solver costs about the same at any window size
+export const FLUID_MIN_CELL_SIZE = 16;
+export const FLUID_MAX_CELLS = 64;
+
+const SOLVER_ITERATIONS = 16;
+const VELOCITY_DISSIPATION = 0.995;
+const DYE_DISSIPATION = 0.98;
+// Velocity a cell may reach (cells per step); stops one huge splat from blowing the advection up
+const MAX_CELL_SPEED = 4;
+
+export const createFluidSolver = (width: number, height: number): FluidSolver => {
+  const cellSize = Math.max(FLUID_MIN_CELL_SIZE, Math.ceil(Math.max(width, height) / FLUID_MAX_CELLS));
+  const cols = Math.max(1, Math.ceil(width / cellSize));
+  const rows = Math.max(1, Math.ceil(height / cellSize));
+  const stride = cols + 2;
+  const size = stride * (rows + 2);
+  const at = (i: number, j: number) => i + stride * j;
+
+  let u = new Float32Array(size);
+  let v = new Float32Array(size);
+  let u0 = new Float32Array(size);
+  let v0 = new Float32Array(size);
+  let dye = new Float32Array(size);
+  let dye0 = new Float32Array(size);
+  const curl = new Float32Array(size);
+  const pressure = new Float32Array(size);
+  const divergence = new Float32Array(size);
+  const result: FluidSample = { vx: 0, vy: 0, dye: 0 };
+
+  // b = 1 mirrors u at the left/right walls, b = 2 mirrors v at top/bottom, b = 0 copies scalars
+  const setBounds = (b: number, x: Float32Array) => {
+    for (let i = 1; i <= cols; i++) {
+      x[at(i, 0)] = b === 2 ? -x[at(i, 1)] : x[at(i, 1)];
+      x[at(i, rows + 1)] = b === 2 ? -x[at(i, rows)] : x[at(i, rows)];
+    }
+    for (let j = 1; j <= rows; j++) {
+      x[at(0, j)] = b === 1 ? -x[at(1, j)] : x[at(1, j)];
+      x[at(cols + 1, j)] = b === 1 ? -x[at(cols, j)] : x[at(cols, j)];
+    }
+    x[at(0, 0)] = 0.5 * (x[at(1, 0)] + x[at(0, 1)]);
+    x[at(0, rows + 1)] = 0.5 * (x[at(1, rows + 1)] + x[at(0, rows)]);
+    x[at(cols + 1, 0)] = 0.5 * (x[at(cols, 0)] + x[at(cols + 1, 1)]);
+    x[at(cols + 1, rows + 1)] = 0.5 * (x[at(cols, rows + 1)] + x[at(cols + 1, rows)]);
+  };
+
+  // Gauss-Seidel relaxation of x = (x0 + a * neighbours) / c
+  const relax = (b: number, x: Float32Array, x0: Float32Array, a: number, c: number) => {
+    for (let k = 0; k < SOLVER_ITERATIONS; k++) {
+      for (let j = 1; j <= rows; j++) {
+        for (let i = 1; i <= cols; i++) {
+          const n = at(i, j);
+          x[n] = (x0[n] + a * (x[n - 1] + x[n + 1] + x[n - stride] + x[n + stride])) / c;
+        }
+      }
+      setBounds(b, x);
+    }
+  };
+
+  const diffuse = (b: number, x: Float32Array, x0: Float32Array, rate: number) => {
+    relax(b, x, x0, rate, 1 + 4 * rate);
+  };
+
+  // Back-traces each cell centre along (vu, vv) and samples the old field there
+  const advect = (
+    b: number, d: Float32Array, d0: Float32Array, vu: Float32Array, vv: Float32Array, dissipation: number
+  ) => {
+    for (let j = 1; j <= rows; j++) {
+      for (let i = 1; i <= cols; i++) {
+        const n = at(i, j);
+        const x = Math.min(cols + 0.5, Math.max(0.5, i - vu[n]));
+        const y = Math.min(rows + 0.5, Math.max(0.5, j - vv[n]));
+        const i0 = Math.floor(x);
+        const j0 = Math.floor(y);
+        const s1 = x - i0;
+        const t1 = y - j0;
+        const s0 = 1 - s1;
+        const t0 = 1 - t1;
+        const m = at(i0, j0);
+        d[n] = dissipation * (
+          s0 * (t0 * d0[m] + t1 * d0[m + stride]) +
+          s1 * (t0 * d0[m + 1] + t1 * d0[m + 1 + stride])
+        );
+      }
+    }
+    setBounds(b, d);
+  };
+
+  // Removes the divergent part of (u, v), leaving only swirl and flow
+  const project = () => {
+    for (let j = 1; j <= rows; j++) {
+      for (let i = 1; i <= cols; i++) {
+        const n = at(i, j);
+        divergence[n] = -0.5 * (u[n + 1] - u[n - 1] + v[n + stride] - v[n - stride]);
+        pressure[n] = 0;
+      }
+    }
+    setBounds(0, divergence);
+    setBounds(0, pressure);
+    relax(0, pressure, divergence, 1, 4);
+    for (let j = 1; j <= rows; j++) {
+      for (let i = 1; i <= cols; i++) {
+        const n = at(i, j);
+        u[n] -= 0.5 * (pressure[n + 1] - pressure[n - 1]);
+        v[n] -= 0.5 * (pressure[n + stride] - pressure[n - stride]);
+      }
+    }
+    setBounds(1, u);
+    setBounds(2, v);
+  };
+
+  const confineVorticity = (strength: number) => {
+    for (let j = 1; j <= rows; j++) {
+      for (let i = 1; i <= cols; i++) {
+        const n = at(i, j);
+        curl[n] = 0.5 * (v[n + 1] - v[n - 1] - (u[n + stride] - u[n - stride]));
+      }
+    }
+    for (let j = 2; j < rows; j++) {
+      for (let i = 2; i < cols; i++) {
+        const n = at(i, j);
+        const gx = 0.5 * (Math.abs(curl[n + 1]) - Math.abs(curl[n - 1]));
+        const gy = 0.5 * (Math.abs(curl[n + stride]) - Math.abs(curl[n - stride]));
+        const len = Math.hypot(gx, gy) + 1e-5;
+        u[n] += strength * (gy / len) * curl[n];
+        v[n] -= strength * (gx / len) * curl[n];
+      }
+    }
+  };
+
+  const splat = (x: number, y: number, radius: number, apply: (n: number, weight: number) => void) => {
+    const cx = x / cellSize + 0.5;
+    const cy = y / cellSize + 0.5;
+    const r = Math.max(1, radius / cellSize);
+    const i0 = Math.max(1, Math.floor(cx - r));
+    const i1 = Math.min(cols, Math.ceil(cx + r));
+    const j0 = Math.max(1, Math.floor(cy - r));
+    const j1 = Math.min(rows, Math.ceil(cy + r));
+    for (let j = j0; j <= j1; j++) {
+      for (let i = i0; i <= i1; i++) {
+        const d2 = ((i - cx) * (i - cx) + (j - cy) * (j - cy)) / (r * r);
+        if (d2 < 1) apply(at(i, j), Math.exp(-4 * d2));
+      }
+    }
+  };
+
+  const addVelocity = (x: number, y: number, vx: number, vy: number, radius: number) => {
+    const cu = vx / cellSize;
+    const cv = vy / cellSize;
+    splat(x, y, radius, (n, w) => {
+      u[n] += cu * w;
+      v[n] += cv * w;
+    });
+  };
+
+  const addDye = (x: number, y: number, amount: number, radius: number) => {
+    splat(x, y, radius, (n, w) => { dye[n] = Math.min(1, dye[n] + amount * w); });
+  };
+
+  const step = (settings: FluidSettings) => {
+    if (settings.vorticity > 0) confineVorticity(settings.vorticity * 0.1);
+    for (let n = 0; n < size; n++) {
+      const speed = Math.hypot(u[n], v[n]);
+      if (speed > MAX_CELL_SPEED) {
+        u[n] *= MAX_CELL_SPEED / speed;
+        v[n] *= MAX_CELL_SPEED / speed;
+      }
+    }
+
+    if (settings.viscosity > 0) {
+      [u0, u] = [u, u0];
+      [v0, v] = [v, v0];
+      diffuse(1, u, u0, settings.viscosity * 4);
+      diffuse(2, v, v0, settings.viscosity * 4);
+    }
+    project();
+
+    // Velocity carries itself: both components are traced through the field from before this step
+    [u0, u] = [u, u0];
+    [v0, v] = [v, v0];
+    advect(1, u, u0, u0, v0, VELOCITY_DISSIPATION);
+    advect(2, v, v0, u0, v0, VELOCITY_DISSIPATION);
+    project();
+
+    [dye0, dye] = [dye, dye0];
+    advect(0, dye, dye0, u, v, DYE_DISSIPATION);
+  };
+
+  // Bilinear lookup at canvas position (x, y)
+  const sample = (x: number, y: number) => {
+    const gx = Math.min(cols + 0.5, Math.max(0.5, x / cellSize + 0.5));
+    const gy = Math.min(rows + 0.5, Math.max(0.5, y / cellSize + 0.5));
+    const i0 = Math.floor(gx);
+    const j0 = Math.floor(gy);
+    const s = gx - i0;
+    const t = gy - j0;
+    const n = at(i0, j0);
+    const mix = (f: Float32Array) =>
+      (1 - s) * ((1 - t) * f[n] + t * f[n + stride]) + s * ((1 - t) * f[n + 1] + t * f[n + 1 + stride]);
+    result.vx = mix(u) * cellSize;
+    result.vy = mix(v) * cellSize;
+    result.dye = mix(dye);
+    return result;
+  };
+
+  return { cols, rows, cellSize, addVelocity, addDye, step, sample };
+};
@@ -1,75 +1,112 @@
-
 import { GoogleGenAI, Type } from "@google/genai";
-import { ArtStyleConfig, ParticleShape } from "../types";
+import { ArtStyleConfig } from "../types";
+import { validateStyle } from "./styleValidation";
+import { StyleProvider, StyleRequest } from "./styleProviders";
+
+const STYLE_RULES = `The particles render a live webcam feed in 2D space. 
+  Focus on aesthetic concepts: color palettes, geometric abstraction, movement fluid dynamics.
+  Rules:
+  - Use 'lighter' blending for neon/glow/cyber themes.
+  - Use 'source-over' for paint/ink/minimalist themes.
+  - 'density' (4-15): 4 is high detail, 15 is abstract.
+  - Give the style its own feel of touch: 'interactionMode' is how a hand or pointer moves the particles
+    (repel, attract, vortex swirl, gravity well, or paint to drag them along with the motion),
+    'interactionRadius' (60-400 px), 'interactionStrength' (10-80), 'interactionFalloff' shapes the edge.
+  - 'motionStrength' (0-5): how much movement in the scene sweeps particles along; 0 ignores motion.
+  - 'samplingChannel' is what each pixel is measured by ('edges' gives sketch / line-art, 'inverted' lights the shadows);
+    'colorMode' is 'stepped' palette bands, a 'gradient' across the palette, the camera's own 'source' colour
+    (true-colour pointillism), or a 'tint' of source and palette.
+  - Shapes 'triangle' and 'hexagon' tile crisply; 'glyph' draws characters from 'glyphRamp' (sparse to dense,
+    e.g. " .:-=+*#%@" for ASCII art) in the CSS font family 'glyphFont'; 'sprite' stamps the user's uploaded image.
+  - For ink, smoke, water or other fluid themes set 'fluidCoupling' (0.2-0.8) so particles ride a real fluid;
+    'fluidViscosity' (0-1) thickens it, 'fluidVorticity' (0-5) keeps curls alive. Leave fluidCoupling 0 otherwise.`;
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+const STYLE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    description: { type: Type.STRING },
+    colors: { type: Type.ARRAY, items: { type: Type.STRING } },
+    particleSizeMin: { type: Type.NUMBER },
+    particleSizeMax: { type: Type.NUMBER },
+    density: { type: Type.NUMBER },
+    speed: { type: Type.NUMBER },
+    friction: { type: Type.NUMBER },
+    shape: { type: Type.STRING, enum: ["circle", "square", "line", "cross", "triangle", "hexagon", "glyph", "sprite"] },
+    blendingMode: { type: Type.STRING, enum: ["source-over", "lighter"] },
+    connectionDistance: { type: Type.NUMBER },
+    trailEffect: { type: Type.NUMBER },
+    noiseStrength: { type: Type.NUMBER },
+    flowFieldStrength: { type: Type.NUMBER },
+    interactionMode: { type: Type.STRING, enum: ["repel", "attract", "vortex", "gravity", "paint"] },
+    interactionRadius: { type: Type.NUMBER },
+    interactionStrength: { type: Type.NUMBER },
+    interactionFalloff: { type: Type.STRING, enum: ["linear", "smooth", "quadratic", "constant"] },
+    motionStrength: { type: Type.NUMBER },
+    samplingChannel: { type: Type.STRING, enum: ["brightness", "luminance", "edges", "hue", "saturation", "inverted"] },
+    colorMode: { type: Type.STRING, enum: ["stepped", "gradient", "source", "tint"] },
+    glyphRamp: { type: Type.STRING },
+    glyphFont: { type: Type.STRING },
+    fluidCoupling: { type: Type.NUMBER },
+    fluidViscosity: { type: Type.NUMBER },
+    fluidVorticity: { type: Type.NUMBER }
+  },
+  required: ["name", "colors", "density", "shape", "blendingMode"]
+};
+
+// A refinement sees the style as it is now plus what was asked before, so "warmer" or
+// "slower and more abstract" adjust it instead of starting over.
+const describeRequest = ({ prompt, base, history = [], count = 1 }: StyleRequest) => {
+  const ask = count > 1
+    ? `Return a JSON array of ${count} clearly different candidate styles.`
+    : 'Return a JSON array containing exactly one style.';
+  if (!base) return `Create a highly artistic visual particle system config based on: "${prompt}".\n${ask}\n${STYLE_RULES}`;
+  const earlier = history.length > 0 ? `Earlier instructions, oldest first: ${history.map(h => `"${h}"`).join(', ')}.\n` : '';
+  return `Modify this particle system config according to the instruction: "${prompt}".
+  ${earlier}Current config: ${JSON.stringify(base)}
+  Keep everything the instruction doesn't ask to change; give the result a fitting name.
+  ${ask}\n${STYLE_RULES}`;
+};
 
-export const generateArtStyle = async (prompt: string): Promise<ArtStyleConfig> => {
-  try {
-    const response = await ai.models.generateContent({
+// The result is always validated: the schema only requires a few fields and the model
+// happily returns out-of-range numbers, unknown shapes or non-CSS colours.
+const toStyle = (data: Partial<ArtStyleConfig> & Record<string, unknown>) => {
+  const result = validateStyle({
+    ...data,
+    blendingMode: data.blendingMode || 'source-over',
+    flowFieldStrength: data.flowFieldStrength ?? 1,
+    trailEffect: data.trailEffect ?? 0.2
+  });
+  if (result.warnings.length > 0) console.warn("Generated style adjusted:", result.warnings);
+  return result;
+};
+
+// The client is created on first use, so a missing key or offline start doesn't break the app;
+// the provider just rejects and the caller falls back to another one.
+export const createGeminiStyleProvider = (apiKey: string | undefined = process.env.API_KEY): StyleProvider => {
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!apiKey) throw new Error('No API key (set GEMINI_API_KEY in .env.local)');
+    client ??= new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  const generate = async (request: StyleRequest) => {
+    const response = await getClient().models.generateContent({
       model: "gemini-3-flash-preview",
-      contents: `Create a highly artistic visual particle system config based on: "${prompt}".
-      The particles render a live webcam feed in 2D space. 
-      Focus on aesthetic concepts: color palettes, geometric abstraction, movement fluid dynamics.
-      Rules:
-      - Use 'lighter' blending for neon/glow/cyber themes.
-      - Use 'source-over' for paint/ink/minimalist themes.
-      - 'density' (4-15): 4 is high detail, 15 is abstract.`,
+      contents: describeRequest(request),
       config: {
+        abortSignal: request.signal,
         responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            description: { type: Type.STRING },
-            colors: { type: Type.ARRAY, items: { type: Type.STRING } },
-            particleSizeMin: { type: Type.NUMBER },
-            particleSizeMax: { type: Type.NUMBER },
-            density: { type: Type.NUMBER },
-            speed: { type: Type.NUMBER },
-            friction: { type: Type.NUMBER },
-            shape: { type: Type.STRING, enum: ["circle", "square", "line", "cross"] },
-            blendingMode: { type: Type.STRING, enum: ["source-over", "lighter"] },
-            connectionDistance: { type: Type.NUMBER },
-            trailEffect: { type: Type.NUMBER },
-            noiseStrength: { type: Type.NUMBER },
-            flowFieldStrength: { type: Type.NUMBER }
-          },
-          required: ["name", "colors", "density", "shape", "blendingMode"]
-        }
+        responseSchema: { type: Type.ARRAY, items: STYLE_SCHEMA }
       }
     });
 
-    if (response.text) {
-      const data = JSON.parse(response.text);
-      const shapeMap: any = { 'circle': ParticleShape.CIRCLE, 'square': ParticleShape.SQUARE, 'line': ParticleShape.LINE, 'cross': ParticleShape.CROSS };
-      
-      return {
-        ...data,
-        shape: shapeMap[data.shape] || ParticleShape.CIRCLE,
-        blendingMode: data.blendingMode || 'source-over',
-        flowFieldStrength: data.flowFieldStrength ?? 1,
-        trailEffect: data.trailEffect ?? 0.2
-      };
-    }
-    throw new Error("No response");
-  } catch (error) {
-    console.error("Style generation failed:", error);
-    return {
-      name: "Nebula Pulse",
-      description: "Fallback ethereal style",
-      colors: ["#6366f1", "#a855f7", "#ec4899"],
-      particleSizeMin: 1,
-      particleSizeMax: 6,
-      density: 8,
-      speed: 1.5,
-      friction: 0.9,
-      shape: ParticleShape.CIRCLE,
-      blendingMode: 'lighter',
-      connectionDistance: 30,
-      trailEffect: 0.1,
-      noiseStrength: 2,
-      flowFieldStrength: 1
-    };
-  }
+    if (!response.text) throw new Error('Empty response');
+    const data = JSON.parse(response.text);
+    const items = Array.isArray(data) ? data : [data];
+    return items.filter(item => typeof item === 'object' && item !== null).map(toStyle);
+  };
+
+  return { id: 'gemini', label: 'Gemini', generate };
 };
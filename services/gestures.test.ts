@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import {
+  classifyPose,
+  createGestureTracker,
+  DEFAULT_GESTURE_BINDINGS,
+  HandInput,
+  handForce,
+  handPresetStep,
+  Landmark
+} from './gestures';
+
+interface HandShape {
+  fingers: [boolean, boolean, boolean, boolean]; // index, middle, ring, pinky extended
+  thumbOut: boolean;
+  pinch?: boolean;
+  dx?: number;
+}
+
+// An upright right hand in normalized camera space: wrist at the bottom, fingers pointing up
+const hand = ({ fingers, thumbOut, pinch = false, dx = 0 }: HandShape): Landmark[] => {
+  const lm: Landmark[] = Array.from({ length: 21 }, () => ({ x: 0.5, y: 0.9, z: 0 }));
+  [0.45, 0.5, 0.55, 0.6].forEach((x, f) => {
+    const base = 5 + f * 4;
+    lm[base] = { x, y: 0.7, z: 0 };
+    lm[base + 1] = { x, y: 0.6, z: 0 };
+    lm[base + 2] = { x, y: fingers[f] ? 0.55 : 0.7, z: 0 };
+    lm[base + 3] = { x, y: fingers[f] ? 0.5 : 0.78, z: 0 };
+  });
+  lm[4] = pinch ? { ...lm[8] } : thumbOut ? { x: 0.3, y: 0.75, z: 0 } : { x: 0.47, y: 0.72, z: 0 };
+  return lm.map(p => ({ ...p, x: p.x + dx }));
+};
+
+const OPEN: HandShape = { fingers: [true, true, true, true], thumbOut: true };
+const FIST: HandShape = { fingers: [false, false, false, false], thumbOut: false };
+const POINT: HandShape = { fingers: [true, false, false, false], thumbOut: false };
+const PINCH: HandShape = { fingers: [true, true, true, true], thumbOut: false, pinch: true };
+
+const input = (shape: HandShape, handedness = 'Right'): HandInput => ({ landmarks: hand(shape), handedness, score: 1 });
+
+describe('classifyPose', () => {
+  it('recognises the basic poses', () => {
+    expect(classifyPose(hand(OPEN)).pose).toBe('open');
+    expect(classifyPose(hand(FIST)).pose).toBe('fist');
+    expect(classifyPose(hand(POINT)).pose).toBe('point');
+    expect(classifyPose(hand(PINCH)).pose).toBe('pinch');
+  });
+
+  it('reads nothing from an incomplete hand', () => {
+    expect(classifyPose(hand(OPEN).slice(0, 10))).toEqual({ pose: 'none', confidence: 0 });
+  });
+});
+
+describe('createGestureTracker', () => {
+  it('switches pose only after it has held for a few frames', () => {
+    const tracker = createGestureTracker();
+    const poses = [0, 16, 32, 48].map(t => tracker.update([input(FIST)], t)[0]);
+    expect(poses.map(h => h.pose)).toEqual(['none', 'none', 'fist', 'fist']);
+    expect(poses.map(h => h.started)).toEqual([false, false, true, false]);
+  });
+
+  it('ignores a single stray frame', () => {
+    const tracker = createGestureTracker();
+    [0, 16, 32].forEach(t => tracker.update([input(OPEN)], t));
+    expect(tracker.update([input(FIST)], 48)[0].pose).toBe('open');
+    expect(tracker.update([input(OPEN)], 64)[0].pose).toBe('open');
+  });
+
+  it('tracks each hand separately by handedness', () => {
+    const tracker = createGestureTracker();
+    let hands = tracker.update([input(FIST, 'Left'), input(OPEN, 'Right')], 0);
+    for (const t of [16, 32]) hands = tracker.update([input(FIST, 'Left'), input(OPEN, 'Right')], t);
+    expect(hands.map(h => [h.id, h.pose])).toEqual([['Left', 'fist'], ['Right', 'open']]);
+  });
+
+  it('reads a fast sideways wrist movement as a swipe, once', () => {
+    const tracker = createGestureTracker();
+    const at = (dx: number, t: number) => tracker.update([{ landmarks: hand({ ...OPEN, dx }), handedness: 'Right', score: 1 }], t)[0];
+    expect(at(0.2, 1000).swipe).toBeNull();
+    expect(at(0.05, 1100).swipe).toBeNull();
+    // Unmirrored camera: moving to smaller x is a swipe to the user's right
+    const swiped = at(-0.1, 1200);
+    expect(swiped.swipe).toBe('swipeRight');
+    expect(handPresetStep(swiped, DEFAULT_GESTURE_BINDINGS)).toBe(1);
+    expect(at(-0.2, 1300).swipe).toBeNull();
+  });
+});
+
+describe('handForce', () => {
+  const settled = (shape: HandShape) => {
+    const tracker = createGestureTracker();
+    return [0, 16, 32].map(t => tracker.update([input(shape)], t))[2][0];
+  };
+
+  it('applies the bound force at the hand', () => {
+    const pinch = handForce(settled(PINCH), DEFAULT_GESTURE_BINDINGS, 200, 100);
+    expect(pinch).toMatchObject({ mode: 'attract', kind: 'hand', x: 90, y: 50 });
+    expect(handForce(settled(FIST), DEFAULT_GESTURE_BINDINGS, 200, 100)?.mode).toBe('freeze');
+  });
+
+  it('fires an explode binding only on the frame the pose starts', () => {
+    const bindings = { ...DEFAULT_GESTURE_BINDINGS, fist: 'explode' as const };
+    const fist = settled(FIST);
+    expect(handForce(fist, bindings, 200, 100)?.mode).toBe('explode');
+    expect(handForce({ ...fist, started: false }, bindings, 200, 100)).toBeNull();
+  });
+
+  it('gives no force for preset actions', () => {
+    const bindings = { ...DEFAULT_GESTURE_BINDINGS, fist: 'nextPreset' as const };
+    const fist = settled(FIST);
+    expect(handForce(fist, bindings, 200, 100)).toBeNull();
+    expect(handPresetStep(fist, bindings)).toBe(1);
+  });
+});
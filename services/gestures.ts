@@ -0,0 +1,253 @@
+import { ForceSource } from '../types';
+import { HAND_RADIUS_SCALE, HAND_STRENGTH_SCALE } from './particleEngine';
+
+/**
+ * Hand gestures from the 21 MediaPipe landmarks. Poses (pinch, fist, open palm, point) are
+ * scored per frame and only switch after holding for a few frames; swipes are read from wrist
+ * motion. Coordinates stay in MediaPipe's normalized, unmirrored camera space.
+ */
+
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// One hand as delivered by MediaPipe: 21 landmarks plus its handedness label and score.
+export interface HandInput {
+  landmarks: Landmark[];
+  handedness: string;
+  score: number;
+}
+
+export type PoseName = 'none' | 'pinch' | 'fist' | 'open' | 'point';
+export type SwipeName = 'swipeLeft' | 'swipeRight';
+export type GestureName = PoseName | SwipeName;
+
+// 'touch' is whatever interaction the current style defines; the force actions override it.
+export type GestureAction =
+  | 'none' | 'touch' | 'attract' | 'repel' | 'explode' | 'freeze'
+  | 'nextPreset' | 'previousPreset' | 'scaleRadius';
+
+export type GestureBindings = Record<GestureName, GestureAction>;
+
+export const GESTURES: GestureName[] = ['none', 'pinch', 'fist', 'open', 'point', 'swipeLeft', 'swipeRight'];
+export const GESTURE_ACTIONS: GestureAction[] = [
+  'none', 'touch', 'attract', 'repel', 'explode', 'freeze', 'nextPreset', 'previousPreset', 'scaleRadius'
+];
+
+// Open hand and pointing touch the particles the way the style says, like a pointer does.
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+  none: 'touch',
+  pinch: 'attract',
+  fist: 'freeze',
+  open: 'touch',
+  point: 'touch',
+  swipeLeft: 'previousPreset',
+  swipeRight: 'nextPreset'
+};
+
+export interface PoseReading {
+  pose: PoseName;
+  confidence: number; // 0-1
+}
+
+export interface HandState {
+  id: string;
+  landmarks: Landmark[];
+  pose: PoseName;
+  confidence: number;
+  started: boolean;          // the pose became active on this frame
+  swipe: SwipeName | null;   // set on the single frame a swipe is recognised
+  spread: number;            // thumb-index distance in palm lengths, for radius scaling
+  vx: number;                // index-tip velocity, normalized units per 60fps frame
+  vy: number;
+}
+
+const WRIST = 0;
+const THUMB_TIP = 4;
+const INDEX_MCP = 5;
+const INDEX_TIP = 8;
+const MIDDLE_MCP = 9;
+const FINGERS = [[6, 8], [10, 12], [14, 16], [18, 20]]; // [pip, tip] for index, middle, ring, pinky
+
+const MIN_CONFIDENCE = 0.55;
+const DEBOUNCE_FRAMES = 3;
+const SWIPE_WINDOW_MS = 250;
+const SWIPE_DISTANCE = 0.22;  // fraction of the frame width
+const SWIPE_COOLDOWN_MS = 800;
+const FRAME_MS = 1000 / 60;
+
+const dist = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// 0 when a finger is curled into the palm, 1 when it's straight.
+const extension = (lm: Landmark[], pip: number, tip: number) =>
+  clamp01((dist(lm[WRIST], lm[tip]) / Math.max(1e-6, dist(lm[WRIST], lm[pip])) - 0.9) / 0.4);
+
+const palmSize = (lm: Landmark[]) => Math.max(1e-6, dist(lm[WRIST], lm[MIDDLE_MCP]));
+
+export const pinchSpread = (lm: Landmark[]) => dist(lm[THUMB_TIP], lm[INDEX_TIP]) / palmSize(lm);
+
+export const classifyPose = (lm: Landmark[]): PoseReading => {
+  if (lm.length < 21) return { pose: 'none', confidence: 0 };
+  const [index, middle, ring, pinky] = FINGERS.map(([pip, tip]) => extension(lm, pip, tip));
+  const thumb = clamp01((dist(lm[THUMB_TIP], lm[INDEX_MCP]) / palmSize(lm) - 0.3) / 0.4);
+  const others = (middle + ring + pinky) / 3;
+
+  // Touching thumb and index tips reads as a pinch whatever the other fingers do, unless the hand is a fist
+  const pinch = clamp01(1 - pinchSpread(lm) / 0.35);
+  const fist = 1 - (index + middle + ring + pinky) / 4;
+  if (pinch >= MIN_CONFIDENCE && pinch >= fist) return { pose: 'pinch', confidence: pinch };
+
+  const scores: [PoseName, number][] = [
+    ['fist', fist],
+    ['open', ((index + middle + ring + pinky) / 4) * thumb],
+    ['point', index * (1 - others)]
+  ];
+  let best: PoseReading = { pose: 'none', confidence: 0 };
+  for (const [pose, score] of scores) {
+    if (score > best.confidence) best = { pose, confidence: score };
+  }
+  return best.confidence >= MIN_CONFIDENCE ? best : { pose: 'none', confidence: 1 - best.confidence };
+};
+
+// Where a hand acts on the particles: between the pinching fingers, the fingertip when
+// pointing, otherwise the middle of the palm.
+export const handAnchor = (lm: Landmark[], pose: PoseName) => {
+  if (pose === 'pinch') {
+    return { x: (lm[THUMB_TIP].x + lm[INDEX_TIP].x) / 2, y: (lm[THUMB_TIP].y + lm[INDEX_TIP].y) / 2 };
+  }
+  if (pose === 'point' || pose === 'none') return { x: lm[INDEX_TIP].x, y: lm[INDEX_TIP].y };
+  return { x: lm[MIDDLE_MCP].x, y: lm[MIDDLE_MCP].y };
+};
+
+interface TrackedHand {
+  pose: PoseName;
+  confidence: number;
+  candidate: PoseName;
+  candidateFrames: number;
+  trail: { x: number; y: number; t: number }[];
+  lastSwipe: number;
+  lastSeen: number;
+  tip: { x: number; y: number; t: number } | null;
+}
+
+export interface GestureTracker {
+  update: (hands: HandInput[], timeMs: number) => HandState[];
+  reset: () => void;
+}
+
+export const createGestureTracker = (): GestureTracker => {
+  const tracked = new Map<string, TrackedHand>();
+
+  const update = (hands: HandInput[], timeMs: number): HandState[] => {
+    const seen = new Map<string, number>();
+    const states = hands.map(hand => {
+      // Handedness keeps identities stable frame to frame; duplicates (misclassified hands) get a suffix
+      const count = seen.get(hand.handedness) ?? 0;
+      seen.set(hand.handedness, count + 1);
+      const id = count === 0 ? hand.handedness : `${hand.handedness}-${count}`;
+
+      let state = tracked.get(id);
+      if (!state) {
+        state = { pose: 'none', confidence: 0, candidate: 'none', candidateFrames: 0, trail: [], lastSwipe: 0, lastSeen: timeMs, tip: null };
+        tracked.set(id, state);
+      }
+      state.lastSeen = timeMs;
+
+      const reading = classifyPose(hand.landmarks);
+      const confidence = reading.confidence * hand.score;
+      if (reading.pose === state.candidate) state.candidateFrames++;
+      else {
+        state.candidate = reading.pose;
+        state.candidateFrames = 1;
+      }
+      let started = false;
+      if (state.candidate !== state.pose && state.candidateFrames >= DEBOUNCE_FRAMES) {
+        state.pose = state.candidate;
+        started = true;
+      }
+      if (reading.pose === state.pose) state.confidence = confidence;
+
+      // Camera space is unmirrored, so moving towards smaller x reads as a swipe to the user's right.
+      const wrist = hand.landmarks[WRIST];
+      state.trail.push({ x: wrist.x, y: wrist.y, t: timeMs });
+      while (state.trail.length > 0 && timeMs - state.trail[0].t > SWIPE_WINDOW_MS) state.trail.shift();
+      let swipe: SwipeName | null = null;
+      const first = state.trail[0];
+      const dx = wrist.x - first.x;
+      const dy = wrist.y - first.y;
+      if (timeMs - state.lastSwipe > SWIPE_COOLDOWN_MS && Math.abs(dx) > SWIPE_DISTANCE && Math.abs(dx) > 2 * Math.abs(dy)) {
+        swipe = dx < 0 ? 'swipeRight' : 'swipeLeft';
+        state.lastSwipe = timeMs;
+        state.trail = [];
+      }
+
+      const tip = hand.landmarks[INDEX_TIP];
+      const dt = state.tip ? Math.max(1, timeMs - state.tip.t) : 0;
+      const vx = state.tip ? (tip.x - state.tip.x) / dt * FRAME_MS : 0;
+      const vy = state.tip ? (tip.y - state.tip.y) / dt * FRAME_MS : 0;
+      state.tip = { x: tip.x, y: tip.y, t: timeMs };
+
+      return {
+        id,
+        landmarks: hand.landmarks,
+        pose: state.pose,
+        confidence: state.confidence,
+        started,
+        swipe,
+        spread: pinchSpread(hand.landmarks),
+        vx,
+        vy
+      };
+    });
+
+    // Forget hands that left the frame so they start fresh when they return
+    for (const [id, state] of tracked) {
+      if (state.lastSeen !== timeMs) tracked.delete(id);
+    }
+    return states;
+  };
+
+  return { update, reset: () => tracked.clear() };
+};
+
+/**
+ * The force a hand applies for its current pose, or null when the bound action isn't a force.
+ * The canvas is mirrored and the camera isn't, so internal x is simply landmark.x * width.
+ */
+export const handForce = (hand: HandState, bindings: GestureBindings, width: number, height: number): ForceSource | null => {
+  const anchor = handAnchor(hand.landmarks, hand.pose);
+  const base = {
+    x: anchor.x * width,
+    y: anchor.y * height,
+    vx: hand.vx * width,
+    vy: hand.vy * height,
+    radiusScale: HAND_RADIUS_SCALE,
+    strengthScale: HAND_STRENGTH_SCALE,
+    kind: 'hand' as const
+  };
+  const action = bindings[hand.pose];
+  switch (action) {
+    case 'touch':
+    case 'repel':
+    case 'attract':
+    case 'freeze':
+      return { ...base, mode: action };
+    case 'explode':
+      return hand.started ? { ...base, mode: 'explode' } : null; // one burst per gesture, not a continuous blast
+    case 'scaleRadius':
+      return { ...base, radiusScale: HAND_RADIUS_SCALE * Math.min(2.5, Math.max(0.4, hand.spread / 0.8)), mode: 'touch' };
+    default:
+      return null;
+  }
+};
+
+// Preset steps a hand asked for this frame: -1, 0 or 1.
+export const handPresetStep = (hand: HandState, bindings: GestureBindings) => {
+  const actions = [hand.swipe ? bindings[hand.swipe] : 'none', hand.started ? bindings[hand.pose] : 'none'];
+  if (actions.includes('nextPreset')) return 1;
+  if (actions.includes('previousPreset')) return -1;
+  return 0;
+};
@@ -0,0 +1,250 @@
+/**
+ * Everything the Renderer can sample: a webcam, a looped video file, a still image, a shared
+ * screen/tab, or a procedural test pattern. Each source exposes one element (a <video> or a
+ * <canvas>) that the simulation and the hand tracker read frames from.
+ */
+
+export type InputSourceKind = 'webcam' | 'video' | 'image' | 'screen' | 'pattern';
+export type PatternName = 'gradient' | 'shapes';
+
+export interface Resolution {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const RESOLUTIONS: Resolution[] = [
+  { label: '480p', width: 640, height: 480 },
+  { label: '720p', width: 1280, height: 720 },
+  { label: '1080p', width: 1920, height: 1080 }
+];
+
+export const PATTERNS: PatternName[] = ['gradient', 'shapes'];
+
+export type InputSourceConfig =
+  | { kind: 'webcam'; deviceId?: string; resolution: Resolution }
+  | { kind: 'video'; file: File }
+  | { kind: 'image'; file: File }
+  | { kind: 'screen' }
+  | { kind: 'pattern'; pattern: PatternName };
+
+export const DEFAULT_INPUT: InputSourceConfig = { kind: 'webcam', resolution: RESOLUTIONS[0] };
+
+export interface InputSource {
+  readonly kind: InputSourceKind;
+  readonly label: string;
+  readonly element: HTMLVideoElement | HTMLCanvasElement;
+  // Selfie-style sources are shown mirrored; files, screens and patterns are not
+  readonly mirrored: boolean;
+  // Worth running hand tracking on (live people may be in it)
+  readonly trackHands: boolean;
+  isReady: () => boolean;
+  // Called once per animation frame; procedural sources draw their next frame here
+  update: () => void;
+  stop: () => void;
+}
+
+export interface InputSourceOptions {
+  // Where media elements are attached (MediaPipe can't read frames from a detached or hidden video)
+  mount: HTMLElement;
+  // The source ended on its own, e.g. the user stopped screen sharing
+  onEnded?: () => void;
+}
+
+const PATTERN_WIDTH = 640;
+const PATTERN_HEIGHT = 480;
+const MAX_IMAGE_SIZE = 1280;
+const PATTERN_FPS = 60;
+
+export const listCameras = async () => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'videoinput');
+};
+
+const createVideoElement = (mount: HTMLElement) => {
+  const video = document.createElement('video');
+  video.playsInline = true;
+  video.muted = true;
+  video.className = 'opacity-0 absolute pointer-events-none';
+  mount.appendChild(video);
+  return video;
+};
+
+const mediaSource = (
+  kind: 'webcam' | 'screen' | 'video',
+  label: string,
+  video: HTMLVideoElement,
+  cleanup: () => void
+): InputSource => ({
+  kind,
+  label,
+  element: video,
+  mirrored: kind === 'webcam',
+  trackHands: true,
+  isReady: () => video.readyState >= 2,
+  update: () => {},
+  stop: () => {
+    video.pause();
+    cleanup();
+    video.remove();
+  }
+});
+
+const openStream = async (kind: 'webcam' | 'screen', stream: MediaStream, options: InputSourceOptions) => {
+  const video = createVideoElement(options.mount);
+  const stopTracks = () => stream.getTracks().forEach(track => track.stop());
+  const track = stream.getVideoTracks()[0];
+  track?.addEventListener('ended', () => options.onEnded?.());
+  video.srcObject = stream;
+  try {
+    await video.play();
+  } catch (err) {
+    stopTracks();
+    video.remove();
+    throw err;
+  }
+  return mediaSource(kind, track?.label || (kind === 'webcam' ? 'Camera' : 'Screen'), video, () => {
+    stopTracks();
+    video.srcObject = null;
+  });
+};
+
+const openVideoFile = async (file: File, options: InputSourceOptions) => {
+  const video = createVideoElement(options.mount);
+  const url = URL.createObjectURL(file);
+  video.loop = true;
+  video.src = url;
+  try {
+    await video.play();
+  } catch (err) {
+    URL.revokeObjectURL(url);
+    video.remove();
+    throw err;
+  }
+  return mediaSource('video', file.name, video, () => URL.revokeObjectURL(url));
+};
+
+const openImage = async (file: File): Promise<InputSource> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return {
+      kind: 'image',
+      label: file.name,
+      element: canvas,
+      mirrored: false,
+      trackHands: false,
+      isReady: () => true,
+      update: () => {},
+      stop: () => {}
+    };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Draws frame `t` (seconds) of a test pattern. Pure function of its arguments, so the same t
+ * always gives the same pixels — handy for comparing renderer output.
+ */
+export const drawPattern = (
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  pattern: PatternName,
+  t: number,
+  width: number,
+  height: number
+) => {
+  if (pattern === 'gradient') {
+    const angle = t * 0.4;
+    const cx = width / 2;
+    const cy = height / 2;
+    const r = Math.hypot(width, height) / 2;
+    const gradient = ctx.createLinearGradient(
+      cx - Math.cos(angle) * r, cy - Math.sin(angle) * r,
+      cx + Math.cos(angle) * r, cy + Math.sin(angle) * r
+    );
+    const hue = (t * 30) % 360;
+    gradient.addColorStop(0, `hsl(${hue}, 80%, 8%)`);
+    gradient.addColorStop(0.5, `hsl(${(hue + 60) % 360}, 80%, 45%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 120) % 360}, 90%, 85%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+    return;
+  }
+
+  // Bright shapes on Lissajous paths over black, so there's a silhouette to sculpt
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  const unit = Math.min(width, height);
+  for (let i = 0; i < 5; i++) {
+    const x = width / 2 + Math.sin(t * (0.5 + i * 0.13) + i * 1.7) * width * 0.35;
+    const y = height / 2 + Math.cos(t * (0.7 + i * 0.11) + i * 2.3) * height * 0.35;
+    const size = unit * (0.08 + 0.03 * i);
+    ctx.fillStyle = `hsl(${i * 72}, 85%, ${55 + i * 8}%)`;
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.rotate(t * (i % 2 === 0 ? 0.8 : -0.6));
+    if (i % 2 === 0) {
+      ctx.beginPath();
+      ctx.arc(0, 0, size, 0, Math.PI * 2);
+      ctx.fill();
+    } else {
+      ctx.fillRect(-size, -size, size * 2, size * 2);
+    }
+    ctx.restore();
+  }
+};
+
+// Advances a fixed 1/60 s per update rather than following the wall clock, so runs are repeatable.
+const openPattern = (pattern: PatternName): InputSource => {
+  const canvas = document.createElement('canvas');
+  canvas.width = PATTERN_WIDTH;
+  canvas.height = PATTERN_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Cannot create pattern canvas');
+  let frame = 0;
+  drawPattern(ctx, pattern, 0, PATTERN_WIDTH, PATTERN_HEIGHT);
+  return {
+    kind: 'pattern',
+    label: `Test pattern: ${pattern}`,
+    element: canvas,
+    mirrored: false,
+    trackHands: false,
+    isReady: () => true,
+    update: () => drawPattern(ctx, pattern, ++frame / PATTERN_FPS, PATTERN_WIDTH, PATTERN_HEIGHT),
+    stop: () => {}
+  };
+};
+
+export const openInputSource = async (config: InputSourceConfig, options: InputSourceOptions): Promise<InputSource> => {
+  switch (config.kind) {
+    case 'webcam': {
+      const { width, height } = config.resolution;
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: config.deviceId
+          ? { deviceId: { exact: config.deviceId }, width: { ideal: width }, height: { ideal: height } }
+          : { width: { ideal: width }, height: { ideal: height }, facingMode: "user" },
+        audio: false
+      });
+      return openStream('webcam', stream, options);
+    }
+    case 'screen': {
+      const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+      return openStream('screen', stream, options);
+    }
+    case 'video':
+      return openVideoFile(config.file, options);
+    case 'image':
+      return openImage(config.file);
+    case 'pattern':
+      return openPattern(config.pattern);
+  }
+};
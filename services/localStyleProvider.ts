@@ -0,0 +1,451 @@
+import { ArtStyleConfig, ParticleShape } from '../types';
+import { mixOklab, oklabToRgb, parseColor, rgbToHex, rgbToOklab, toHex } from './color';
+import { createRandom, RandomFn } from './random';
+import { NumericStyleField, STYLE_RANGES, validateStyle } from './styleValidation';
+import { StyleProvider, StyleRequest } from './styleProviders';
+import { DEFAULT_GLYPH_FONT, DEFAULT_GLYPH_RAMP } from './shapeAssets';
+
+/**
+ * Builds a style from the prompt without any network. Words are looked up in small lexicons —
+ * colour names, themes ("neon", "ink", "ocean"), moods ("calm", "stormy", "gloomy") — and
+ * whatever they leave open is filled from a generator seeded by the prompt, so the same prompt
+ * always gives the same style. Refinements apply relative edits ("warmer", "less abstract",
+ * "much slower") to the current style instead.
+ */
+
+interface Theme {
+  words: string[];
+  palette?: string[];
+  style: Partial<ArtStyleConfig>;
+}
+
+const THEMES: Theme[] = [
+  {
+    words: ['neon', 'cyber', 'cyberpunk', 'glow', 'glowing', 'laser', 'synthwave', 'electric', 'arcade'],
+    palette: ['#0b0221', '#7c3aed', '#ff00a0', '#00e5ff', '#f0abfc'],
+    style: { blendingMode: 'lighter', trailEffect: 0.15, colorMode: 'gradient' }
+  },
+  {
+    words: ['ink', 'sumi', 'calligraphy', 'brush'],
+    palette: ['#0a0a0a', '#27272a', '#57534e', '#e7e5e4'],
+    style: { blendingMode: 'source-over', trailEffect: 0.05, shape: ParticleShape.LINE, fluidCoupling: 0.4, colorMode: 'stepped' }
+  },
+  {
+    words: ['paint', 'painting', 'oil', 'impressionist', 'gogh', 'monet', 'brushstroke', 'brushstrokes'],
+    style: { blendingMode: 'source-over', shape: ParticleShape.LINE, flowFieldStrength: 3.5, samplingChannel: 'luminance' }
+  },
+  {
+    words: ['watercolor', 'watercolour', 'wash', 'bleed'],
+    style: { blendingMode: 'source-over', trailEffect: 0.05, particleSizeMax: 16, fluidCoupling: 0.3, colorMode: 'tint' }
+  },
+  {
+    words: ['smoke', 'mist', 'fog', 'haze', 'vapor', 'vapour', 'liquid', 'fluid', 'flowing'],
+    style: { fluidCoupling: 0.5, fluidViscosity: 0.05, fluidVorticity: 2.5, trailEffect: 0.08 }
+  },
+  {
+    words: ['ocean', 'sea', 'water', 'underwater', 'wave', 'waves', 'rain', 'river', 'tide'],
+    palette: ['#020617', '#0c4a6e', '#0369a1', '#38bdf8', '#e0f2fe'],
+    style: { fluidCoupling: 0.45, fluidViscosity: 0.2, interactionMode: 'paint' }
+  },
+  {
+    words: ['fire', 'flame', 'flames', 'lava', 'inferno', 'ember', 'embers', 'volcano'],
+    palette: ['#1c0500', '#7f1d1d', '#ea580c', '#f59e0b', '#fde68a'],
+    style: { blendingMode: 'lighter', interactionMode: 'repel', noiseStrength: 4, fluidCoupling: 0.3, fluidVorticity: 3 }
+  },
+  {
+    words: ['ice', 'frost', 'snow', 'winter', 'frozen', 'glacier', 'arctic'],
+    palette: ['#0f172a', '#7dd3fc', '#bae6fd', '#e0f2fe', '#ffffff'],
+    style: { friction: 0.95, noiseStrength: 1, interactionMode: 'attract' }
+  },
+  {
+    words: ['forest', 'jungle', 'moss', 'leaf', 'leaves', 'nature', 'garden'],
+    palette: ['#052e16', '#166534', '#4d7c0f', '#a3e635', '#fef9c3'],
+    style: { interactionMode: 'attract', flowFieldStrength: 2 }
+  },
+  {
+    words: ['sunset', 'dusk', 'sunrise', 'dawn', 'golden'],
+    palette: ['#1e1b4b', '#9d174d', '#f43f5e', '#fb923c', '#fde68a'],
+    style: { colorMode: 'gradient' }
+  },
+  {
+    words: ['space', 'galaxy', 'cosmic', 'cosmos', 'nebula', 'star', 'stars', 'starry', 'universe'],
+    palette: ['#020617', '#312e81', '#7e22ce', '#f0abfc', '#ffffff'],
+    style: { blendingMode: 'lighter', interactionMode: 'gravity', particleSizeMin: 0.8 }
+  },
+  {
+    words: ['matrix', 'hacker', 'terminal'],
+    palette: ['#000000', '#14532d', '#16a34a', '#86efac'],
+    style: { shape: ParticleShape.GLYPH, glyphRamp: '01', colorMode: 'stepped', density: 12 }
+  },
+  {
+    words: ['ascii', 'text', 'letters', 'typewriter', 'typography'],
+    style: { shape: ParticleShape.GLYPH, glyphRamp: DEFAULT_GLYPH_RAMP, density: 10, colorMode: 'stepped' }
+  },
+  {
+    words: ['pixel', 'pixels', 'pixelated', 'mosaic', 'retro', 'lego', '8bit'],
+    style: { shape: ParticleShape.SQUARE, colorMode: 'stepped', noiseStrength: 0, flowFieldStrength: 0, density: 12 }
+  },
+  {
+    words: ['sketch', 'pencil', 'drawing', 'lineart', 'outline', 'charcoal', 'blueprint'],
+    style: { samplingChannel: 'edges', shape: ParticleShape.LINE, blendingMode: 'source-over', colorMode: 'stepped' }
+  },
+  {
+    words: ['network', 'web', 'constellation', 'constellations', 'neural', 'connected', 'plexus'],
+    style: { connectionDistance: 50 }
+  },
+  {
+    words: ['honeycomb', 'hexagon', 'hexagons', 'hive', 'tiles'],
+    style: { shape: ParticleShape.HEXAGON }
+  },
+  {
+    words: ['crystal', 'crystals', 'shard', 'shards', 'geometric', 'triangles', 'low-poly'],
+    style: { shape: ParticleShape.TRIANGLE }
+  },
+  {
+    words: ['xray', 'negative', 'ghost', 'ghostly', 'inverted', 'spectral'],
+    style: { samplingChannel: 'inverted' }
+  },
+  {
+    words: ['rainbow', 'psychedelic', 'prism', 'spectrum', 'trippy', 'iridescent'],
+    palette: ['#ef4444', '#f59e0b', '#facc15', '#22c55e', '#3b82f6', '#a855f7'],
+    style: { samplingChannel: 'hue', colorMode: 'gradient' }
+  },
+  {
+    words: ['photo', 'photographic', 'realistic', 'pointillism', 'pointillist', 'seurat'],
+    style: { colorMode: 'source', shape: ParticleShape.CIRCLE, density: 6 }
+  },
+  {
+    words: ['vortex', 'whirlpool', 'swirl', 'swirling', 'tornado', 'spiral', 'hurricane'],
+    style: { interactionMode: 'vortex', fluidVorticity: 4 }
+  }
+];
+
+// energy: -1 (still) to 1 (frantic); light: -1 (dark palette) to 1 (bright palette)
+interface Mood {
+  words: string[];
+  energy: number;
+  light: number;
+}
+
+const MOODS: Mood[] = [
+  { words: ['calm', 'serene', 'peaceful', 'gentle', 'soft', 'quiet', 'zen', 'tranquil', 'still'], energy: -0.7, light: 0 },
+  { words: ['dreamy', 'ethereal', 'floating', 'slow', 'lazy', 'hazy'], energy: -0.4, light: 0.2 },
+  { words: ['chaotic', 'wild', 'angry', 'rage', 'explosive', 'frantic', 'violent', 'aggressive'], energy: 0.9, light: 0 },
+  { words: ['energetic', 'storm', 'stormy', 'intense', 'dynamic', 'fast', 'electric'], energy: 0.6, light: 0 },
+  { words: ['dark', 'gloomy', 'moody', 'noir', 'shadow', 'shadows', 'haunted', 'night', 'midnight', 'gothic'], energy: 0, light: -0.6 },
+  { words: ['sad', 'melancholy', 'lonely', 'somber', 'sombre'], energy: -0.4, light: -0.4 },
+  { words: ['bright', 'happy', 'joyful', 'cheerful', 'sunny', 'vibrant', 'playful'], energy: 0.3, light: 0.5 },
+  { words: ['pastel', 'pale', 'faded', 'washed'], energy: -0.2, light: 0.7 }
+];
+
+// Relative edits for refinement. `amount` is negative after "less" and scaled by "much" / "slightly".
+interface Edit {
+  words: string[];
+  apply: (style: ArtStyleConfig, amount: number) => ArtStyleConfig;
+}
+
+const EDITS: Edit[] = [
+  { words: ['warm', 'warmer', 'warmth'], apply: (s, a) => ({ ...s, colors: tintPalette(s.colors, a) }) },
+  { words: ['cool', 'cooler', 'cold', 'colder'], apply: (s, a) => ({ ...s, colors: tintPalette(s.colors, -a) }) },
+  { words: ['bright', 'brighter', 'lighter'], apply: (s, a) => ({ ...s, colors: s.colors.map(c => shiftLightness(c, 0.1 * a)) }) },
+  { words: ['dark', 'darker', 'dim', 'dimmer'], apply: (s, a) => ({ ...s, colors: s.colors.map(c => shiftLightness(c, -0.1 * a)) }) },
+  { words: ['vivid', 'saturated', 'colorful', 'colourful', 'punchier'], apply: (s, a) => ({ ...s, colors: saturatePalette(s.colors, Math.pow(1.3, a)) }) },
+  { words: ['muted', 'desaturated', 'dull', 'duller', 'subtle', 'greyer', 'grayer'], apply: (s, a) => ({ ...s, colors: saturatePalette(s.colors, Math.pow(1.3, -a)) }) },
+  { words: ['slow', 'slower', 'calm', 'calmer', 'gentle', 'gentler', 'still', 'stiller'], apply: (s, a) => applyEnergy(s, -0.5 * a) },
+  { words: ['fast', 'faster', 'wild', 'wilder', 'chaotic', 'energetic', 'livelier'], apply: (s, a) => applyEnergy(s, 0.5 * a) },
+  { words: ['abstract', 'sparse', 'sparser', 'simpler', 'minimal', 'minimalist'], apply: (s, a) => ({ ...s, density: s.density + 3 * a }) },
+  { words: ['detail', 'detailed', 'dense', 'denser', 'sharper'], apply: (s, a) => ({ ...s, density: s.density - 3 * a }) },
+  {
+    words: ['big', 'bigger', 'large', 'larger', 'chunkier', 'bolder'],
+    apply: (s, a) => ({ ...s, particleSizeMin: s.particleSizeMin * Math.pow(1.35, a), particleSizeMax: s.particleSizeMax * Math.pow(1.35, a) })
+  },
+  {
+    words: ['small', 'smaller', 'tinier', 'finer', 'thinner', 'delicate'],
+    apply: (s, a) => ({ ...s, particleSizeMin: s.particleSizeMin * Math.pow(1.35, -a), particleSizeMax: s.particleSizeMax * Math.pow(1.35, -a) })
+  },
+  // trailEffect is how much of the last frame is cleared, so longer trails lower it
+  { words: ['trail', 'trails', 'trailing', 'smear', 'smeary', 'ghosting', 'longer'], apply: (s, a) => ({ ...s, trailEffect: s.trailEffect * Math.pow(0.6, a) }) },
+  {
+    words: ['swirl', 'swirly', 'swirlier', 'turbulent', 'curly'],
+    apply: (s, a) => ({ ...s, noiseStrength: s.noiseStrength * Math.pow(1.4, a), fluidVorticity: s.fluidVorticity + a })
+  },
+  { words: ['connections', 'lines', 'linked'], apply: (s, a) => ({ ...s, connectionDistance: s.connectionDistance + 25 * a }) }
+];
+
+const STRONG_WORDS = ['much', 'lot', 'way', 'far', 'really', 'very'];
+const WEAK_WORDS = ['slightly', 'bit', 'little', 'touch', 'tad', 'somewhat'];
+
+// Poetic names the CSS list in color.ts doesn't know; those are looked up there as well.
+const COLOR_WORDS: Record<string, string> = {
+  scarlet: '#ff2400', ruby: '#9b111e', rose: '#f43f5e', blush: '#fbcfe8', peach: '#ffcba4',
+  amber: '#ffbf00', ochre: '#cc7722', rust: '#b7410e', copper: '#b87333', bronze: '#cd7f32',
+  sand: '#e2c799', ivory: '#fffff0', cream: '#fffdd0', mint: '#98ff98', jade: '#00a86b',
+  emerald: '#50c878', sage: '#9caf88', azure: '#007fff', cobalt: '#0047ab', sapphire: '#0f52ba',
+  ultramarine: '#3f00ff', lilac: '#c8a2c8', amethyst: '#9966cc', ebony: '#0c0c0c', charcoal: '#36454f',
+  obsidian: '#0b0b12', pearl: '#eae0c8'
+};
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'in', 'on', 'with', 'like', 'style', 'styled', 'inspired', 'by',
+  'to', 'for', 'at', 'from', 'into', 'my', 'me', 'some', 'very', 'that', 'this', 'is', 'are', 'make', 'it'
+]);
+
+const FALLBACK_NAME_WORDS = ['Drift', 'Bloom', 'Echo', 'Pulse', 'Veil', 'Current', 'Murmur', 'Shimmer'];
+
+const MAX_NAME_WORDS = 3;
+const PALETTE_SIZE = 5;
+// Refinements separate the original name from the edits with this
+const NAME_SEPARATOR = ' · ';
+
+// FNV-1a: cheap, stable across sessions and browsers
+const hashString = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const normalizePrompt = (prompt: string) => prompt.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const colorForWord = (word: string) => COLOR_WORDS[word] ?? toHex(word);
+
+// OKLCh → hex; out-of-gamut channels are simply clipped
+const lch = (L: number, C: number, hue: number) => {
+  const h = (hue * Math.PI) / 180;
+  const [r, g, b] = oklabToRgb([L, C * Math.cos(h), C * Math.sin(h)]);
+  return rgbToHex(r, g, b);
+};
+
+const shiftLightness = (hex: string, delta: number) => {
+  const [r, g, b] = parseColor(hex);
+  const [L, A, B] = rgbToOklab(r, g, b);
+  const [nr, ng, nb] = oklabToRgb([Math.min(1, Math.max(0, L + delta)), A, B]);
+  return rgbToHex(nr, ng, nb);
+};
+
+const saturatePalette = (colors: string[], factor: number) => colors.map(hex => {
+  const [r, g, b] = parseColor(hex);
+  const [L, A, B] = rgbToOklab(r, g, b);
+  const [nr, ng, nb] = oklabToRgb([L, A * factor, B * factor]);
+  return rgbToHex(nr, ng, nb);
+});
+
+const rotatePalette = (colors: string[], degrees: number) => {
+  const cos = Math.cos((degrees * Math.PI) / 180);
+  const sin = Math.sin((degrees * Math.PI) / 180);
+  return colors.map(hex => {
+    const [r, g, b] = parseColor(hex);
+    const [L, A, B] = rgbToOklab(r, g, b);
+    const [nr, ng, nb] = oklabToRgb([L, A * cos - B * sin, A * sin + B * cos]);
+    return rgbToHex(nr, ng, nb);
+  });
+};
+
+// Positive amounts lean the palette towards amber, negative towards sky blue
+const tintPalette = (colors: string[], amount: number) => {
+  const target = amount >= 0 ? '#ff9a3c' : '#3c9aff';
+  const t = Math.min(0.6, 0.2 * Math.abs(amount));
+  return colors.map(c => mixOklab(c, target, t));
+};
+
+// energy -1 (still) to 1 (frantic) scales how lively the particles are
+const applyEnergy = (style: ArtStyleConfig, energy: number): ArtStyleConfig => {
+  const scale = 1 + energy * 0.6;
+  return {
+    ...style,
+    speed: style.speed * scale,
+    noiseStrength: style.noiseStrength * (1 + energy),
+    interactionStrength: style.interactionStrength * scale,
+    motionStrength: style.motionStrength * scale,
+    friction: Math.min(0.97, Math.max(0.8, style.friction - energy * 0.04))
+  };
+};
+
+// Edits and jitter can push a field past its range; pull it back quietly rather than warn
+const clampToRanges = (style: ArtStyleConfig): ArtStyleConfig => {
+  const clamped = { ...style };
+  for (const field of Object.keys(STYLE_RANGES) as NumericStyleField[]) {
+    const { min, max } = STYLE_RANGES[field];
+    clamped[field] = Math.min(max, Math.max(min, clamped[field]));
+  }
+  return clamped;
+};
+
+// Dark to light around one hue, with the others offset by a scheme picked from the seed
+const randomPalette = (random: RandomFn) => {
+  const base = random() * 360;
+  const schemes = [[0, 20, 40], [0, 180, 200], [0, 120, 240], [0, -30, 30]];
+  const offsets = schemes[Math.floor(random() * schemes.length)];
+  return Array.from({ length: PALETTE_SIZE }, (_, i) => {
+    const t = i / (PALETTE_SIZE - 1);
+    return lch(0.25 + 0.7 * t, 0.06 + 0.1 * Math.sin(Math.PI * t), base + offsets[i % offsets.length]);
+  });
+};
+
+// A single named colour becomes a ramp through it; two or more are used as given
+const paletteFromColors = (colors: string[]) => {
+  if (colors.length === 1) {
+    const [c] = colors;
+    return [mixOklab(c, '#000000', 0.7), mixOklab(c, '#000000', 0.35), c, mixOklab(c, '#ffffff', 0.4), mixOklab(c, '#ffffff', 0.8)];
+  }
+  if (colors.length === 2) return [mixOklab(colors[0], '#000000', 0.5), colors[0], colors[1], mixOklab(colors[1], '#ffffff', 0.5)];
+  return colors;
+};
+
+const titleCase = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+// Always takes exactly one draw, used or not, so the draws after it don't depend on the name
+const nameFor = (prompt: string, words: string[], random: RandomFn) => {
+  const filler = FALLBACK_NAME_WORDS[Math.floor(random() * FALLBACK_NAME_WORDS.length)];
+  const significant = words.filter(w => !STOP_WORDS.has(w)).slice(0, MAX_NAME_WORDS);
+  if (significant.length === 0) {
+    const text = prompt.trim();
+    // Prompts outside the Latin alphabet name the style as written
+    return text ? text.slice(0, 32) : filler;
+  }
+  const name = significant.map(titleCase).join(' ');
+  return significant.length === 1 ? `${name} ${filler}` : name;
+};
+
+const wordsOf = (normalized: string) => normalized.match(/[a-z0-9-]+/g) ?? [];
+
+const moodOf = (words: string[]) => {
+  let energy = 0;
+  let light = 0;
+  for (const word of words) {
+    const mood = MOODS.find(m => m.words.includes(word));
+    if (!mood) continue;
+    energy += mood.energy;
+    light += mood.light;
+  }
+  return { energy: Math.min(1, Math.max(-1, energy)), light: Math.min(1, Math.max(-1, light)) };
+};
+
+// Variant 0 is the prompt's own style; the others reseed for alternatives
+const randomFor = (normalized: string, variant: number) =>
+  createRandom(hashString(variant > 0 ? `${normalized}#${variant}` : normalized));
+
+export const deriveLocalStyle = (prompt: string, variant = 0): ArtStyleConfig => {
+  const normalized = normalizePrompt(prompt);
+  const random = randomFor(normalized, variant);
+  const between = (min: number, max: number) => min + random() * (max - min);
+  const pick = <T>(items: readonly T[]) => items[Math.floor(random() * items.length)];
+  const words = wordsOf(normalized);
+
+  // Everything is drawn up front, in a fixed order, so a lexicon hit doesn't shift later draws
+  const baseName = nameFor(prompt, words, random);
+  const name = variant > 0 ? `${baseName} #${variant + 1}` : baseName;
+  const particleSizeMin = between(1, 2.5);
+  let style: ArtStyleConfig = {
+    name,
+    description: `Generated locally from "${prompt.trim()}"`,
+    colors: randomPalette(random),
+    particleSizeMin,
+    particleSizeMax: particleSizeMin + between(3, 9),
+    density: Math.round(between(5, 11)),
+    speed: between(1, 2.5),
+    friction: between(0.86, 0.93),
+    shape: pick([ParticleShape.CIRCLE, ParticleShape.CIRCLE, ParticleShape.SQUARE, ParticleShape.LINE, ParticleShape.CROSS]),
+    blendingMode: random() < 0.5 ? 'lighter' : 'source-over',
+    connectionDistance: random() < 0.2 ? Math.round(between(20, 45)) : 0,
+    trailEffect: between(0.1, 0.3),
+    noiseStrength: between(0.5, 3),
+    flowFieldStrength: between(0.5, 2.5),
+    interactionMode: pick(['repel', 'attract', 'vortex', 'gravity', 'paint'] as const),
+    interactionRadius: Math.round(between(140, 300)),
+    interactionStrength: Math.round(between(20, 50)),
+    interactionFalloff: pick(['linear', 'smooth', 'quadratic'] as const),
+    motionStrength: between(0.5, 1.5),
+    samplingChannel: pick(['brightness', 'brightness', 'luminance'] as const),
+    colorMode: pick(['stepped', 'gradient'] as const),
+    glyphRamp: DEFAULT_GLYPH_RAMP,
+    glyphFont: DEFAULT_GLYPH_FONT,
+    fluidCoupling: 0,
+    fluidViscosity: 0.1,
+    fluidVorticity: 1
+  };
+  const hueShift = between(-40, 40);
+
+  // Themes in the order they appear in the prompt, so later words win
+  let themePalette: string[] | null = null;
+  for (const word of words) {
+    const theme = THEMES.find(t => t.words.includes(word));
+    if (!theme) continue;
+    style = { ...style, ...theme.style };
+    if (theme.palette) themePalette = theme.palette;
+  }
+
+  const { energy, light } = moodOf(words);
+  if (energy !== 0) style = applyEnergy(style, energy);
+
+  const named = words.map(colorForWord).filter((c): c is string => c !== null);
+  let colors = named.length > 0 ? paletteFromColors(named) : themePalette ?? style.colors;
+  // Alternatives to a themed or named palette turn it a little around the hue circle
+  if (variant > 0 && colors !== style.colors) colors = rotatePalette(colors, hueShift);
+  if (light !== 0) colors = colors.map(c => shiftLightness(c, light * 0.15));
+
+  return clampToRanges({ ...style, colors });
+};
+
+// How strongly the word at `index` applies, from the couple of words before it
+const amountAt = (words: string[], index: number) => {
+  const before = words.slice(Math.max(0, index - 2), index);
+  const sign = before.includes('less') ? -1 : 1;
+  const scale = before.some(w => STRONG_WORDS.includes(w)) ? 1.6 : before.some(w => WEAK_WORDS.includes(w)) ? 0.5 : 1;
+  return sign * scale;
+};
+
+export const refineLocalStyle = (base: ArtStyleConfig, prompt: string, variant = 0): ArtStyleConfig => {
+  const normalized = normalizePrompt(prompt);
+  const random = randomFor(normalized, variant);
+  const words = wordsOf(normalized);
+  let style: ArtStyleConfig = { ...base, colors: [...base.colors] };
+
+  const tints: string[] = [];
+  words.forEach((word, i) => {
+    const amount = amountAt(words, i);
+    const edit = EDITS.find(e => e.words.includes(word));
+    if (edit) {
+      style = edit.apply(style, amount);
+      return;
+    }
+    const theme = THEMES.find(t => t.words.includes(word));
+    if (theme) {
+      style = { ...style, ...theme.style, colors: theme.palette ?? style.colors };
+      return;
+    }
+    const color = colorForWord(word);
+    if (color && amount > 0) tints.push(color);
+  });
+  // "more red" leans the palette towards red rather than replacing it
+  for (const color of tints) style.colors = style.colors.map(c => mixOklab(c, color, 0.3));
+
+  // Alternatives wander a little around the same edit
+  if (variant > 0) {
+    const jitter = () => 0.8 + 0.4 * random();
+    style = {
+      ...style,
+      speed: style.speed * jitter(),
+      noiseStrength: style.noiseStrength * jitter(),
+      density: Math.round(style.density * jitter()),
+      particleSizeMax: style.particleSizeMax * jitter(),
+      trailEffect: style.trailEffect * jitter(),
+      colors: style.colors.map(c => shiftLightness(c, (random() - 0.5) * 0.08))
+    };
+  }
+
+  const root = base.name.split(NAME_SEPARATOR)[0];
+  const edits = words.filter(w => !STOP_WORDS.has(w) && !STRONG_WORDS.includes(w) && !WEAK_WORDS.includes(w)).slice(0, MAX_NAME_WORDS).map(titleCase).join(' ');
+  const name = edits ? `${root}${NAME_SEPARATOR}${edits}` : root;
+  return clampToRanges({ ...style, name: variant > 0 ? `${name} #${variant + 1}` : name });
+};
+
+export const createLocalStyleProvider = (): StyleProvider => ({
+  id: 'local',
+  label: 'Local',
+  generate: async ({ prompt, base, count = 1 }: StyleRequest) => Array.from({ length: count }, (_, variant) =>
+    validateStyle(base ? refineLocalStyle(base, prompt, variant) : deriveLocalStyle(prompt, variant))
+  )
+});
@@ -0,0 +1,309 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ArtStyleConfig } from '../types';
+import {
+  applyCc,
+  CcMapping,
+  ccValue,
+  createMidiController,
+  MidiAccessLike,
+  MidiInputLike,
+  MidiTarget,
+  parseMidiMessage
+} from './midi';
+import { validateStyle } from './styleValidation';
+import { StyleTransition } from './styleTransition';
+
+type Listener = (event: { data: Uint8Array | null }) => void;
+
+interface FakeInput extends MidiInputLike {
+  listeners: Set<Listener>;
+  send: (...bytes: number[]) => void;
+}
+
+const fakeInput = (id: string, name: string): FakeInput => {
+  const listeners = new Set<Listener>();
+  return {
+    id,
+    name,
+    manufacturer: 'Acme',
+    state: 'connected',
+    listeners,
+    addEventListener: (_type, listener) => { listeners.add(listener); },
+    removeEventListener: (_type, listener) => { listeners.delete(listener); },
+    send: (...bytes) => listeners.forEach(listener => listener({ data: new Uint8Array(bytes) }))
+  };
+};
+
+// A MIDIAccess whose inputs can be plugged in and out
+const fakeAccess = (...initial: FakeInput[]) => {
+  const inputs = new Map(initial.map(input => [input.id, input]));
+  const stateListeners = new Set<() => void>();
+  const access: MidiAccessLike = {
+    inputs,
+    addEventListener: (_type, listener) => { stateListeners.add(listener); },
+    removeEventListener: (_type, listener) => { stateListeners.delete(listener); }
+  };
+  const plug = (input: FakeInput) => {
+    inputs.set(input.id, input);
+    stateListeners.forEach(listener => listener());
+  };
+  const unplug = (id: string) => {
+    inputs.delete(id);
+    stateListeners.forEach(listener => listener());
+  };
+  return { access, plug, unplug };
+};
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); }
+  } as unknown as Storage;
+};
+
+const style = (name: string, patch: Partial<ArtStyleConfig> = {}) => validateStyle({ name, colors: ['#000000'], ...patch }).style;
+
+const cc = (controller: number, value: number, channel = 0) => [0xb0 | channel, controller, value];
+const noteOn = (note: number, channel = 0) => [0x90 | channel, note, 100];
+
+describe('parseMidiMessage', () => {
+  it('reads control changes and note-ons, ignoring note-offs', () => {
+    expect(parseMidiMessage([0xb3, 21, 64])).toEqual({ type: 'cc', channel: 3, controller: 21, value: 64 });
+    expect(parseMidiMessage([0x90, 60, 100])).toEqual({ type: 'noteOn', channel: 0, note: 60, velocity: 100 });
+    expect(parseMidiMessage([0x90, 60, 0])).toBeNull();
+    expect(parseMidiMessage([0x80, 60, 0])).toBeNull();
+    expect(parseMidiMessage([0xf8])).toBeNull();
+  });
+});
+
+describe('CC scaling', () => {
+  const mapping: CcMapping = { channel: 0, controller: 1, field: 'speed', min: 1, max: 3, curve: 'linear' };
+
+  it('maps 0-127 onto min-max', () => {
+    expect(ccValue(mapping, 0)).toBe(1);
+    expect(ccValue(mapping, 127)).toBe(3);
+    expect(ccValue({ ...mapping, min: 3, max: 1 }, 127)).toBe(1);
+  });
+
+  it('bends the middle of the travel with the curve', () => {
+    expect(ccValue({ ...mapping, curve: 'easeIn' }, 64)).toBeLessThan(ccValue(mapping, 64));
+    expect(ccValue({ ...mapping, curve: 'easeOut' }, 64)).toBeGreaterThan(ccValue(mapping, 64));
+    expect(ccValue({ ...mapping, curve: 'easeIn' }, 127)).toBe(3);
+  });
+
+  it('sweeps through the options of an option field', () => {
+    const shape: CcMapping = { channel: 0, controller: 1, field: 'blendingMode', min: 0, max: 1, curve: 'linear' };
+    expect(applyCc(style('A'), shape, 0).blendingMode).toBe('source-over');
+    expect(applyCc(style('A'), shape, 127).blendingMode).toBe('lighter');
+  });
+
+  it('keeps numbers in range and size min below max', () => {
+    expect(applyCc(style('A'), { ...mapping, min: -2, max: 10 }, 0).speed).toBe(0);
+    expect(applyCc(style('A'), { ...mapping, min: -2, max: 10 }, 127).speed).toBe(5);
+    const sizeMin: CcMapping = { ...mapping, field: 'particleSizeMin', min: 1, max: 20 };
+    expect(applyCc({ ...style('A'), particleSizeMax: 6 }, sizeMin, 127)).toMatchObject({ particleSizeMin: 20, particleSizeMax: 20 });
+    const sizeMax: CcMapping = { ...mapping, field: 'particleSizeMax', min: 1, max: 40 };
+    expect(applyCc({ ...style('A'), particleSizeMin: 4 }, sizeMax, 0)).toMatchObject({ particleSizeMin: 1, particleSizeMax: 1 });
+  });
+});
+
+describe('createMidiController', () => {
+  let current: ArtStyleConfig;
+  let changes: { style: ArtStyleConfig; transition?: StyleTransition }[];
+  let queued: (() => void)[];
+  let storage: Storage;
+  const presets = [style('One'), style('Two'), style('Three')];
+
+  const target: MidiTarget = {
+    getStyle: () => current,
+    getPresets: () => presets,
+    onStyleChange: (next, transition) => {
+      current = next;
+      changes.push({ style: next, transition });
+    }
+  };
+
+  const create = (access: MidiAccessLike, to: MidiTarget = target) =>
+    createMidiController(access, to, { storage, schedule: (flush) => { queued.push(flush); } });
+
+  const flush = () => queued.splice(0).forEach(run => run());
+
+  beforeEach(() => {
+    current = style('Start', { speed: 1 });
+    changes = [];
+    queued = [];
+    storage = memoryStorage();
+  });
+
+  it('lists connected inputs and selects the first', () => {
+    const { access } = fakeAccess(fakeInput('a', 'Knobs'), fakeInput('b', 'Pads'));
+    const midi = create(access);
+    expect(midi.getState().devices).toEqual([{ id: 'a', key: 'Acme Knobs' }, { id: 'b', key: 'Acme Pads' }]);
+    expect(midi.getState().deviceId).toBe('a');
+  });
+
+  it('binds a knob to the picked field and drives it over the full range', () => {
+    const knobs = fakeInput('a', 'Knobs');
+    const midi = create(fakeAccess(knobs).access);
+    midi.learn({ kind: 'field', field: null });
+    midi.pickField('speed');
+    knobs.send(...cc(21, 10));
+    expect(midi.getState().mappings.cc).toEqual([{ channel: 0, controller: 21, field: 'speed', min: 0, max: 5, curve: 'linear' }]);
+    expect(midi.getState().learning).toEqual({ kind: 'field', field: null });
+    // The binding move itself doesn't change anything
+    flush();
+    expect(changes).toEqual([]);
+
+    knobs.send(...cc(21, 127));
+    flush();
+    expect(current.speed).toBe(5);
+    expect(changes[0].transition?.durationMs).toBe(0);
+  });
+
+  it('applies the edited range and curve', () => {
+    const knobs = fakeInput('a', 'Knobs');
+    const midi = create(fakeAccess(knobs).access);
+    midi.learn({ kind: 'field', field: 'speed' });
+    knobs.send(...cc(21, 0));
+    midi.updateCc(0, { min: 2, max: 4, curve: 'easeIn' });
+    knobs.send(...cc(21, 0));
+    flush();
+    expect(current.speed).toBe(2);
+    knobs.send(...cc(21, 64));
+    flush();
+    expect(current.speed).toBeGreaterThan(2);
+    expect(current.speed).toBeLessThan(3);
+  });
+
+  it('folds a burst of knob moves into one style change per flush', () => {
+    const knobs = fakeInput('a', 'Knobs');
+    const midi = create(fakeAccess(knobs).access);
+    midi.learn({ kind: 'field', field: 'speed' });
+    knobs.send(...cc(21, 0));
+    midi.pickField('noiseStrength');
+    knobs.send(...cc(22, 0));
+    for (let v = 0; v <= 127; v += 8) knobs.send(...cc(21, v));
+    knobs.send(...cc(22, 127));
+    knobs.send(...cc(21, 127));
+    flush();
+    expect(changes).toHaveLength(1);
+    expect(current.speed).toBe(5);
+    expect(current.noiseStrength).toBe(10);
+  });
+
+  it('hands knob moves to onLiveEdit when there is one', () => {
+    const knobs = fakeInput('a', 'Knobs');
+    const edits: string[] = [];
+    const midi = create(fakeAccess(knobs).access, {
+      ...target,
+      onLiveEdit: (apply, key) => {
+        edits.push(key);
+        current = apply(current);
+      }
+    });
+    midi.learn({ kind: 'field', field: 'speed' });
+    knobs.send(...cc(21, 0));
+    knobs.send(...cc(21, 127));
+    flush();
+    expect(edits).toEqual(['midi:speed']);
+    expect(current.speed).toBe(5);
+    expect(changes).toEqual([]);
+  });
+
+  it('binds a note without firing it, then runs its action', () => {
+    const pads = fakeInput('a', 'Pads');
+    const midi = create(fakeAccess(pads).access);
+    midi.learn({ kind: 'note', action: { kind: 'preset', name: 'Two' } });
+    pads.send(...noteOn(36));
+    expect(midi.getState().learning).toBeNull();
+    expect(midi.getState().mappings.notes).toEqual([{ channel: 0, note: 36, action: { kind: 'preset', name: 'Two' } }]);
+    expect(changes).toEqual([]);
+
+    pads.send(...noteOn(36));
+    expect(current.name).toBe('Two');
+    expect(changes[0].transition?.durationMs).toBeGreaterThan(0);
+  });
+
+  it('steps through presets and recalls snapshots', () => {
+    const pads = fakeInput('a', 'Pads');
+    const midi = create(fakeAccess(pads).access);
+    midi.learn({ kind: 'note', action: { kind: 'nextPreset' } });
+    pads.send(...noteOn(36));
+    midi.learn({ kind: 'note', action: { kind: 'previousPreset' } });
+    pads.send(...noteOn(37));
+    const snapshot = style('Snapshot', { speed: 4 });
+    midi.learn({ kind: 'note', action: { kind: 'snapshot', style: snapshot } });
+    pads.send(...noteOn(38));
+
+    // A style that isn't a preset counts as the first one
+    pads.send(...noteOn(36));
+    expect(current.name).toBe('Two');
+    pads.send(...noteOn(36));
+    pads.send(...noteOn(36));
+    expect(current.name).toBe('One');
+    pads.send(...noteOn(37));
+    expect(current.name).toBe('Three');
+    pads.send(...noteOn(38));
+    expect(current).toEqual(snapshot);
+  });
+
+  it('only learns from the selected device', () => {
+    const knobs = fakeInput('a', 'Knobs');
+    const pads = fakeInput('b', 'Pads');
+    const midi = create(fakeAccess(knobs, pads).access);
+    midi.learn({ kind: 'field', field: 'speed' });
+    pads.send(...cc(21, 0));
+    expect(midi.getState().mappings.cc).toEqual([]);
+    knobs.send(...cc(21, 0));
+    expect(midi.getState().mappings.cc).toHaveLength(1);
+  });
+
+  it('keeps mappings per device and restores them from storage', () => {
+    const knobs = fakeInput('a', 'Knobs');
+    const pads = fakeInput('b', 'Pads');
+    const midi = create(fakeAccess(knobs, pads).access);
+    midi.learn({ kind: 'field', field: 'speed' });
+    knobs.send(...cc(21, 0));
+    midi.selectDevice('b');
+    expect(midi.getState().mappings.cc).toEqual([]);
+    midi.learn({ kind: 'note', action: { kind: 'nextPreset' } });
+    pads.send(...noteOn(40));
+
+    // The pads have no knob mapping, so CC 21 from them does nothing
+    pads.send(...cc(21, 127));
+    flush();
+    expect(changes).toEqual([]);
+    midi.dispose();
+
+    // Port ids change between sessions; the device name is what's matched
+    const again = create(fakeAccess(fakeInput('x', 'Knobs'), fakeInput('y', 'Pads')).access);
+    expect(again.getState().mappings.cc.map(m => m.field)).toEqual(['speed']);
+    again.selectDevice('y');
+    expect(again.getState().mappings.notes.map(m => m.note)).toEqual([40]);
+  });
+
+  it('follows devices being plugged in and out', () => {
+    const knobs = fakeInput('a', 'Knobs');
+    const { access, plug, unplug } = fakeAccess();
+    const midi = create(access);
+    expect(midi.getState().deviceId).toBeNull();
+    plug(knobs);
+    expect(midi.getState().deviceId).toBe('a');
+    expect(knobs.listeners.size).toBe(1);
+    unplug('a');
+    expect(midi.getState().devices).toEqual([]);
+    expect(knobs.listeners.size).toBe(0);
+  });
+
+  it('removes mappings and lets go of inputs on dispose', () => {
+    const knobs = fakeInput('a', 'Knobs');
+    const midi = create(fakeAccess(knobs).access);
+    midi.learn({ kind: 'field', field: 'speed' });
+    knobs.send(...cc(21, 0));
+    midi.removeCc(0);
+    expect(midi.getState().mappings.cc).toEqual([]);
+    midi.dispose();
+    expect(knobs.listeners.size).toBe(0);
+  });
+});
@@ -0,0 +1,428 @@
+import { ArtStyleConfig, ParticleShape } from '../types';
+import {
+  BLENDING_MODES,
+  COLOR_MODES,
+  INTERACTION_FALLOFFS,
+  INTERACTION_MODES,
+  NumericStyleField,
+  SAMPLING_CHANNELS,
+  STYLE_RANGES,
+  validateStyle
+} from './styleValidation';
+import { DEFAULT_TRANSITION, EASINGS, EasingName, INSTANT, StyleTransition } from './styleTransition';
+
+/**
+ * Hardware control over Web MIDI. CC knobs drive style fields through a range and curve, notes
+ * switch presets or recall snapshots, and bindings are made by MIDI learn: pick a field, move a
+ * knob. Mappings are stored per device. Everything talks to the small `MidiAccessLike` surface
+ * rather than the browser API, so a mocked access can stand in for real hardware.
+ */
+
+export type OptionStyleField = 'shape' | 'blendingMode' | 'interactionMode' | 'interactionFalloff' | 'samplingChannel' | 'colorMode';
+export type MidiField = NumericStyleField | OptionStyleField;
+
+// A knob on an option field sweeps through the options in this order
+export const MIDI_OPTION_FIELDS: Record<OptionStyleField, readonly string[]> = {
+  shape: Object.values(ParticleShape),
+  blendingMode: BLENDING_MODES,
+  interactionMode: INTERACTION_MODES,
+  interactionFalloff: INTERACTION_FALLOFFS,
+  samplingChannel: SAMPLING_CHANNELS,
+  colorMode: COLOR_MODES
+};
+
+export const isOptionField = (field: MidiField): field is OptionStyleField => field in MIDI_OPTION_FIELDS;
+
+const isMidiField = (value: unknown): value is MidiField =>
+  typeof value === 'string' && (value in STYLE_RANGES || value in MIDI_OPTION_FIELDS);
+
+// What a knob covers until the user narrows it: the field's whole range, or every option (by index)
+export const fieldSpan = (field: MidiField) =>
+  isOptionField(field) ? { min: 0, max: MIDI_OPTION_FIELDS[field].length - 1 } : { min: STYLE_RANGES[field].min, max: STYLE_RANGES[field].max };
+
+export interface CcMapping {
+  channel: number;     // 0-15
+  controller: number;  // 0-127
+  field: MidiField;
+  min: number;         // field value at CC 0; may be above `max` to turn the knob around
+  max: number;         // field value at CC 127
+  curve: EasingName;
+}
+
+export type NoteAction =
+  | { kind: 'preset'; name: string }
+  | { kind: 'nextPreset' }
+  | { kind: 'previousPreset' }
+  | { kind: 'snapshot'; style: ArtStyleConfig };
+
+export interface NoteMapping {
+  channel: number;
+  note: number;
+  action: NoteAction;
+}
+
+export interface MidiMappings {
+  cc: CcMapping[];
+  notes: NoteMapping[];
+}
+
+export type MidiMessage =
+  | { type: 'cc'; channel: number; controller: number; value: number }
+  | { type: 'noteOn'; channel: number; note: number; velocity: number };
+
+const CONTROL_CHANGE = 0xb0;
+const NOTE_ON = 0x90;
+
+export const parseMidiMessage = (data: ArrayLike<number>): MidiMessage | null => {
+  if (data.length < 3) return null;
+  const status = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+  if (status === CONTROL_CHANGE) return { type: 'cc', channel, controller: data[1], value: data[2] };
+  // Note-on at velocity 0 is a note-off by convention
+  if (status === NOTE_ON && data[2] > 0) return { type: 'noteOn', channel, note: data[1], velocity: data[2] };
+  return null;
+};
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Middle C (60) is C4
+export const noteName = (note: number) => `${NOTE_NAMES[note % 12]}${Math.floor(note / 12) - 1}`;
+
+export const describeCc = (m: { channel: number; controller: number }) => `CC ${m.controller} · ch ${m.channel + 1}`;
+export const describeNote = (m: { channel: number; note: number }) => `${noteName(m.note)} · ch ${m.channel + 1}`;
+
+export const ccValue = (mapping: CcMapping, value: number) => {
+  const t = EASINGS[mapping.curve](Math.min(1, Math.max(0, value / 127)));
+  return mapping.min + (mapping.max - mapping.min) * t;
+};
+
+// Numbers stay in their STYLE_RANGES, and size min and max push each other along as in the editor
+export const applyCc = (style: ArtStyleConfig, mapping: CcMapping, value: number): ArtStyleConfig => {
+  const target = ccValue(mapping, value);
+  if (!isOptionField(mapping.field)) {
+    const { min, max } = STYLE_RANGES[mapping.field];
+    const clamped = Math.min(max, Math.max(min, target));
+    if (mapping.field === 'particleSizeMin') return { ...style, particleSizeMin: clamped, particleSizeMax: Math.max(clamped, style.particleSizeMax) };
+    if (mapping.field === 'particleSizeMax') return { ...style, particleSizeMax: clamped, particleSizeMin: Math.min(clamped, style.particleSizeMin) };
+    return { ...style, [mapping.field]: clamped };
+  }
+  const options = MIDI_OPTION_FIELDS[mapping.field];
+  const index = Math.min(options.length - 1, Math.max(0, Math.round(target)));
+  return { ...style, [mapping.field]: options[index] } as ArtStyleConfig;
+};
+
+// The knob bound to each field, for marking bound controls
+export const boundFields = (mappings: MidiMappings) => {
+  const bound: Partial<Record<MidiField, string>> = {};
+  mappings.cc.forEach(m => { bound[m.field] = describeCc(m); });
+  return bound;
+};
+
+// --- Persistence ---
+
+const STORAGE_KEY = 'artflow.midi.v1';
+const EMPTY_MAPPINGS: MidiMappings = { cc: [], notes: [] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isInt = (value: unknown, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max;
+
+const readCc = (value: unknown): CcMapping | null => {
+  if (!isRecord(value) || !isInt(value.channel, 15) || !isInt(value.controller, 127) || !isMidiField(value.field)) return null;
+  const span = fieldSpan(value.field);
+  return {
+    channel: value.channel,
+    controller: value.controller,
+    field: value.field,
+    min: typeof value.min === 'number' && Number.isFinite(value.min) ? value.min : span.min,
+    max: typeof value.max === 'number' && Number.isFinite(value.max) ? value.max : span.max,
+    curve: typeof value.curve === 'string' && value.curve in EASINGS ? value.curve as EasingName : 'linear'
+  };
+};
+
+const readAction = (value: unknown): NoteAction | null => {
+  if (!isRecord(value)) return null;
+  if (value.kind === 'nextPreset' || value.kind === 'previousPreset') return { kind: value.kind };
+  if (value.kind === 'preset' && typeof value.name === 'string') return { kind: 'preset', name: value.name };
+  if (value.kind === 'snapshot') return { kind: 'snapshot', style: validateStyle(value.style).style };
+  return null;
+};
+
+const readNote = (value: unknown): NoteMapping | null => {
+  if (!isRecord(value) || !isInt(value.channel, 15) || !isInt(value.note, 127)) return null;
+  const action = readAction(value.action);
+  return action && { channel: value.channel, note: value.note, action };
+};
+
+const readMappings = (value: unknown): MidiMappings => ({
+  cc: isRecord(value) && Array.isArray(value.cc) ? value.cc.map(readCc).filter((m): m is CcMapping => m !== null) : [],
+  notes: isRecord(value) && Array.isArray(value.notes) ? value.notes.map(readNote).filter((m): m is NoteMapping => m !== null) : []
+});
+
+const loadAll = (storage: Storage | null): Record<string, MidiMappings> => {
+  const raw = storage?.getItem(STORAGE_KEY);
+  if (!raw) return {};
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRecord(parsed)) return {};
+    return Object.fromEntries(Object.entries(parsed).map(([key, value]) => [key, readMappings(value)]));
+  } catch (err) {
+    console.error('MIDI mappings unreadable, starting empty:', err);
+    return {};
+  }
+};
+
+const defaultStorage = () => {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null;
+  }
+};
+
+// --- Access ---
+
+// The parts of MIDIInput and MIDIAccess used here; the browser's objects satisfy these
+export interface MidiInputLike {
+  id: string;
+  name: string | null;
+  manufacturer: string | null;
+  state: string;
+  addEventListener(type: 'midimessage', listener: (event: { data: Uint8Array | null }) => void): void;
+  removeEventListener(type: 'midimessage', listener: (event: { data: Uint8Array | null }) => void): void;
+}
+
+export interface MidiAccessLike {
+  inputs: { forEach(callback: (input: MidiInputLike) => void): void };
+  addEventListener(type: 'statechange', listener: () => void): void;
+  removeEventListener(type: 'statechange', listener: () => void): void;
+}
+
+export const requestMidiAccess = async (): Promise<MidiAccessLike> => {
+  if (typeof navigator === 'undefined' || !navigator.requestMIDIAccess) {
+    throw new Error('This browser has no Web MIDI (try Chrome or Edge)');
+  }
+  return navigator.requestMIDIAccess();
+};
+
+// Port ids can change between sessions; name and maker are what stay put
+export const deviceKey = (input: Pick<MidiInputLike, 'name' | 'manufacturer'>) =>
+  [input.manufacturer, input.name].filter(Boolean).join(' ') || 'Unknown device';
+
+// --- Controller ---
+
+export interface MidiDevice {
+  id: string;
+  key: string;
+}
+
+// 'field' with no field yet is waiting for a parameter to be clicked
+export type LearnTarget =
+  | { kind: 'field'; field: MidiField | null }
+  | { kind: 'note'; action: NoteAction };
+
+export interface MidiState {
+  devices: MidiDevice[];
+  deviceId: string | null;  // the device shown and learnt from; every device still plays its own mappings
+  mappings: MidiMappings;   // the selected device's
+  learning: LearnTarget | null;
+  error: string | null;
+}
+
+// A knob turn as an edit of the style being worked on. `key` groups a turn into one undo step.
+export type LiveEdit = (apply: (style: ArtStyleConfig) => ArtStyleConfig, key: string) => void;
+
+// Where MIDI changes go: the same path the on-screen controls use
+export interface MidiTarget {
+  getStyle: () => ArtStyleConfig;
+  getPresets: () => ArtStyleConfig[];
+  onStyleChange: (style: ArtStyleConfig, transition?: StyleTransition) => void;
+  // Knob moves go here when given, so an editor can keep them in its undo history; presets
+  // and snapshots always arrive through onStyleChange as a new style
+  onLiveEdit?: LiveEdit;
+}
+
+export interface MidiController {
+  // Stable between changes, so it can back useSyncExternalStore
+  getState: () => MidiState;
+  subscribe: (listener: () => void) => () => void;
+  selectDevice: (id: string) => void;
+  learn: (target: LearnTarget | null) => void;
+  pickField: (field: MidiField) => void;
+  updateCc: (index: number, patch: Partial<Pick<CcMapping, 'min' | 'max' | 'curve'>>) => void;
+  removeCc: (index: number) => void;
+  removeNote: (index: number) => void;
+  dispose: () => void;
+}
+
+interface MidiControllerOptions {
+  storage?: Storage | null;
+  // When queued knob moves are applied; once per frame by default
+  schedule?: (flush: () => void) => void;
+}
+
+export const createMidiController = (
+  access: MidiAccessLike,
+  target: MidiTarget,
+  { storage = defaultStorage(), schedule = (flush) => { requestAnimationFrame(flush); } }: MidiControllerOptions = {}
+): MidiController => {
+  const all = loadAll(storage);
+  const listeners = new Set<() => void>();
+  const attached = new Map<string, { input: MidiInputLike; onMessage: (event: { data: Uint8Array | null }) => void }>();
+  let state: MidiState = { devices: [], deviceId: null, mappings: EMPTY_MAPPINGS, learning: null, error: null };
+  // Knob moves since the last flush, latest per field; a busy controller sends far more than one per frame
+  const pending = new Map<MidiField, { mapping: CcMapping; value: number }>();
+  let scheduled = false;
+  let disposed = false;
+
+  const keyOf = (id: string | null) => state.devices.find(d => d.id === id)?.key ?? null;
+
+  const setState = (patch: Partial<MidiState>) => {
+    state = { ...state, ...patch };
+    if (patch.deviceId !== undefined) state.mappings = all[keyOf(state.deviceId) ?? ''] ?? EMPTY_MAPPINGS;
+    listeners.forEach(listener => listener());
+  };
+
+  const saveMappings = (key: string, mappings: MidiMappings) => {
+    all[key] = mappings;
+    let error: string | null = null;
+    try {
+      storage?.setItem(STORAGE_KEY, JSON.stringify(all));
+    } catch (err) {
+      error = `Mappings not saved: ${err instanceof Error ? err.message : String(err)}`;
+    }
+    setState({ error, mappings: all[keyOf(state.deviceId) ?? ''] ?? EMPTY_MAPPINGS });
+  };
+
+  const editSelected = (edit: (mappings: MidiMappings) => MidiMappings) => {
+    const key = keyOf(state.deviceId);
+    if (key) saveMappings(key, edit(all[key] ?? EMPTY_MAPPINGS));
+  };
+
+  const flush = () => {
+    scheduled = false;
+    if (disposed || pending.size === 0) return;
+    const moves = Array.from(pending.values());
+    pending.clear();
+    const apply = (style: ArtStyleConfig) => moves.reduce((s, { mapping, value }) => applyCc(s, mapping, value), style);
+    if (target.onLiveEdit) target.onLiveEdit(apply, `midi:${moves.map(m => m.mapping.field).join(',')}`);
+    else target.onStyleChange(apply(target.getStyle()), INSTANT);
+  };
+
+  const queueCc = (mapping: CcMapping, value: number) => {
+    pending.set(mapping.field, { mapping, value });
+    if (!scheduled) {
+      scheduled = true;
+      schedule(flush);
+    }
+  };
+
+  const stepPreset = (delta: number) => {
+    const presets = target.getPresets();
+    if (presets.length === 0) return;
+    const index = presets.findIndex(p => p.name === target.getStyle().name);
+    target.onStyleChange(presets[(Math.max(0, index) + delta + presets.length) % presets.length], DEFAULT_TRANSITION);
+  };
+
+  const runAction = (action: NoteAction) => {
+    if (action.kind === 'nextPreset') stepPreset(1);
+    else if (action.kind === 'previousPreset') stepPreset(-1);
+    else if (action.kind === 'snapshot') target.onStyleChange(action.style, DEFAULT_TRANSITION);
+    else {
+      const preset = target.getPresets().find(p => p.name === action.name);
+      if (preset) target.onStyleChange(preset, DEFAULT_TRANSITION);
+    }
+  };
+
+  // Learning only listens to the selected device, so a second controller can't steal the binding.
+  // True when the message made a binding.
+  const learnFrom = (input: MidiInputLike, message: MidiMessage) => {
+    const learning = state.learning;
+    if (!learning || input.id !== state.deviceId) return false;
+    const key = deviceKey(input);
+    const current = all[key] ?? EMPTY_MAPPINGS;
+    if (learning.kind === 'field' && learning.field && message.type === 'cc') {
+      const field = learning.field;
+      // One knob per field; a knob may still drive several fields
+      const mapping: CcMapping = { channel: message.channel, controller: message.controller, field, ...fieldSpan(field), curve: 'linear' };
+      saveMappings(key, { ...current, cc: [...current.cc.filter(m => m.field !== field), mapping] });
+      setState({ learning: { kind: 'field', field: null } });
+      return true;
+    } else if (learning.kind === 'note' && message.type === 'noteOn') {
+      const same = (m: NoteMapping) => m.channel === message.channel && m.note === message.note;
+      const mapping: NoteMapping = { channel: message.channel, note: message.note, action: learning.action };
+      saveMappings(key, { ...current, notes: [...current.notes.filter(m => !same(m)), mapping] });
+      setState({ learning: null });
+      return true;
+    }
+    return false;
+  };
+
+  const handleMessage = (input: MidiInputLike, data: Uint8Array | null) => {
+    const message = data && parseMidiMessage(data);
+    if (!message) return;
+    // Binding a pad shouldn't also fire it
+    if (learnFrom(input, message)) return;
+    const mappings = all[deviceKey(input)];
+    if (!mappings) return;
+    if (message.type === 'cc') {
+      mappings.cc
+        .filter(m => m.channel === message.channel && m.controller === message.controller)
+        .forEach(m => queueCc(m, message.value));
+    } else {
+      const mapping = mappings.notes.find(m => m.channel === message.channel && m.note === message.note);
+      if (mapping) runAction(mapping.action);
+    }
+  };
+
+  // Attach to new inputs and let go of unplugged ones
+  const refreshDevices = () => {
+    const devices: MidiDevice[] = [];
+    const seen = new Set<string>();
+    access.inputs.forEach(input => {
+      if (input.state === 'disconnected') return;
+      seen.add(input.id);
+      devices.push({ id: input.id, key: deviceKey(input) });
+      if (attached.has(input.id)) return;
+      const onMessage = (event: { data: Uint8Array | null }) => handleMessage(input, event.data);
+      input.addEventListener('midimessage', onMessage);
+      attached.set(input.id, { input, onMessage });
+    });
+    attached.forEach(({ input, onMessage }, id) => {
+      if (seen.has(id)) return;
+      input.removeEventListener('midimessage', onMessage);
+      attached.delete(id);
+    });
+    state = { ...state, devices };
+    const deviceId = devices.some(d => d.id === state.deviceId) ? state.deviceId : devices[0]?.id ?? null;
+    setState({ deviceId });
+  };
+
+  access.addEventListener('statechange', refreshDevices);
+  refreshDevices();
+
+  return {
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    selectDevice: (id) => setState({ deviceId: id, learning: null }),
+    learn: (learning) => setState({ learning }),
+    pickField: (field) => {
+      if (state.learning?.kind === 'field') setState({ learning: { kind: 'field', field } });
+    },
+    updateCc: (index, patch) => editSelected(m => ({ ...m, cc: m.cc.map((c, i) => (i === index ? { ...c, ...patch } : c)) })),
+    removeCc: (index) => editSelected(m => ({ ...m, cc: m.cc.filter((_, i) => i !== index) })),
+    removeNote: (index) => editSelected(m => ({ ...m, notes: m.notes.filter((_, i) => i !== index) })),
+    dispose: () => {
+      disposed = true;
+      access.removeEventListener('statechange', refreshDevices);
+      attached.forEach(({ input, onMessage }) => input.removeEventListener('midimessage', onMessage));
+      attached.clear();
+      listeners.clear();
+    }
+  };
+};
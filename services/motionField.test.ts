@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { createMotionEstimator } from './motionField';
+import { FrameData } from './particleEngine';
+
+// A bright square on black, `offset` pixels right of centre
+const makeFrame = (offset: number, size = 32): FrameData => {
+  const data = new Uint8ClampedArray(size * size * 4);
+  for (let y = 10; y < 22; y++) {
+    for (let x = 10 + offset; x < 22 + offset; x++) data.fill(255, (y * size + x) * 4, (y * size + x) * 4 + 3);
+  }
+  return { width: size, height: size, data };
+};
+
+describe('createMotionEstimator', () => {
+  it('needs two frames before it has a field', () => {
+    const estimator = createMotionEstimator();
+    expect(estimator.update(makeFrame(0))).toBeNull();
+    expect(estimator.update(makeFrame(1))).not.toBeNull();
+  });
+
+  it('sees a square moving right', () => {
+    const estimator = createMotionEstimator();
+    estimator.update(makeFrame(0));
+    const field = estimator.update(makeFrame(1))!;
+    const total = Array.from(field.vx).reduce((sum, v) => sum + v, 0);
+    expect(total).toBeGreaterThan(0);
+  });
+
+  it('comes back after a reset', () => {
+    const estimator = createMotionEstimator();
+    estimator.update(makeFrame(0));
+    estimator.update(makeFrame(1));
+    estimator.reset();
+    expect(estimator.update(makeFrame(2))).toBeNull();
+    expect(estimator.update(makeFrame(3))).not.toBeNull();
+  });
+});
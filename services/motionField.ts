@@ -0,0 +1,114 @@
+import { FrameData } from './particleEngine';
+
+/**
+ * Coarse optical flow between consecutive sampled frames. Frame differencing finds the blocks
+ * where something moved; a per-block Lucas–Kanade solve estimates which way. The result is a
+ * small grid of velocities (sample pixels per frame) the engine adds to nearby particles.
+ */
+
+export interface MotionField {
+  cols: number;
+  rows: number;
+  blockSize: number; // sample pixels per cell side
+  vx: Float32Array;
+  vy: Float32Array;
+}
+
+export interface MotionEstimator {
+  // Flow from the previous frame to this one; null on the first frame or after a size change
+  update: (frame: FrameData) => MotionField | null;
+  reset: () => void;
+}
+
+const BLOCK_SIZE = 8;
+const MIN_DIFFERENCE = 6;    // mean |dI/dt| a block needs before it counts as moving
+const MAX_FLOW = 4;          // clamp per frame, LK is only valid for small displacements
+const SMOOTHING = 0.5;       // share of the previous field kept each frame
+
+export const createMotionEstimator = (): MotionEstimator => {
+  let width = 0;
+  let height = 0;
+  let previous = new Float32Array(0);
+  let current = new Float32Array(0);
+  let hasPrevious = false;
+  let field: MotionField | null = null;
+
+  // Forgetting the size makes the next frame rebuild the buffers and the field
+  const reset = () => {
+    width = 0;
+    height = 0;
+    hasPrevious = false;
+    field = null;
+  };
+
+  const update = (frame: FrameData): MotionField | null => {
+    const w = frame.width;
+    const h = frame.height;
+    if (w !== width || h !== height) {
+      width = w;
+      height = h;
+      previous = new Float32Array(w * h);
+      current = new Float32Array(w * h);
+      const cols = Math.ceil(w / BLOCK_SIZE);
+      const rows = Math.ceil(h / BLOCK_SIZE);
+      field = { cols, rows, blockSize: BLOCK_SIZE, vx: new Float32Array(cols * rows), vy: new Float32Array(cols * rows) };
+      hasPrevious = false;
+    }
+
+    [previous, current] = [current, previous];
+    const data = frame.data;
+    for (let i = 0; i < w * h; i++) {
+      current[i] = (data[i * 4] + data[i * 4 + 1] + data[i * 4 + 2]) / 3;
+    }
+    if (!hasPrevious || !field) {
+      hasPrevious = true;
+      return null;
+    }
+
+    const { cols, rows, vx, vy } = field;
+    for (let by = 0; by < rows; by++) {
+      for (let bx = 0; bx < cols; bx++) {
+        let sxx = 0, syy = 0, sxy = 0, sxt = 0, syt = 0, diff = 0, count = 0;
+        const x0 = Math.max(1, bx * BLOCK_SIZE);
+        const y0 = Math.max(1, by * BLOCK_SIZE);
+        const x1 = Math.min(w - 1, (bx + 1) * BLOCK_SIZE);
+        const y1 = Math.min(h - 1, (by + 1) * BLOCK_SIZE);
+        for (let y = y0; y < y1; y++) {
+          for (let x = x0; x < x1; x++) {
+            const i = y * w + x;
+            // Spatial gradients averaged over both frames, temporal difference between them
+            const ix = (current[i + 1] - current[i - 1] + previous[i + 1] - previous[i - 1]) / 4;
+            const iy = (current[i + w] - current[i - w] + previous[i + w] - previous[i - w]) / 4;
+            const it = current[i] - previous[i];
+            sxx += ix * ix;
+            syy += iy * iy;
+            sxy += ix * iy;
+            sxt += ix * it;
+            syt += iy * it;
+            diff += Math.abs(it);
+            count++;
+          }
+        }
+
+        let u = 0;
+        let v = 0;
+        const det = sxx * syy - sxy * sxy;
+        if (count > 0 && diff / count >= MIN_DIFFERENCE && det > 1e-3) {
+          u = (-syy * sxt + sxy * syt) / det;
+          v = (sxy * sxt - sxx * syt) / det;
+          const mag = Math.hypot(u, v);
+          if (mag > MAX_FLOW) {
+            u *= MAX_FLOW / mag;
+            v *= MAX_FLOW / mag;
+          }
+        }
+        const c = by * cols + bx;
+        vx[c] = vx[c] * SMOOTHING + u * (1 - SMOOTHING);
+        vy[c] = vy[c] * SMOOTHING + v * (1 - SMOOTHING);
+      }
+    }
+    return field;
+  };
+
+  return { update, reset };
+};
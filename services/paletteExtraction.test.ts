@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { parseColor } from './color';
+import { extractPalette, MAX_EXTRACTED_COLORS } from './paletteExtraction';
+
+// Equal stripes of the given colours, plus a run of transparent pixels
+const image = (colors: [number, number, number][], perColor = 200, transparent = 0) => {
+  const pixels: number[] = [];
+  for (const [r, g, b] of colors) {
+    for (let i = 0; i < perColor; i++) pixels.push(r, g, b, 255);
+  }
+  for (let i = 0; i < transparent; i++) pixels.push(255, 0, 255, 0);
+  return new Uint8ClampedArray(pixels);
+};
+
+const close = (hex: string, [r, g, b]: [number, number, number]) => {
+  const [pr, pg, pb] = parseColor(hex);
+  return Math.abs(pr - r) <= 2 && Math.abs(pg - g) <= 2 && Math.abs(pb - b) <= 2;
+};
+
+const STRIPES: [number, number, number][] = [[250, 240, 200], [20, 20, 60], [200, 30, 30]];
+
+describe('extractPalette', () => {
+  it('finds the distinct colours, darkest first', () => {
+    const palette = extractPalette(image(STRIPES), { size: 3 });
+    expect(palette).toHaveLength(3);
+    expect(close(palette[0], [20, 20, 60])).toBe(true);
+    expect(close(palette[1], [200, 30, 30])).toBe(true);
+    expect(close(palette[2], [250, 240, 200])).toBe(true);
+  });
+
+  it('gives the same palette for the same image', () => {
+    const pixels = image([[10, 200, 90], [90, 10, 200], [240, 180, 20], [30, 30, 30]], 150);
+    expect(extractPalette(pixels, { size: 5 })).toEqual(extractPalette(pixels, { size: 5 }));
+  });
+
+  it('keeps locked colours exactly and fills the rest', () => {
+    const palette = extractPalette(image(STRIPES), { size: 3, locked: ['#00ff00'] });
+    expect(palette).toContain('#00ff00');
+    expect(palette).toHaveLength(3);
+    expect(extractPalette(image(STRIPES), { size: 2, locked: ['#ffffff', '#000000'] })).toEqual(['#000000', '#ffffff']);
+  });
+
+  it('clamps the size and ignores transparent pixels', () => {
+    expect(extractPalette(image(STRIPES), { size: 50 })).toHaveLength(MAX_EXTRACTED_COLORS);
+    const palette = extractPalette(image([[20, 20, 60], [250, 240, 200]], 200, 2000), { size: 2 });
+    expect(palette.some(hex => close(hex, [255, 0, 255]))).toBe(false);
+  });
+
+  it('throws when nothing is visible', () => {
+    expect(() => extractPalette(image([], 0, 100), { size: 3 })).toThrow('The image has no visible pixels');
+  });
+});
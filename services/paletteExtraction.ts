@@ -0,0 +1,150 @@
+import { Oklab, oklabToRgb, parseColor, rgbToHex, rgbToOklab } from './color';
+import { createRandom } from './random';
+
+/**
+ * Palette extraction for reference images and the live frame: k-means in OKLab, so clusters
+ * follow what looks alike rather than what is numerically close in RGB. The result is ordered
+ * dark to light because palettes are indexed by brightness (see mapBrightnessToColor).
+ */
+
+export const MIN_EXTRACTED_COLORS = 2;
+export const MAX_EXTRACTED_COLORS = 8;
+export const DEFAULT_EXTRACTED_COLORS = 5;
+
+export interface PaletteOptions {
+  size: number;
+  // Colours kept exactly as they are; they count towards `size` and attract their own pixels
+  locked?: string[];
+}
+
+// Pixels are read from a thumbnail; a few thousand samples is plenty for a handful of clusters
+const THUMBNAIL_SIZE = 96;
+const MAX_SAMPLES = 4096;
+const MAX_ITERATIONS = 16;
+const CONVERGED = 1e-5;
+// Same image, same palette
+const SEED = 0x9e3779b9;
+
+const distance2 = (a: Oklab, b: Oklab) =>
+  (a[0] - b[0]) * (a[0] - b[0]) + (a[1] - b[1]) * (a[1] - b[1]) + (a[2] - b[2]) * (a[2] - b[2]);
+
+const toOklab = (hex: string) => {
+  const [r, g, b] = parseColor(hex);
+  return rgbToOklab(r, g, b);
+};
+
+const toHexColor = (lab: Oklab) => {
+  const [r, g, b] = oklabToRgb(lab);
+  return rgbToHex(r, g, b);
+};
+
+const nearest = (sample: Oklab, centroids: Oklab[]) => {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let c = 0; c < centroids.length; c++) {
+    const d = distance2(sample, centroids[c]);
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = c;
+    }
+  }
+  return best;
+};
+
+const sortDarkToLight = (colors: string[]) =>
+  colors
+    .map(hex => ({ hex, lightness: toOklab(hex)[0] }))
+    .sort((a, b) => a.lightness - b.lightness)
+    .map(c => c.hex);
+
+// RGBA bytes (ImageData layout) in; '#rrggbb' colours out, darkest first. Transparent pixels are ignored.
+export const extractPalette = (pixels: Uint8ClampedArray, options: PaletteOptions): string[] => {
+  const size = Math.min(MAX_EXTRACTED_COLORS, Math.max(MIN_EXTRACTED_COLORS, Math.round(options.size)));
+  const locked = (options.locked ?? []).slice(0, size);
+  const free = size - locked.length;
+  if (free === 0) return sortDarkToLight(locked);
+
+  const count = pixels.length / 4;
+  const stride = Math.max(1, Math.floor(count / MAX_SAMPLES));
+  const samples: Oklab[] = [];
+  for (let i = 0; i < count; i += stride) {
+    const p = i * 4;
+    if (pixels[p + 3] < 128) continue;
+    samples.push(rgbToOklab(pixels[p], pixels[p + 1], pixels[p + 2]));
+  }
+  if (samples.length === 0) throw new Error('The image has no visible pixels');
+
+  // Locked colours come first and never move
+  const centroids: Oklab[] = locked.map(toOklab);
+  const random = createRandom(SEED);
+
+  // k-means++ seeding: each new centre is picked with probability proportional to its squared
+  // distance from the nearest existing one, so small but distinct accents get a chance
+  const nearestDistance = new Float64Array(samples.length).fill(Infinity);
+  const refreshDistances = (centre: Oklab) => {
+    for (let s = 0; s < samples.length; s++) nearestDistance[s] = Math.min(nearestDistance[s], distance2(samples[s], centre));
+  };
+  centroids.forEach(refreshDistances);
+  if (centroids.length === 0) {
+    const first = samples[Math.floor(random() * samples.length)];
+    centroids.push([...first] as Oklab);
+    refreshDistances(first);
+  }
+  while (centroids.length < size) {
+    let total = 0;
+    for (let s = 0; s < samples.length; s++) total += nearestDistance[s];
+    let target = random() * total;
+    let pick = samples.length - 1;
+    for (let s = 0; s < samples.length; s++) {
+      target -= nearestDistance[s];
+      if (target <= 0) {
+        pick = s;
+        break;
+      }
+    }
+    centroids.push([...samples[pick]] as Oklab);
+    refreshDistances(samples[pick]);
+  }
+
+  const assignment = new Int32Array(samples.length);
+  const sums = centroids.map(() => [0, 0, 0, 0]);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    sums.forEach(sum => sum.fill(0));
+    for (let s = 0; s < samples.length; s++) {
+      const c = nearest(samples[s], centroids);
+      assignment[s] = c;
+      const sum = sums[c];
+      sum[0] += samples[s][0];
+      sum[1] += samples[s][1];
+      sum[2] += samples[s][2];
+      sum[3]++;
+    }
+
+    let moved = 0;
+    for (let c = locked.length; c < centroids.length; c++) {
+      const [l, a, b, n] = sums[c];
+      if (n === 0) continue; // keeps its seed; a duplicate colour is better than none
+      const next: Oklab = [l / n, a / n, b / n];
+      moved = Math.max(moved, distance2(next, centroids[c]));
+      centroids[c] = next;
+    }
+    if (moved < CONVERGED) break;
+  }
+
+  return sortDarkToLight([...locked, ...centroids.slice(locked.length).map(toHexColor)]);
+};
+
+// Reads a small thumbnail of an image, video frame or canvas (needs a DOM).
+export const readImagePixels = (image: ImageBitmap | HTMLVideoElement | HTMLCanvasElement): Uint8ClampedArray => {
+  const width = image instanceof HTMLVideoElement ? image.videoWidth : image.width;
+  const height = image instanceof HTMLVideoElement ? image.videoHeight : image.height;
+  if (!width || !height) throw new Error('Nothing to sample yet');
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Cannot read pixels');
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+};
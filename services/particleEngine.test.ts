@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { ArtStyleConfig, ForceSource, Particle } from '../types';
+import { createParticleEngine, FrameData } from './particleEngine';
+import { MotionField } from './motionField';
+import { validateStyle } from './styleValidation';
+
+// Forces only: no noise, flow field, motion or fluid, so a particle at rest moves only when pushed
+const makeStyle = (patch: Partial<ArtStyleConfig> = {}) => validateStyle({
+  name: 'Test',
+  colors: ['#000000', '#ffffff'],
+  density: 10,
+  speed: 1,
+  friction: 0.9,
+  noiseStrength: 0,
+  flowFieldStrength: 0,
+  motionStrength: 0,
+  fluidCoupling: 0,
+  interactionRadius: 50,
+  interactionStrength: 10,
+  interactionFalloff: 'constant',
+  interactionMode: 'repel',
+  ...patch
+}).style;
+
+const makeFrame = (width: number, height: number, value = 200, extra: Partial<FrameData> = {}): FrameData => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height * 4).fill(value),
+  ...extra
+});
+
+const source = (x: number, y: number, mode: ForceSource['mode'] = 'touch'): ForceSource => ({
+  x, y, vx: 0, vy: 0, radiusScale: 1, strengthScale: 1, mode, kind: 'pointer'
+});
+
+const positions = (particles: Particle[]) => particles.map(p => [p.x, p.y]);
+
+// The particle at grid origin (50, 50) after one step with a source 5px to its right
+const pushed = (patch: Partial<ArtStyleConfig>, mode: ForceSource['mode'] = 'touch') => {
+  const engine = createParticleEngine(makeStyle(patch));
+  engine.resize(100, 100);
+  engine.step(makeFrame(100, 100), [source(55, 50, mode)]);
+  return engine.particles.find(p => p.originX === 50 && p.originY === 50)!;
+};
+
+describe('createParticleEngine', () => {
+  it('lays out one particle per grid cell at the style density', () => {
+    const engine = createParticleEngine(makeStyle({ density: 10 }));
+    engine.resize(40, 30);
+    expect(engine.particles).toHaveLength(4 * 3);
+    expect(engine.particles[5]).toMatchObject({ originX: 10, originY: 10, x: 10, y: 10 });
+  });
+
+  it('reflows the grid when the density changes', () => {
+    const engine = createParticleEngine(makeStyle({ density: 10 }));
+    engine.resize(40, 40);
+    engine.setStyle(makeStyle({ density: 20 }));
+    expect(engine.particles).toHaveLength(4);
+  });
+
+  it('is deterministic for a seed', () => {
+    const style = makeStyle({ noiseStrength: 3, flowFieldStrength: 2 });
+    const run = (seed: number) => {
+      const engine = createParticleEngine(style, { seed });
+      engine.resize(60, 60);
+      const frame = makeFrame(60, 60, 0);
+      (frame.data as Uint8ClampedArray).forEach((_, i, data) => { data[i] = (i * 37) % 256; });
+      for (let i = 0; i < 10; i++) engine.step(frame, [source(30, 30)]);
+      return positions(engine.particles);
+    };
+    expect(run(7)).toEqual(run(7));
+    expect(run(7)).not.toEqual(run(8));
+  });
+
+  it('repels, attracts and swirls around a source', () => {
+    expect(pushed({ interactionMode: 'repel' }).vx).toBeLessThan(0);
+    expect(pushed({ interactionMode: 'attract' }).vx).toBeGreaterThan(0);
+    const swirl = pushed({ interactionMode: 'vortex' });
+    expect(Math.abs(swirl.vy)).toBeGreaterThan(Math.abs(swirl.vx));
+  });
+
+  it('lets force sources override the style mode', () => {
+    expect(pushed({ interactionMode: 'attract' }, 'repel').vx).toBeLessThan(0);
+    expect(pushed({ interactionMode: 'repel' }, 'explode').vx).toBeLessThan(pushed({ interactionMode: 'repel' }).vx);
+  });
+
+  it('holds particles still under a freeze source', () => {
+    const engine = createParticleEngine(makeStyle());
+    engine.resize(100, 100);
+    const frame = makeFrame(100, 100);
+    engine.step(frame, [source(55, 50)]);
+    const p = engine.particles.find(q => q.originX === 50 && q.originY === 50)!;
+    expect(p.vx).not.toBe(0);
+    engine.step(frame, [source(p.x + 1, p.y, 'freeze')]);
+    expect(p.vx).toBeCloseTo(0);
+    expect(p.vy).toBeCloseTo(0);
+  });
+
+  it('hides particles over dark or masked-out pixels', () => {
+    const engine = createParticleEngine(makeStyle());
+    engine.resize(20, 20);
+    engine.step(makeFrame(20, 20, 0), []);
+    expect(engine.particles.every(p => !p.visible)).toBe(true);
+
+    const mask = new Float32Array(20 * 20);
+    for (let y = 0; y < 20; y++) for (let x = 0; x < 10; x++) mask[y * 20 + x] = 1;
+    engine.step(makeFrame(20, 20, 200, { mask }), []);
+    expect(engine.particles.filter(p => p.visible).map(p => p.originX)).toEqual([0, 0]);
+  });
+
+  it('sweeps particles along the motion field when motion is on', () => {
+    const motion: MotionField = { cols: 1, rows: 1, blockSize: 100, vx: new Float32Array([2]), vy: new Float32Array([0]) };
+    const run = (motionStrength: number) => {
+      const engine = createParticleEngine(makeStyle({ motionStrength }));
+      engine.resize(20, 20);
+      engine.step(makeFrame(20, 20, 200, { motion }), []);
+      return engine.particles[0].vx;
+    };
+    expect(run(0)).toBe(0);
+    expect(run(1)).toBeGreaterThan(0);
+  });
+});
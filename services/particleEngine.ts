@@ -0,0 +1,316 @@
+import { ArtStyleConfig, ForceSource, InteractionFalloff, InteractionMode, Particle, PointerState } from '../types';
+import { createColorMapper, sampleChannel } from './colorMapping';
+import { createFluidSolver, FluidSolver } from './fluidSolver';
+import { MotionField } from './motionField';
+import { createRandom } from './random';
+
+/**
+ * Headless particle simulation. Knows nothing about the DOM, canvases or React:
+ * it takes a style, a downsampled frame and the pointer/hand force sources, and steps
+ * the particle array. The Renderer is only a draw layer on top of it.
+ */
+
+// Anything with RGBA bytes laid out like ImageData (ImageData itself, or a synthetic frame in Node).
+export interface FrameData {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+  // Optional foreground weight (0-1) per pixel; background pixels then count as black
+  mask?: ArrayLike<number> | null;
+  // Optional coarse optical flow of this frame, in sample pixels per frame
+  motion?: MotionField | null;
+}
+
+export interface ParticleEngineOptions {
+  seed?: number;
+  timestep?: number; // noise-field time advanced per step
+}
+
+export interface ParticleEngine {
+  readonly particles: Particle[];
+  readonly width: number;
+  readonly height: number;
+  resize: (width: number, height: number) => void;
+  setStyle: (style: ArtStyleConfig) => void;
+  step: (frame: FrameData, sources: ForceSource[]) => void;
+}
+
+// Pixels darker than this count as background: their particles shrink away and stop simulating.
+export const BRIGHTNESS_THRESHOLD = 12;
+
+// Hand tracking feels better with a larger radius (80000 vs 40000 px², 48 vs 35 force)
+export const HAND_RADIUS_SCALE = Math.SQRT2;
+export const HAND_STRENGTH_SCALE = 48 / 35;
+
+// Share of the local motion-field velocity added per step at motionStrength 1
+const MOTION_GAIN = 0.3;
+
+// Fluid stirring: share of a source's velocity pushed into the grid, and of the splat radius used
+const FLUID_FORCE = 0.6;
+const FLUID_SPLAT = 0.5;
+// Share of the gap to the grid velocity closed per step at fluidCoupling 1
+const FLUID_DRAG = 0.3;
+// Motion-field blocks slower than this (sample px per frame) don't stir the fluid
+const FLUID_MOTION_MIN = 0.3;
+
+type ForceModel = InteractionMode | 'explode';
+
+// Push per unit strength; attract is gentler so particles gather instead of slingshotting through.
+const MODE_SCALE: Record<ForceModel, number> = {
+  repel: 1,
+  attract: 0.25,
+  vortex: 0.12,
+  gravity: 0.4,
+  paint: 0.01,
+  explode: 4
+};
+
+export const FALLOFFS: Record<InteractionFalloff, (u: number) => number> = {
+  linear: u => 1 - u,
+  smooth: u => 1 - u * u * (3 - 2 * u),
+  quadratic: u => (1 - u) * (1 - u),
+  constant: () => 1
+};
+
+// Pen pressure scales the push from a light 0.25x to 1.75x; mice and fingers always push at 1x.
+export const pointerForce = (pointer: PointerState): ForceSource => ({
+  x: pointer.x,
+  y: pointer.y,
+  vx: pointer.vx,
+  vy: pointer.vy,
+  radiusScale: 1,
+  strengthScale: pointer.type === 'pen' ? 0.25 + 1.5 * pointer.pressure : 1,
+  mode: 'touch',
+  kind: 'pointer'
+});
+
+export const createParticleEngine = (
+  initialStyle: ArtStyleConfig,
+  options: ParticleEngineOptions = {}
+): ParticleEngine => {
+  const random = createRandom(options.seed ?? 1);
+  const timestep = options.timestep ?? 0.02;
+  const noiseOffsetX = random() * 1000;
+  const noiseOffsetY = random() * 1000;
+
+  let style = initialStyle;
+  const colorMapper = createColorMapper();
+  colorMapper.setStyle(style.colorMode, style.colors);
+  let particles: Particle[] = [];
+  let width = 0;
+  let height = 0;
+  let time = 0;
+  // Only exists while the style couples particles to it
+  let fluid: FluidSolver | null = null;
+
+  let gap = 0;
+  let cols = 0;
+
+  // Lays out the grid for the current size/density. Every new grid slot adopts the particle
+  // nearest to it in the old grid, so a density or size change reflows instead of popping.
+  const layoutParticles = () => {
+    const previous = particles;
+    const prevGap = gap;
+    const prevCols = cols;
+    const prevRows = prevCols > 0 ? Math.ceil(previous.length / prevCols) : 0;
+
+    particles = [];
+    gap = Math.max(4, style.density);
+    cols = Math.ceil(width / gap);
+    if (width <= 0 || height <= 0) return;
+    const reuse = previous.length > 0 && prevCols > 0;
+
+    for (let y = 0; y < height; y += gap) {
+      for (let x = 0; x < width; x += gap) {
+        if (reuse) {
+          const ox = Math.min(prevCols - 1, Math.round(x / prevGap));
+          const oy = Math.min(prevRows - 1, Math.round(y / prevGap));
+          const source = previous[Math.min(previous.length - 1, oy * prevCols + ox)];
+          particles.push({ ...source, originX: x, originY: y });
+        } else {
+          particles.push({
+            x: x, y: y, originX: x, originY: y, vx: 0, vy: 0,
+            size: style.particleSizeMin, color: '#ffffff', brightness: 0, visible: false
+          });
+        }
+      }
+    }
+  };
+
+  const resize = (w: number, h: number) => {
+    width = w;
+    height = h;
+    fluid = null;
+    layoutParticles();
+  };
+
+  const setStyle = (next: ArtStyleConfig) => {
+    const densityChanged = next.density !== style.density;
+    style = next;
+    colorMapper.setStyle(style.colorMode, style.colors);
+    if (densityChanged) layoutParticles();
+  };
+
+  // Pointers, hands and frame motion push velocity and dye into the grid
+  const stirFluid = (grid: FluidSolver, frame: FrameData, sources: ForceSource[], scaleX: number, scaleY: number) => {
+    for (const source of sources) {
+      if (source.mode === 'freeze') continue;
+      const radius = style.interactionRadius * source.radiusScale * FLUID_SPLAT;
+      const speed = Math.hypot(source.vx, source.vy);
+      if (speed === 0) continue;
+      grid.addVelocity(source.x, source.y, source.vx * FLUID_FORCE, source.vy * FLUID_FORCE, radius);
+      grid.addDye(source.x, source.y, Math.min(1, speed / 20), radius);
+    }
+    const motion = frame.motion;
+    if (!motion) return;
+    const blockW = motion.blockSize / scaleX;
+    const blockH = motion.blockSize / scaleY;
+    for (let c = 0; c < motion.vx.length; c++) {
+      const mx = motion.vx[c];
+      const my = motion.vy[c];
+      const speed = Math.hypot(mx, my);
+      if (speed < FLUID_MOTION_MIN) continue;
+      const x = (c % motion.cols + 0.5) * blockW;
+      const y = (Math.floor(c / motion.cols) + 0.5) * blockH;
+      grid.addVelocity(x, y, mx / scaleX * FLUID_FORCE, my / scaleY * FLUID_FORCE, blockW);
+      grid.addDye(x, y, Math.min(1, speed / 4) * 0.3, blockW);
+    }
+  };
+
+  const step = (frame: FrameData, sources: ForceSource[]) => {
+    const w = frame.width;
+    const h = frame.height;
+    if (width <= 0 || height <= 0 || w <= 0 || h <= 0) return;
+    time += timestep;
+
+    const img = frame.data;
+    const mask = frame.mask;
+    const motion = style.motionStrength > 0 ? frame.motion : null;
+    const scaleX = w / width;
+    const scaleY = h / height;
+    const falloff = FALLOFFS[style.interactionFalloff];
+    const channel = style.samplingChannel;
+
+    const coupling = style.fluidCoupling;
+    if (coupling > 0) {
+      fluid ??= createFluidSolver(width, height);
+      stirFluid(fluid, frame, sources, scaleX, scaleY);
+      fluid.step({ viscosity: style.fluidViscosity, vorticity: style.fluidVorticity });
+    } else {
+      fluid = null;
+    }
+
+    for (let i = 0; i < particles.length; i++) {
+      const p = particles[i];
+      const px = Math.min(w - 1, Math.max(0, Math.floor(p.originX * scaleX)));
+      const py = Math.min(h - 1, Math.max(0, Math.floor(p.originY * scaleY)));
+      const idx = (py * w + px) * 4;
+
+      const fg = mask ? mask[py * w + px] : 1;
+      // Dye lights particles up wherever the fluid has been stirred, like ink in water
+      const flow = fluid ? fluid.sample(p.x, p.y) : null;
+      const dye = flow ? flow.dye * 255 * coupling : 0;
+      const brightness = Math.min(255, sampleChannel(channel, img, w, h, px, py) * fg + dye);
+
+      if (brightness < BRIGHTNESS_THRESHOLD) {
+        if (p.size > 0.1) p.size *= 0.85;
+        p.visible = false;
+        continue;
+      }
+
+      p.visible = true;
+      p.brightness = brightness;
+      p.color = colorMapper.map(brightness, img[idx], img[idx+1], img[idx+2]);
+
+      const targetSize = style.particleSizeMin + (brightness/255) * (style.particleSizeMax - style.particleSizeMin);
+      p.size += (targetSize - p.size) * 0.15;
+
+      const snapForce = 0.12 * style.speed * (brightness/255 + 0.1);
+      p.vx += (p.originX - p.x) * snapForce;
+      p.vy += (p.originY - p.y) * snapForce;
+
+      // INTERACTION (every pointer and tracked hand, each on its own)
+      let hold = 0;
+      for (let s = 0; s < sources.length; s++) {
+        const source = sources[s];
+        const radius = style.interactionRadius * source.radiusScale;
+        const dx = source.x - p.x;
+        const dy = source.y - p.y;
+        const d2 = dx*dx + dy*dy;
+        if (d2 >= radius * radius || d2 === 0) continue;
+        const dist = Math.sqrt(d2);
+        const weight = falloff(dist / radius);
+        if (source.mode === 'freeze') {
+          hold = Math.max(hold, weight);
+          continue;
+        }
+        const model: ForceModel = source.mode === 'touch' ? style.interactionMode : source.mode;
+        const force = weight * style.interactionStrength * source.strengthScale * MODE_SCALE[model] * style.speed;
+        const nx = dx / dist;
+        const ny = dy / dist;
+        switch (model) {
+          case 'attract':
+            p.vx += nx * force;
+            p.vy += ny * force;
+            break;
+          case 'vortex':
+            // Mostly tangential; the slight inward pull keeps the swirl from flinging particles out
+            p.vx += (nx * 0.5 - ny) * force;
+            p.vy += (ny * 0.5 + nx) * force;
+            break;
+          case 'gravity':
+            // Pull grows towards the centre, with a little spin so particles orbit into the well
+            p.vx += (nx * weight - ny * 0.3) * force;
+            p.vy += (ny * weight + nx * 0.3) * force;
+            break;
+          case 'paint':
+            p.vx += source.vx * force;
+            p.vy += source.vy * force;
+            break;
+          default: // repel, explode
+            p.vx -= nx * force;
+            p.vy -= ny * force;
+        }
+      }
+
+      // MOTION: movement in the frame sweeps particles along where they are now
+      if (motion) {
+        const cx = Math.min(motion.cols - 1, Math.max(0, Math.floor(p.x * scaleX / motion.blockSize)));
+        const cy = Math.min(motion.rows - 1, Math.max(0, Math.floor(p.y * scaleY / motion.blockSize)));
+        const c = cy * motion.cols + cx;
+        const gain = MOTION_GAIN * style.motionStrength;
+        p.vx += motion.vx[c] / scaleX * gain;
+        p.vy += motion.vy[c] / scaleY * gain;
+      }
+
+      // FLUID: particles are carried towards the local grid velocity
+      if (flow) {
+        p.vx += (flow.vx - p.vx) * coupling * FLUID_DRAG;
+        p.vy += (flow.vy - p.vy) * coupling * FLUID_DRAG;
+      }
+
+      // Flow Field
+      if (style.flowFieldStrength > 0 && px < w - 2 && py < h - 2) {
+        const b_r = sampleChannel(channel, img, w, h, px + 1, py) * (mask ? mask[py * w + px + 1] : 1);
+        const b_d = sampleChannel(channel, img, w, h, px, py + 1) * (mask ? mask[(py + 1) * w + px] : 1);
+        const n = Math.sin(p.x * 0.005 + time + noiseOffsetX) * Math.cos(p.y * 0.005 + time + noiseOffsetY);
+        p.vx += (brightness - b_d + Math.cos(n * Math.PI) * style.noiseStrength) * style.flowFieldStrength * 0.07;
+        p.vy += (b_r - brightness + Math.sin(n * Math.PI) * style.noiseStrength) * style.flowFieldStrength * 0.07;
+      }
+
+      p.vx *= style.friction * (1 - hold);
+      p.vy *= style.friction * (1 - hold);
+      p.x += p.vx;
+      p.y += p.vy;
+    }
+  };
+
+  return {
+    get particles() { return particles; },
+    get width() { return width; },
+    get height() { return height; },
+    resize,
+    setStyle,
+    step
+  };
+};
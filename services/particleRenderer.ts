@@ -0,0 +1,61 @@
+import { ArtStyleConfig, Particle } from '../types';
+import { createCanvasRenderer } from './canvasRenderer';
+import { ConnectionSet } from './connections';
+import { ParticleLayer } from './styleTransition';
+import { createWebGLRenderer } from './webglRenderer';
+
+/**
+ * Draw layer on top of the ParticleEngine. Both backends take the same particle array and style,
+ * so the Renderer component doesn't care which one it got.
+ */
+
+export type DrawSurface = HTMLCanvasElement | OffscreenCanvas;
+
+// Overlay dots drawn additively on top of the particles (pointer / hand feedback).
+export interface DrawMarker {
+  x: number;
+  y: number;
+  radius: number;
+  color: string;
+}
+
+// Everything one frame draws, in back-to-front order: connections, particle layers, markers.
+// `style` supplies trail and connection settings; each layer says how to draw the particles.
+export interface RenderScene {
+  particles: Particle[];
+  style: ArtStyleConfig;
+  layers: ParticleLayer[];
+  connections: ConnectionSet;
+  markers: DrawMarker[];
+}
+
+export interface ParticleRenderer {
+  readonly backend: 'webgl2' | 'canvas2d';
+  resize: (width: number, height: number) => void;
+  render: (scene: RenderScene) => void;
+  // Image the SPRITE shape stamps; null falls back to circles
+  setSprite: (image: ImageBitmap | null) => void;
+  // Last rendered frame, opaque RGBA top-down
+  readPixels: () => ImageData | null;
+  dispose: () => void;
+}
+
+// Line width shared by LINE and CROSS in both backends.
+export const strokeWidthFor = (size: number) => Math.max(1, size / 3);
+
+// Prefers WebGL2; falls back to Canvas2D when the context can't be created.
+export const createParticleRenderer = (surface: DrawSurface): ParticleRenderer => {
+  const gl = surface.getContext('webgl2', {
+    alpha: false,
+    antialias: false,
+    premultipliedAlpha: true,
+    preserveDrawingBuffer: false
+  }) as WebGL2RenderingContext | null;
+  if (gl) {
+    const renderer = createWebGLRenderer(gl);
+    if (renderer) return renderer;
+  }
+  const ctx = surface.getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('Neither WebGL2 nor Canvas2D is available');
+  return createCanvasRenderer(ctx);
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { createFrameMonitor, createQualityGovernor, DEFAULT_QUALITY_SETTINGS, FrameMonitor, QUALITY_LEVELS } from './qualityGovernor';
+
+// Target 50fps: 20ms a frame
+const SLOW = { fps: 30, frameMs: 33, simMs: 20, drawMs: 10 } as FrameMonitor;
+const STEADY = { fps: 50, frameMs: 20, simMs: 8, drawMs: 6 } as FrameMonitor;
+const FAST = { fps: 60, frameMs: 16.7, simMs: 2, drawMs: 2 } as FrameMonitor;
+
+// Feeds the governor one reading a second from `from` to `to` (ms), returning the last level
+const run = (governor: ReturnType<typeof createQualityGovernor>, monitor: FrameMonitor, from: number, to: number) => {
+  let level = governor.level;
+  for (let now = from; now <= to; now += 1000) level = governor.update(monitor, DEFAULT_QUALITY_SETTINGS, now);
+  return level;
+};
+
+describe('createFrameMonitor', () => {
+  it('averages frame intervals and the time spent in each half', () => {
+    const monitor = createFrameMonitor(4);
+    for (let i = 1; i <= 6; i++) monitor.record(i * 20, 5, 3);
+    expect(monitor.fps).toBeCloseTo(50);
+    expect(monitor.simMs).toBe(5);
+    expect(monitor.drawMs).toBe(3);
+  });
+
+  it('skips the first frame and pauses', () => {
+    const monitor = createFrameMonitor();
+    monitor.record(1000, 1, 1);
+    expect(monitor.fps).toBe(0);
+    monitor.record(1020, 1, 1);
+    monitor.record(9000, 1, 1);
+    expect(monitor.frameMs).toBe(20);
+  });
+});
+
+describe('createQualityGovernor', () => {
+  it('steps down only after consecutive slow readings', () => {
+    const governor = createQualityGovernor();
+    expect(governor.update(SLOW, DEFAULT_QUALITY_SETTINGS, 0)).toBe(0);
+    expect(governor.update(STEADY, DEFAULT_QUALITY_SETTINGS, 1000)).toBe(0);
+    expect(governor.update(SLOW, DEFAULT_QUALITY_SETTINGS, 2000)).toBe(0);
+    expect(governor.update(SLOW, DEFAULT_QUALITY_SETTINGS, 3000)).toBe(1);
+  });
+
+  it('settles after a change before judging again', () => {
+    const governor = createQualityGovernor();
+    run(governor, SLOW, 0, 1000);
+    expect(governor.level).toBe(1);
+    // Readings inside the settle time don't count
+    expect(run(governor, SLOW, 2000, 3000)).toBe(1);
+    expect(run(governor, SLOW, 4000, 5000)).toBe(2);
+  });
+
+  it('holds a level inside the dead band', () => {
+    const governor = createQualityGovernor();
+    run(governor, SLOW, 0, 1000);
+    expect(run(governor, STEADY, 4000, 60000)).toBe(1);
+  });
+
+  it('does not retry a level that was too slow until a while later', () => {
+    const governor = createQualityGovernor();
+    run(governor, SLOW, 0, 1000);
+    expect(run(governor, FAST, 4000, 30000)).toBe(1);
+    expect(run(governor, FAST, 31000, 31000)).toBe(0);
+  });
+
+  it('never goes past the last level', () => {
+    const governor = createQualityGovernor();
+    expect(run(governor, SLOW, 0, 60000)).toBe(QUALITY_LEVELS.length - 1);
+  });
+
+  it('goes back to full quality when switched off', () => {
+    const governor = createQualityGovernor();
+    run(governor, SLOW, 0, 1000);
+    expect(governor.update(SLOW, { ...DEFAULT_QUALITY_SETTINGS, governor: false }, 2000)).toBe(0);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Keeps heavy styles playable. A rolling monitor measures frame rate and where the time goes
+ * (simulation vs drawing); the governor steps through quality levels — sparser particle grid,
+ * coarser input sampling, fewer connection lines — to hold a target frame rate. It only moves
+ * after several consistent readings and then waits, so it settles instead of oscillating.
+ */
+
+export interface QualitySettings {
+  governor: boolean;
+  targetFps: number;
+}
+
+export const DEFAULT_QUALITY_SETTINGS: QualitySettings = { governor: true, targetFps: 50 };
+export const TARGET_FPS_OPTIONS = [30, 45, 50, 60];
+
+export interface QualityLevel {
+  densityScale: number;    // multiplies the style's grid gap
+  sampleScale: number;     // input downsampling factor
+  connectionScale: number; // share of the connection-line budget
+}
+
+// Level 0 is the style as designed; each step gives up a little more.
+export const QUALITY_LEVELS: QualityLevel[] = [
+  { densityScale: 1, sampleScale: 0.15, connectionScale: 1 },
+  { densityScale: 1.25, sampleScale: 0.13, connectionScale: 0.6 },
+  { densityScale: 1.5, sampleScale: 0.11, connectionScale: 0.35 },
+  { densityScale: 2, sampleScale: 0.09, connectionScale: 0.15 },
+  { densityScale: 2.5, sampleScale: 0.07, connectionScale: 0 }
+];
+
+export interface PerformanceStats {
+  fps: number;
+  frameMs: number; // average time between frames
+  simMs: number;   // sampling + engine step
+  drawMs: number;  // connections + render
+  particles: number;
+  visible: number;
+  sampleScale: number;
+  qualityLevel: number;
+  governor: boolean;
+}
+
+// What the UI drives; the Renderer fills one in while mounted, like BackgroundControl.
+export interface PerformanceControl {
+  // Latest stats, or null before the first report
+  getStats: () => PerformanceStats | null;
+  setSettings: (settings: QualitySettings) => void;
+}
+
+export interface FrameMonitor {
+  // Call once per frame with when it started and how long each half took
+  record: (now: number, simMs: number, drawMs: number) => void;
+  readonly fps: number;
+  readonly frameMs: number;
+  readonly simMs: number;
+  readonly drawMs: number;
+}
+
+const MONITOR_WINDOW = 60;
+
+export const createFrameMonitor = (windowSize = MONITOR_WINDOW): FrameMonitor => {
+  const intervals = new Float32Array(windowSize);
+  const sims = new Float32Array(windowSize);
+  const draws = new Float32Array(windowSize);
+  let index = 0;
+  let count = 0;
+  let last = 0;
+
+  const average = (values: Float32Array) => {
+    if (count === 0) return 0;
+    let sum = 0;
+    for (let i = 0; i < count; i++) sum += values[i];
+    return sum / count;
+  };
+
+  const record = (now: number, simMs: number, drawMs: number) => {
+    // The first frame, and any frame after a long pause (tab hidden), has no meaningful interval
+    const interval = last > 0 ? now - last : 0;
+    last = now;
+    if (interval <= 0 || interval > 1000) return;
+    intervals[index] = interval;
+    sims[index] = simMs;
+    draws[index] = drawMs;
+    index = (index + 1) % windowSize;
+    count = Math.min(windowSize, count + 1);
+  };
+
+  return {
+    record,
+    get frameMs() { return average(intervals); },
+    get fps() {
+      const ms = average(intervals);
+      return ms > 0 ? 1000 / ms : 0;
+    },
+    get simMs() { return average(sims); },
+    get drawMs() { return average(draws); }
+  };
+};
+
+export interface QualityGovernor {
+  readonly level: number;
+  // Returns the level to use from now on
+  update: (monitor: FrameMonitor, settings: QualitySettings, now: number) => number;
+}
+
+const EVALUATE_EVERY_MS = 1000;
+const SETTLE_MS = 2500;          // after a change, let the averages catch up before judging again
+const DOWNGRADE_AFTER = 2;       // consecutive slow readings
+const UPGRADE_AFTER = 4;         // consecutive readings with plenty of headroom
+const SLOW_FPS_RATIO = 0.9;      // below 90% of target is slow
+const HEADROOM_RATIO = 0.5;      // work under half the frame budget means the last step can be undone
+const RETRY_AFTER_MS = 30000;    // a level that was too slow isn't tried again for this long
+
+export const createQualityGovernor = (): QualityGovernor => {
+  let level = 0;
+  let nextCheck = 0;
+  let slow = 0;
+  let fast = 0;
+  // When each level was last abandoned for being too slow
+  const failedAt = QUALITY_LEVELS.map(() => -Infinity);
+
+  const change = (next: number, now: number) => {
+    level = next;
+    slow = 0;
+    fast = 0;
+    nextCheck = now + SETTLE_MS;
+  };
+
+  const update = (monitor: FrameMonitor, settings: QualitySettings, now: number) => {
+    if (!settings.governor) {
+      if (level !== 0) change(0, now);
+      return level;
+    }
+    if (now < nextCheck) return level;
+    nextCheck = now + EVALUATE_EVERY_MS;
+    if (monitor.fps <= 0) return level;
+
+    const budget = 1000 / settings.targetFps;
+    const work = monitor.simMs + monitor.drawMs;
+    if (monitor.fps < settings.targetFps * SLOW_FPS_RATIO) {
+      slow++;
+      fast = 0;
+    } else if (work < budget * HEADROOM_RATIO) {
+      fast++;
+      slow = 0;
+    } else {
+      // Inside the dead band: hold steady
+      slow = 0;
+      fast = 0;
+    }
+
+    if (slow >= DOWNGRADE_AFTER && level < QUALITY_LEVELS.length - 1) {
+      failedAt[level] = now;
+      change(level + 1, now);
+    } else if (fast >= UPGRADE_AFTER && level > 0 && now - failedAt[level - 1] >= RETRY_AFTER_MS) {
+      change(level - 1, now);
+    }
+    return level;
+  };
+
+  return {
+    get level() { return level; },
+    update
+  };
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom } from './random';
+import {
+  createCue,
+  CUE_DURATION_RANGE,
+  CUE_TRANSITION_MAX_MS,
+  DEFAULT_CUE_DURATION_MS,
+  parseCues,
+  playOrder,
+  serializeCues
+} from './sequencer';
+import { DEFAULT_TRANSITION } from './styleTransition';
+import { validateStyle } from './styleValidation';
+
+const style = (name: string) => validateStyle({ name, colors: ['#000000', '#ffffff'] }).style;
+
+describe('playOrder', () => {
+  it('plays in list order unless shuffled', () => {
+    expect(playOrder(4, false)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('shuffles every cue exactly once, repeatably for a seed', () => {
+    const order = playOrder(10, true, createRandom(3));
+    expect([...order].sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(order).not.toEqual(playOrder(10, false));
+    expect(playOrder(10, true, createRandom(3))).toEqual(order);
+  });
+});
+
+describe('parseCues', () => {
+  it('reads back what serializeCues wrote', () => {
+    const cues = [createCue(style('One'), 5000, { durationMs: 800, easing: 'easeIn' }), createCue(style('Two'))];
+    const { cues: read, warnings } = parseCues(serializeCues(cues));
+    expect(warnings).toEqual([]);
+    expect(read.map(({ style, durationMs, transition }) => ({ style, durationMs, transition })))
+      .toEqual(cues.map(({ style, durationMs, transition }) => ({ style, durationMs, transition })));
+    expect(new Set(read.map(c => c.id)).size).toBe(2);
+  });
+
+  it('accepts a bare array of cues', () => {
+    const bare = JSON.stringify([{ style: style('One'), durationMs: 5000, transition: DEFAULT_TRANSITION }]);
+    expect(parseCues(bare).cues).toHaveLength(1);
+  });
+
+  it('clamps timings and reports each fix against its cue', () => {
+    const text = JSON.stringify({
+      version: 1,
+      cues: [
+        { style: style('One'), durationMs: 10, transition: { durationMs: 99999, easing: 'bounce' } },
+        { style: { name: 'Two', speed: 50 } }
+      ]
+    });
+    const { cues, warnings } = parseCues(text);
+    expect(cues[0].durationMs).toBe(CUE_DURATION_RANGE.min);
+    expect(cues[0].transition).toEqual({ durationMs: CUE_TRANSITION_MAX_MS, easing: DEFAULT_TRANSITION.easing });
+    expect(cues[1].durationMs).toBe(DEFAULT_CUE_DURATION_MS);
+    expect(cues[1].style.speed).toBe(5);
+    const fields = warnings.map(w => w.field);
+    expect(fields).toContain('cues[0].durationMs');
+    expect(fields).toContain('cues[0].transition');
+    expect(fields).toContain('cues[1].speed');
+  });
+
+  it('throws on files without cues', () => {
+    expect(() => parseCues('not json')).toThrow();
+    expect(() => parseCues('{"cues": []}')).toThrow('No cues found in file');
+    expect(() => parseCues('{"version": 1}')).toThrow('No cues found in file');
+  });
+});
@@ -0,0 +1,98 @@
+import { ArtStyleConfig } from '../types';
+import { RandomFn } from './random';
+import { DEFAULT_TRANSITION, EASINGS, EasingName, StyleTransition } from './styleTransition';
+import { StyleWarning, validateStyle } from './styleValidation';
+
+/**
+ * Cue lists for unattended shows: an ordered set of styles, each held for a while and entered
+ * through its own transition. Playback itself lives in the SequencerPanel; this is the data side.
+ */
+
+export interface Cue {
+  id: string;
+  style: ArtStyleConfig;
+  durationMs: number;        // time from the cue starting (transition included) to the next one
+  transition: StyleTransition;
+}
+
+export interface CueListFile {
+  version: 1;
+  cues: Omit<Cue, 'id'>[];
+}
+
+export const DEFAULT_CUE_DURATION_MS = 20000;
+export const CUE_DURATION_RANGE = { min: 1000, max: 600000 };
+export const CUE_TRANSITION_MAX_MS = 10000;
+
+let nextId = 0;
+const cueId = () => `cue-${Date.now()}-${nextId++}`;
+
+export const createCue = (
+  style: ArtStyleConfig,
+  durationMs = DEFAULT_CUE_DURATION_MS,
+  transition: StyleTransition = DEFAULT_TRANSITION
+): Cue => ({ id: cueId(), style, durationMs, transition });
+
+// Indices in the order they should play; a fresh shuffle every time it's called.
+export const playOrder = (count: number, shuffle: boolean, random: RandomFn = Math.random) => {
+  const order = Array.from({ length: count }, (_, i) => i);
+  if (!shuffle) return order;
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+};
+
+export const serializeCues = (cues: Cue[]) => {
+  const file: CueListFile = {
+    version: 1,
+    cues: cues.map(({ style, durationMs, transition }) => ({ style, durationMs, transition }))
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+/**
+ * Reads a saved cue list (or a bare array of cues). Styles go through validateStyle, timings are
+ * clamped, and every fix comes back as a warning prefixed with the cue's position.
+ * Throws if the text isn't JSON or doesn't contain any cues.
+ */
+export const parseCues = (text: string): { cues: Cue[]; warnings: StyleWarning[] } => {
+  const data: unknown = JSON.parse(text);
+  const rawCues = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.cues) ? data.cues : null;
+  if (!rawCues || rawCues.length === 0) throw new Error('No cues found in file');
+
+  const warnings: StyleWarning[] = [];
+  const cues = rawCues.map((raw: unknown, i) => {
+    const entry = isRecord(raw) ? raw : {};
+    const { style, warnings: styleWarnings } = validateStyle(entry.style);
+    warnings.push(...styleWarnings.map(w => ({ ...w, field: `cues[${i}].${w.field}` })));
+
+    const durationMs = clamp(entry.durationMs, CUE_DURATION_RANGE.min, CUE_DURATION_RANGE.max, DEFAULT_CUE_DURATION_MS);
+    if (durationMs !== entry.durationMs) {
+      warnings.push({ field: `cues[${i}].durationMs`, code: 'clamped', message: `Cue ${i + 1} duration set to ${durationMs}ms` });
+    }
+
+    const rawTransition = isRecord(entry.transition) ? entry.transition : {};
+    const easing = (Object.keys(EASINGS) as EasingName[]).includes(rawTransition.easing as EasingName)
+      ? rawTransition.easing as EasingName
+      : DEFAULT_TRANSITION.easing;
+    const transition: StyleTransition = {
+      durationMs: clamp(rawTransition.durationMs, 0, CUE_TRANSITION_MAX_MS, DEFAULT_TRANSITION.durationMs),
+      easing
+    };
+    if (transition.durationMs !== rawTransition.durationMs || easing !== rawTransition.easing) {
+      warnings.push({ field: `cues[${i}].transition`, code: 'invalid', message: `Cue ${i + 1} transition reset to ${transition.durationMs}ms ${easing}` });
+    }
+
+    return createCue(style, durationMs, transition);
+  });
+
+  return { cues, warnings };
+};
@@ -0,0 +1,77 @@
+import { createScratchCanvas, ScratchCanvas } from './surfaces';
+
+/**
+ * Resources the GLYPH and SPRITE shapes draw with. Glyphs come from a ramp string ordered from
+ * sparse to dense, picked by particle brightness (ASCII-cam style); the sprite is any image the
+ * user uploads, stamped once per particle and tinted by its colour.
+ */
+
+export const DEFAULT_GLYPH_RAMP = '.:-=+*#%@';
+export const DEFAULT_GLYPH_FONT = 'monospace';
+export const MAX_GLYPH_RAMP = 64;
+
+// Sprites are scaled down to fit this; particles are never drawn anywhere near that large
+export const MAX_SPRITE_SIZE = 256;
+
+// Pixel size of one atlas cell, and how many cells per atlas row
+const GLYPH_CELL = 64;
+const GLYPH_COLUMNS = 8;
+
+// Code points, so emoji and other astral characters count as one glyph each
+export const glyphsOf = (ramp: string) => {
+  const glyphs = Array.from(ramp);
+  return glyphs.length > 0 ? glyphs : Array.from(DEFAULT_GLYPH_RAMP);
+};
+
+// Index into a ramp of `count` glyphs for a brightness of 0-255.
+export const glyphIndex = (brightness: number, count: number) =>
+  Math.min(count - 1, Math.max(0, Math.floor(brightness / 256 * count)));
+
+export const glyphFontFor = (px: number, font: string) => `${px}px ${font}`;
+
+export interface GlyphAtlas {
+  canvas: ScratchCanvas;
+  columns: number;
+  rows: number;
+  count: number;
+}
+
+// White glyphs on transparent, one per cell, for renderers that tint from a texture.
+export const createGlyphAtlas = (ramp: string, font: string): GlyphAtlas => {
+  const glyphs = glyphsOf(ramp);
+  const columns = Math.min(GLYPH_COLUMNS, glyphs.length);
+  const rows = Math.ceil(glyphs.length / columns);
+  const canvas = createScratchCanvas(columns * GLYPH_CELL, rows * GLYPH_CELL);
+  const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+  if (ctx) {
+    ctx.fillStyle = '#ffffff';
+    ctx.font = glyphFontFor(GLYPH_CELL * 0.85, font);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    glyphs.forEach((glyph, i) => {
+      ctx.fillText(glyph, (i % columns + 0.5) * GLYPH_CELL, (Math.floor(i / columns) + 0.5) * GLYPH_CELL);
+    });
+  }
+  return { canvas, columns, rows, count: glyphs.length };
+};
+
+// Half extent of a sprite stamp for a particle of radius `size`, keeping the image's aspect ratio.
+export const spriteExtent = (sprite: { width: number; height: number }, size: number) => {
+  const aspect = sprite.width / Math.max(1, sprite.height);
+  return aspect >= 1 ? { x: size, y: size / aspect } : { x: size * aspect, y: size };
+};
+
+export const loadSprite = async (file: Blob): Promise<ImageBitmap> => {
+  const full = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_SPRITE_SIZE / Math.max(full.width, full.height));
+  if (scale >= 1) return full;
+  try {
+    return await createImageBitmap(full, {
+      resizeWidth: Math.max(1, Math.round(full.width * scale)),
+      resizeHeight: Math.max(1, Math.round(full.height * scale)),
+      resizeQuality: 'high'
+    });
+  } finally {
+    full.close();
+  }
+};
@@ -0,0 +1,80 @@
+import { createSimulationHost, SimulationHost } from './simulationHost';
+import { SimulationEvent, SimulationRequest } from './simulationProtocol';
+
+const scope = self as unknown as Worker;
+const post = (event: SimulationEvent) => scope.postMessage(event);
+
+let host: SimulationHost | null = null;
+let lastStats = 0;
+
+// Stats ride along with frames, a couple of times a second
+const STATS_INTERVAL_MS = 500;
+
+scope.onmessage = (e: MessageEvent<SimulationRequest>) => {
+  const msg = e.data;
+  try {
+    switch (msg.type) {
+      case 'init':
+        host = createSimulationHost(msg.canvas, msg.style, { onBackgroundLost: () => post({ type: 'backgroundLost' }) });
+        host.resize(msg.width, msg.height);
+        post({ type: 'ready', backend: host.backend });
+        break;
+      case 'resize':
+        host?.resize(msg.width, msg.height);
+        break;
+      case 'style':
+        host?.setStyle(msg.style, msg.transition);
+        break;
+      case 'offsets':
+        host?.setStyleOffsets(msg.offsets);
+        break;
+      case 'forces':
+        host?.setForces(msg.sources);
+        break;
+      case 'frame':
+        host?.step(msg.frame);
+        msg.frame.close();
+        post({ type: 'frameDone' });
+        if (host && performance.now() - lastStats >= STATS_INTERVAL_MS) {
+          lastStats = performance.now();
+          post({ type: 'stats', stats: host.getStats() });
+        }
+        break;
+      case 'capture': {
+        if (!host) throw new Error('Simulation not initialised');
+        const { id } = msg;
+        const pending = msg.kind === 'snapshot' ? host.snapshot() : host.renderStill(msg.scale);
+        pending
+          .then(blob => post({ type: 'captured', id, blob }))
+          .catch(err => post({ type: 'captureFailed', id, message: err instanceof Error ? err.message : String(err) }));
+        break;
+      }
+      case 'captureBackground': {
+        if (!host) throw new Error('Simulation not initialised');
+        const { id } = msg;
+        host.captureBackground(msg.frames)
+          .then(() => post({ type: 'backgroundCaptured', id }))
+          .catch(err => post({ type: 'backgroundFailed', id, message: err instanceof Error ? err.message : String(err) }));
+        break;
+      }
+      case 'clearBackground':
+        host?.clearBackground();
+        break;
+      case 'maskSettings':
+        host?.setMaskSettings(msg.settings);
+        break;
+      case 'sprite':
+        host?.setSprite(msg.image);
+        break;
+      case 'quality':
+        host?.setQualitySettings(msg.settings);
+        break;
+    }
+  } catch (err) {
+    if (msg.type === 'frame') {
+      msg.frame.close();
+      post({ type: 'frameDone' });
+    }
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
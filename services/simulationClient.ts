@@ -0,0 +1,302 @@
+import { ArtStyleConfig, ForceSource, StyleOffsets } from '../types';
+import { createSimulationHost, sampleSize } from './simulationHost';
+import { CaptureKind, SimulationEvent, SimulationRequest } from './simulationProtocol';
+import { StyleTransition } from './styleTransition';
+import { MaskSettings } from './backgroundMask';
+import { PerformanceStats, QualitySettings } from './qualityGovernor';
+
+/**
+ * Main-thread handle on the simulation. With OffscreenCanvas support the canvas is handed to a
+ * dedicated worker and this only forwards inputs; otherwise, or if the worker fails, the same
+ * host runs inline.
+ */
+
+export interface SimulationClient {
+  readonly mode: 'worker' | 'inline';
+  // What's drawn on; a worker that fails leaves its canvas unusable, so the inline host gets a new one
+  readonly canvas: HTMLCanvasElement;
+  resize: (width: number, height: number) => void;
+  setStyle: (style: ArtStyleConfig, transition?: StyleTransition) => void;
+  setStyleOffsets: (offsets: StyleOffsets) => void;
+  setForces: (sources: ForceSource[]) => void;
+  pushFrame: (source: HTMLVideoElement | HTMLCanvasElement) => void;
+  // 'snapshot' is the live frame as PNG; 'still' re-renders the particles at `scale`x
+  capture: (kind: CaptureKind, scale?: number) => Promise<Blob>;
+  captureBackground: (frames: number) => Promise<void>;
+  clearBackground: () => void;
+  setMaskSettings: (settings: MaskSettings) => void;
+  setSprite: (image: ImageBitmap | null) => void;
+  setQualitySettings: (settings: QualitySettings) => void;
+  // Most recent frame-rate / timing report; null until the first one arrives
+  getStats: () => PerformanceStats | null;
+  dispose: () => void;
+}
+
+export interface SimulationClientOptions {
+  onEvent?: (event: SimulationEvent) => void;
+}
+
+// A worker that hasn't reported ready by then is treated as failed
+const READY_TIMEOUT_MS = 5000;
+
+const supportsWorker = (canvas: HTMLCanvasElement) =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined' &&
+  'transferControlToOffscreen' in canvas;
+
+const createWorkerClient = (
+  canvas: HTMLCanvasElement,
+  style: ArtStyleConfig,
+  width: number,
+  height: number,
+  options: SimulationClientOptions,
+  // Called once if the worker can't load, dies, or never becomes ready
+  onFailure: (err: Error) => void
+): SimulationClient => {
+  const worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+  const send = (msg: SimulationRequest, transfer: Transferable[] = []) => worker.postMessage(msg, transfer);
+
+  let frameInFlight = false;
+  let size = { width, height };
+  let disposed = false;
+  let ready = false;
+  let failed = false;
+  let nextCaptureId = 1;
+  let stats: PerformanceStats | null = null;
+  const pendingCaptures = new Map<number, { resolve: (blob: Blob) => void; reject: (err: Error) => void }>();
+  const pendingBackgrounds = new Map<number, { resolve: () => void; reject: (err: Error) => void }>();
+
+  const fail = (message: string) => {
+    if (failed || disposed) return;
+    failed = true;
+    onFailure(new Error(message));
+  };
+  const readyTimer = setTimeout(() => fail(`No answer from the simulation worker after ${READY_TIMEOUT_MS / 1000}s`), READY_TIMEOUT_MS);
+
+  worker.onerror = (e: ErrorEvent) => {
+    e.preventDefault();
+    fail(e.message || 'The simulation worker failed to load');
+  };
+  worker.onmessageerror = () => fail('Unreadable message from the simulation worker');
+
+  worker.onmessage = (e: MessageEvent<SimulationEvent>) => {
+    const event = e.data;
+    if (event.type === 'ready') {
+      ready = true;
+      clearTimeout(readyTimer);
+    }
+    // Without a host the worker can't do anything; an error after that is only one failed message
+    if (event.type === 'error' && !ready) {
+      fail(event.message);
+      return;
+    }
+    if (event.type === 'frameDone') frameInFlight = false;
+    if (event.type === 'error') console.error('Simulation worker error:', event.message);
+    if (event.type === 'stats') stats = event.stats;
+    if (event.type === 'captured' || event.type === 'captureFailed') {
+      const pending = pendingCaptures.get(event.id);
+      pendingCaptures.delete(event.id);
+      if (event.type === 'captured') pending?.resolve(event.blob);
+      else pending?.reject(new Error(event.message));
+    }
+    if (event.type === 'backgroundCaptured' || event.type === 'backgroundFailed') {
+      const pending = pendingBackgrounds.get(event.id);
+      pendingBackgrounds.delete(event.id);
+      if (event.type === 'backgroundCaptured') pending?.resolve();
+      else pending?.reject(new Error(event.message));
+    }
+    options.onEvent?.(event);
+  };
+
+  const offscreen = canvas.transferControlToOffscreen();
+  send({ type: 'init', canvas: offscreen, style, width, height }, [offscreen]);
+
+  // Drop frames while the worker is still busy instead of queueing them up
+  const pushFrame = (source: HTMLVideoElement | HTMLCanvasElement) => {
+    if (frameInFlight || disposed) return;
+    frameInFlight = true;
+    const { width: w, height: h } = sampleSize(size.width, size.height);
+    createImageBitmap(source, { resizeWidth: w, resizeHeight: h, resizeQuality: 'low' })
+      .then(frame => {
+        if (disposed) {
+          frame.close();
+          return;
+        }
+        send({ type: 'frame', frame }, [frame]);
+      })
+      .catch(() => { frameInFlight = false; });
+  };
+
+  return {
+    mode: 'worker',
+    canvas,
+    resize: (w, h) => {
+      size = { width: w, height: h };
+      send({ type: 'resize', width: w, height: h });
+    },
+    setStyle: (next, transition) => send({ type: 'style', style: next, transition }),
+    setStyleOffsets: (offsets) => send({ type: 'offsets', offsets }),
+    setForces: (sources) => send({ type: 'forces', sources }),
+    pushFrame,
+    capture: (kind, scale = 1) => new Promise<Blob>((resolve, reject) => {
+      const id = nextCaptureId++;
+      pendingCaptures.set(id, { resolve, reject });
+      send({ type: 'capture', id, kind, scale });
+    }),
+    captureBackground: (frames) => new Promise<void>((resolve, reject) => {
+      const id = nextCaptureId++;
+      pendingBackgrounds.set(id, { resolve, reject });
+      send({ type: 'captureBackground', id, frames });
+    }),
+    clearBackground: () => send({ type: 'clearBackground' }),
+    setMaskSettings: (settings) => send({ type: 'maskSettings', settings }),
+    // Copied rather than transferred, so the caller keeps its bitmap for the next simulation
+    setSprite: (image) => send({ type: 'sprite', image }),
+    setQualitySettings: (settings) => send({ type: 'quality', settings }),
+    getStats: () => stats,
+    dispose: () => {
+      disposed = true;
+      clearTimeout(readyTimer);
+      worker.terminate();
+      pendingCaptures.forEach(p => p.reject(new Error('Simulation stopped')));
+      pendingCaptures.clear();
+      pendingBackgrounds.forEach(p => p.reject(new Error('Simulation stopped')));
+      pendingBackgrounds.clear();
+    }
+  };
+};
+
+const createInlineClient = (
+  canvas: HTMLCanvasElement,
+  style: ArtStyleConfig,
+  width: number,
+  height: number,
+  options: SimulationClientOptions
+): SimulationClient => {
+  const host = createSimulationHost(canvas, style, {
+    onBackgroundLost: () => options.onEvent?.({ type: 'backgroundLost' })
+  });
+  host.resize(width, height);
+  options.onEvent?.({ type: 'ready', backend: host.backend });
+
+  return {
+    mode: 'inline',
+    canvas,
+    resize: host.resize,
+    setStyle: host.setStyle,
+    setStyleOffsets: host.setStyleOffsets,
+    setForces: host.setForces,
+    pushFrame: (source) => host.step(source),
+    capture: (kind, scale = 1) => (kind === 'snapshot' ? host.snapshot() : host.renderStill(scale)),
+    captureBackground: host.captureBackground,
+    clearBackground: host.clearBackground,
+    setMaskSettings: host.setMaskSettings,
+    setSprite: host.setSprite,
+    setQualitySettings: host.setQualitySettings,
+    getStats: host.getStats,
+    dispose: host.dispose
+  };
+};
+
+// Everything sent to the simulation that a replacement host needs to pick up where the worker was
+interface SimulationInputs {
+  style: ArtStyleConfig;
+  width: number;
+  height: number;
+  offsets: StyleOffsets | null;
+  sources: ForceSource[];
+  mask: MaskSettings | null;
+  sprite: ImageBitmap | null;
+  quality: QualitySettings | null;
+}
+
+/**
+ * The worker client, swapped for an inline one if the worker fails. The transferred canvas
+ * can't be drawn on from this thread any more, so the inline host gets a fresh canvas in its
+ * place and is brought up to date with the latest inputs. A captured background plate is lost.
+ */
+const createWorkerClientWithFallback = (
+  canvas: HTMLCanvasElement,
+  style: ArtStyleConfig,
+  width: number,
+  height: number,
+  options: SimulationClientOptions
+): SimulationClient => {
+  const inputs: SimulationInputs = {
+    style, width, height, offsets: null, sources: [], mask: null, sprite: null, quality: null
+  };
+
+  const runInline = (err: Error) => {
+    console.error('Simulation worker unavailable, running inline:', err);
+    client.dispose();
+    const fresh = document.createElement('canvas');
+    fresh.className = client.canvas.className;
+    client.canvas.replaceWith(fresh);
+    client = createInlineClient(fresh, inputs.style, inputs.width, inputs.height, options);
+    client.setForces(inputs.sources);
+    if (inputs.offsets) client.setStyleOffsets(inputs.offsets);
+    if (inputs.mask) client.setMaskSettings(inputs.mask);
+    if (inputs.sprite) client.setSprite(inputs.sprite);
+    if (inputs.quality) client.setQualitySettings(inputs.quality);
+  };
+
+  let client = createWorkerClient(canvas, style, width, height, options, runInline);
+
+  return {
+    get mode() { return client.mode; },
+    get canvas() { return client.canvas; },
+    resize: (w, h) => {
+      inputs.width = w;
+      inputs.height = h;
+      client.resize(w, h);
+    },
+    setStyle: (next, transition) => {
+      inputs.style = next;
+      client.setStyle(next, transition);
+    },
+    setStyleOffsets: (offsets) => {
+      inputs.offsets = offsets;
+      client.setStyleOffsets(offsets);
+    },
+    setForces: (sources) => {
+      inputs.sources = sources;
+      client.setForces(sources);
+    },
+    pushFrame: (source) => client.pushFrame(source),
+    capture: (kind, scale) => client.capture(kind, scale),
+    captureBackground: (frames) => client.captureBackground(frames),
+    clearBackground: () => client.clearBackground(),
+    setMaskSettings: (settings) => {
+      inputs.mask = settings;
+      client.setMaskSettings(settings);
+    },
+    setSprite: (image) => {
+      inputs.sprite = image;
+      client.setSprite(image);
+    },
+    setQualitySettings: (settings) => {
+      inputs.quality = settings;
+      client.setQualitySettings(settings);
+    },
+    getStats: () => client.getStats(),
+    dispose: () => client.dispose()
+  };
+};
+
+export const createSimulationClient = (
+  canvas: HTMLCanvasElement,
+  style: ArtStyleConfig,
+  width: number,
+  height: number,
+  options: SimulationClientOptions = {}
+): SimulationClient => {
+  if (supportsWorker(canvas)) {
+    try {
+      return createWorkerClientWithFallback(canvas, style, width, height, options);
+    } catch (err) {
+      console.error('Simulation worker unavailable, running inline:', err);
+    }
+  }
+  return createInlineClient(canvas, style, width, height, options);
+};
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createSimulationHost, SAMPLE_SCALE } from './simulationHost';
+import { validateStyle } from './styleValidation';
+
+// A canvas with no WebGL2 and a Canvas2D context that draws nothing and reads back flat grey
+class FakeCanvas {
+  private readonly ctx: CanvasRenderingContext2D;
+
+  constructor(public width = 300, public height = 150) {
+    const target: Record<PropertyKey, unknown> = {
+      canvas: this,
+      getImageData: (_x: number, _y: number, w: number, h: number) => ({
+        width: w, height: h, data: new Uint8ClampedArray(w * h * 4).fill(128)
+      })
+    };
+    this.ctx = new Proxy(target, {
+      get: (t, key) => (key in t ? t[key] : () => undefined)
+    }) as unknown as CanvasRenderingContext2D;
+  }
+
+  getContext(type: string) {
+    return type === '2d' ? this.ctx : null;
+  }
+}
+
+const style = validateStyle({ name: 'Test', colors: ['#000000', '#ffffff'] }).style;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('createSimulationHost', () => {
+  it('captures a background plate at full sampling while the governor has degraded quality', async () => {
+    vi.stubGlobal('OffscreenCanvas', FakeCanvas);
+    // Every frame takes 100ms, far below the 50fps target
+    let clock = 1000;
+    vi.spyOn(performance, 'now').mockImplementation(() => clock);
+    const onBackgroundLost = vi.fn();
+    const host = createSimulationHost(new FakeCanvas() as unknown as OffscreenCanvas, style, { onBackgroundLost });
+    host.resize(200, 200);
+    const frame = new FakeCanvas() as unknown as OffscreenCanvas;
+    const step = () => {
+      host.step(frame);
+      clock += 100;
+    };
+
+    for (let i = 0; i < 40; i++) step();
+    expect(host.getStats().qualityLevel).toBeGreaterThan(0);
+    expect(host.getStats().sampleScale).toBeLessThan(SAMPLE_SCALE);
+
+    const captured = host.captureBackground(3);
+    for (let i = 0; i < 3; i++) step();
+    await captured;
+    for (let i = 0; i < 3; i++) step();
+    expect(onBackgroundLost).not.toHaveBeenCalled();
+    expect(host.getStats().sampleScale).toBe(SAMPLE_SCALE);
+  });
+});
@@ -0,0 +1,258 @@
+import { ArtStyleConfig, ForceMode, ForceSource, StyleOffsets } from '../types';
+import { applyStyleOffsets } from './audioModulation';
+import { createConnectionBuilder, DEFAULT_CONNECTION_BUDGET } from './connections';
+import { createParticleEngine } from './particleEngine';
+import { createCanvasRenderer } from './canvasRenderer';
+import { createParticleRenderer, DrawMarker, DrawSurface } from './particleRenderer';
+import { createBackgroundSubtractor, MaskSettings } from './backgroundMask';
+import { createMotionEstimator } from './motionField';
+import { ActiveTransition, layersFor, ParticleLayer, resolveTransition, StyleTransition } from './styleTransition';
+import { canvasToBlob, createScratchCanvas, imageDataToBlob } from './surfaces';
+import {
+  createFrameMonitor,
+  createQualityGovernor,
+  DEFAULT_QUALITY_SETTINGS,
+  PerformanceStats,
+  QUALITY_LEVELS,
+  QualitySettings
+} from './qualityGovernor';
+
+/**
+ * Everything that happens per frame — sampling the input, stepping the engine, drawing —
+ * bundled so it can run either inside the simulation worker or inline on the main thread.
+ */
+
+// Input downsampling at full quality; the quality governor may go coarser
+export const SAMPLE_SCALE = QUALITY_LEVELS[0].sampleScale;
+
+export type FrameSource = ImageBitmap | HTMLVideoElement | HTMLCanvasElement | OffscreenCanvas;
+
+export interface SimulationHost {
+  readonly backend: 'webgl2' | 'canvas2d';
+  resize: (width: number, height: number) => void;
+  setStyle: (style: ArtStyleConfig, transition?: StyleTransition) => void;
+  setStyleOffsets: (offsets: StyleOffsets) => void;
+  setForces: (sources: ForceSource[]) => void;
+  step: (frame: FrameSource) => void;
+  snapshot: () => Promise<Blob>;
+  renderStill: (scale: number) => Promise<Blob>;
+  // Averages the next `frames` frames into a background plate; from then on only foreground drives particles
+  captureBackground: (frames: number) => Promise<void>;
+  clearBackground: () => void;
+  setMaskSettings: (settings: MaskSettings) => void;
+  // Image the SPRITE shape stamps; null falls back to circles
+  setSprite: (image: ImageBitmap | null) => void;
+  setQualitySettings: (settings: QualitySettings) => void;
+  getStats: () => PerformanceStats;
+  dispose: () => void;
+}
+
+export interface SimulationHostOptions {
+  // The background plate was dropped because the sampling size changed
+  onBackgroundLost?: () => void;
+}
+
+const HAND_MARKER_COLORS: Record<ForceMode, string> = {
+  touch: 'rgba(34, 211, 238, 0.4)',
+  repel: 'rgba(34, 211, 238, 0.4)',
+  attract: 'rgba(244, 114, 182, 0.4)',
+  explode: 'rgba(251, 191, 36, 0.6)',
+  freeze: 'rgba(191, 219, 254, 0.5)'
+};
+
+// Size the input is downsampled to before the engine reads it.
+export const sampleSize = (width: number, height: number, scale = SAMPLE_SCALE) => ({
+  width: Math.max(1, Math.floor(width * scale)),
+  height: Math.max(1, Math.floor(height * scale))
+});
+
+const createSampleContext = () =>
+  createScratchCanvas(1, 1).getContext('2d', { willReadFrequently: true }) as
+    OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+
+export const createSimulationHost = (
+  surface: DrawSurface,
+  initialStyle: ArtStyleConfig,
+  options: SimulationHostOptions = {}
+): SimulationHost => {
+  const renderer = createParticleRenderer(surface);
+  const engine = createParticleEngine(initialStyle);
+  const connections = createConnectionBuilder();
+  const background = createBackgroundSubtractor(undefined, options.onBackgroundLost);
+  const motion = createMotionEstimator();
+  const sampleCtx = createSampleContext();
+  if (!sampleCtx) throw new Error('Cannot create sampling context');
+
+  let baseStyle = initialStyle;
+  let transition: ActiveTransition | null = null;
+  let offsets: StyleOffsets = {};
+  let forces: ForceSource[] = [];
+  let sprite: ImageBitmap | null = null;
+  const monitor = createFrameMonitor();
+  const governor = createQualityGovernor();
+  let qualitySettings = DEFAULT_QUALITY_SETTINGS;
+  let sampleScale = SAMPLE_SCALE;
+  let width = 0;
+  let height = 0;
+
+  const resize = (w: number, h: number) => {
+    width = w;
+    height = h;
+    renderer.resize(w, h);
+    engine.resize(w, h);
+  };
+
+  // The style on screen right now: mid-transition blend (plus its draw layers) with live offsets on top.
+  const resolveStyle = (now: number): { style: ArtStyleConfig; layers: ParticleLayer[] } => {
+    let style = baseStyle;
+    let layers = layersFor(baseStyle);
+    if (transition) {
+      const resolved = resolveTransition(transition, now);
+      style = resolved.style;
+      layers = resolved.layers;
+      if (resolved.done) transition = null;
+    }
+    return { style: applyStyleOffsets(style, offsets), layers };
+  };
+
+  // A new style morphs from whatever is currently visible, even if that is itself mid-transition.
+  const setStyle = (next: ArtStyleConfig, options?: StyleTransition) => {
+    const now = performance.now();
+    const from = transition ? resolveTransition(transition, now).style : baseStyle;
+    baseStyle = next;
+    transition = options && options.durationMs > 0 ? { from, to: next, startedAt: now, options } : null;
+  };
+
+  const setStyleOffsets = (next: StyleOffsets) => {
+    offsets = next;
+  };
+
+  const setForces = (next: ForceSource[]) => {
+    forces = next;
+  };
+
+  const setSprite = (image: ImageBitmap | null) => {
+    sprite = image;
+    renderer.setSprite(image);
+  };
+
+  const step = (frame: FrameSource) => {
+    if (width <= 0 || height <= 0) return;
+    const startedAt = performance.now();
+    const { style, layers } = resolveStyle(startedAt);
+    const quality = QUALITY_LEVELS[governor.update(monitor, qualitySettings, startedAt)];
+    engine.setStyle(quality.densityScale === 1 ? style : { ...style, density: style.density * quality.densityScale });
+
+    // A background plate only fits the sampling size it was taken at, so keep that while one is
+    // being captured or held
+    sampleScale = background.hasPlate || background.capturing ? SAMPLE_SCALE : quality.sampleScale;
+    const { width: w, height: h } = sampleSize(width, height, sampleScale);
+    const sampleCanvas = sampleCtx.canvas;
+    if (sampleCanvas.width !== w || sampleCanvas.height !== h) {
+      sampleCanvas.width = w;
+      sampleCanvas.height = h;
+    }
+    sampleCtx.drawImage(frame, 0, 0, w, h);
+    const image = sampleCtx.getImageData(0, 0, w, h);
+    // The fluid grid is stirred by motion too
+    const wantsMotion = style.motionStrength > 0 || style.fluidCoupling > 0;
+    if (!wantsMotion) motion.reset();
+    engine.step({
+      width: w,
+      height: h,
+      data: image.data,
+      mask: background.update(image),
+      motion: wantsMotion ? motion.update(image) : null
+    }, forces);
+    const simulatedAt = performance.now();
+
+    // TRACKING DOTS (Visual Feedback), one per force source
+    const markers: DrawMarker[] = forces.map(source => ({
+      x: source.x,
+      y: source.y,
+      radius: source.kind === 'hand' ? 15 : 5,
+      color: source.kind === 'hand' ? HAND_MARKER_COLORS[source.mode] : 'rgba(255, 255, 255, 0.2)'
+    }));
+
+    renderer.render({
+      particles: engine.particles,
+      style,
+      layers,
+      connections: connections.build(
+        engine.particles, style.connectionDistance, Math.round(DEFAULT_CONNECTION_BUDGET * quality.connectionScale), width, height
+      ),
+      markers
+    });
+    monitor.record(startedAt, simulatedAt - startedAt, performance.now() - simulatedAt);
+  };
+
+  const getStats = (): PerformanceStats => {
+    const particles = engine.particles;
+    let visible = 0;
+    for (let i = 0; i < particles.length; i++) if (particles[i].visible) visible++;
+    return {
+      fps: monitor.fps,
+      frameMs: monitor.frameMs,
+      simMs: monitor.simMs,
+      drawMs: monitor.drawMs,
+      particles: particles.length,
+      visible,
+      sampleScale,
+      qualityLevel: governor.level,
+      governor: qualitySettings.governor
+    };
+  };
+
+  // PNG of exactly what is on screen, trails included
+  const snapshot = () => {
+    const image = renderer.readPixels();
+    if (!image) return Promise.reject(new Error('Nothing rendered yet'));
+    return imageDataToBlob(image);
+  };
+
+  // Redraws the current particle state on a larger Canvas2D surface. Trails can't be
+  // reconstructed, so the still starts from black.
+  const renderStill = (scale: number) => {
+    if (width <= 0 || height <= 0) return Promise.reject(new Error('Nothing rendered yet'));
+    const canvas = createScratchCanvas(Math.round(width * scale), Math.round(height * scale));
+    const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+    if (!ctx) return Promise.reject(new Error('Cannot create still canvas'));
+    const stillRenderer = createCanvasRenderer(ctx);
+    stillRenderer.resize(canvas.width, canvas.height);
+    stillRenderer.setSprite(sprite);
+
+    const resolved = resolveStyle(performance.now());
+    const style = { ...resolved.style, trailEffect: 1 };
+    const particles = engine.particles.map(p => ({
+      ...p, x: p.x * scale, y: p.y * scale, vx: p.vx * scale, vy: p.vy * scale, size: p.size * scale
+    }));
+    stillRenderer.render({
+      particles,
+      style,
+      layers: resolved.layers,
+      connections: createConnectionBuilder().build(
+        particles, style.connectionDistance * scale, DEFAULT_CONNECTION_BUDGET, canvas.width, canvas.height
+      ),
+      markers: []
+    });
+    return canvasToBlob(canvas);
+  };
+
+  return {
+    backend: renderer.backend,
+    resize,
+    setStyle,
+    setStyleOffsets,
+    setForces,
+    step,
+    snapshot,
+    renderStill,
+    captureBackground: background.capture,
+    clearBackground: background.clear,
+    setMaskSettings: background.setSettings,
+    setSprite,
+    setQualitySettings: (settings) => { qualitySettings = settings; },
+    getStats,
+    dispose: renderer.dispose
+  };
+};
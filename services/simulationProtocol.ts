@@ -0,0 +1,36 @@
+import { ArtStyleConfig, ForceSource, StyleOffsets } from '../types';
+import { StyleTransition } from './styleTransition';
+import { MaskSettings } from './backgroundMask';
+import { PerformanceStats, QualitySettings } from './qualityGovernor';
+
+/**
+ * Messages between the main thread and the simulation worker. The main thread only sends
+ * inputs (frames, style, forces); the worker owns the OffscreenCanvas and does all the work.
+ */
+
+export type SimulationRequest =
+  | { type: 'init'; canvas: OffscreenCanvas; style: ArtStyleConfig; width: number; height: number }
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'style'; style: ArtStyleConfig; transition?: StyleTransition }
+  | { type: 'offsets'; offsets: StyleOffsets }
+  | { type: 'forces'; sources: ForceSource[] }
+  | { type: 'frame'; frame: ImageBitmap }
+  | { type: 'capture'; id: number; kind: CaptureKind; scale: number }
+  | { type: 'captureBackground'; id: number; frames: number }
+  | { type: 'clearBackground' }
+  | { type: 'maskSettings'; settings: MaskSettings }
+  | { type: 'sprite'; image: ImageBitmap | null }
+  | { type: 'quality'; settings: QualitySettings };
+
+export type CaptureKind = 'snapshot' | 'still';
+
+export type SimulationEvent =
+  | { type: 'ready'; backend: 'webgl2' | 'canvas2d' }
+  | { type: 'frameDone' }
+  | { type: 'captured'; id: number; blob: Blob }
+  | { type: 'captureFailed'; id: number; message: string }
+  | { type: 'backgroundCaptured'; id: number }
+  | { type: 'backgroundFailed'; id: number; message: string }
+  | { type: 'backgroundLost' }
+  | { type: 'stats'; stats: PerformanceStats }
+  | { type: 'error'; message: string };
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { createSpatialHash, MIN_CELL_SIZE } from './spatialHash';
+import { createConnectionBuilder } from './connections';
+import { Particle } from '../types';
+
+const particle = (x: number, y: number): Particle => ({
+  x, y, originX: x, originY: y, vx: 0, vy: 0, size: 1, color: '#ffffff', brightness: 255, visible: true
+});
+
+describe('createSpatialHash', () => {
+  it('buckets points by cell', () => {
+    const hash = createSpatialHash();
+    const points = [{ x: 5, y: 5 }, { x: 40, y: 5 }, { x: 6, y: 6 }];
+    hash.rebuild(points, () => true, 64, 64, 32);
+    const c = hash.cellOf(5, 5);
+    expect(Array.from(hash.items.slice(hash.cellStart[c], hash.cellStart[c + 1])).sort()).toEqual([0, 2]);
+  });
+
+  it('keeps cells at least MIN_CELL_SIZE wide for tiny radii', () => {
+    const hash = createSpatialHash();
+    hash.rebuild([], () => true, 1920, 1080, 1);
+    expect(hash.cellSize).toBe(MIN_CELL_SIZE);
+    expect(hash.cols * hash.rows).toBe(Math.ceil(1920 / MIN_CELL_SIZE) * Math.ceil(1080 / MIN_CELL_SIZE));
+  });
+
+  it('still finds neighbours closer than a tiny connection distance', () => {
+    const particles = [particle(100, 100), particle(101, 100), particle(110, 100)];
+    const { count } = createConnectionBuilder().build(particles, 2, 100, 200, 200);
+    expect(count).toBe(1);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Uniform grid over screen space, rebuilt every frame with a counting sort so neighbour
+ * queries only look at adjacent cells. Arrays are reused between frames to avoid GC churn.
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface SpatialHash {
+  readonly cols: number;
+  readonly rows: number;
+  readonly cellSize: number;
+  // Items of cell c are items[cellStart[c] .. cellStart[c + 1])
+  readonly cellStart: Int32Array;
+  readonly items: Int32Array;
+  rebuild: (points: ArrayLike<Point>, include: (index: number) => boolean, width: number, height: number, cellSize: number) => void;
+  cellOf: (x: number, y: number) => number;
+}
+
+// A few-pixel query radius would otherwise mean millions of cells to clear every frame. Cells
+// wider than the radius stay correct for 3x3 neighbour queries, just less selective.
+export const MIN_CELL_SIZE = 16;
+
+export const createSpatialHash = (): SpatialHash => {
+  let cols = 0;
+  let rows = 0;
+  let size = 1;
+  let cellStart = new Int32Array(1);
+  let items = new Int32Array(0);
+  let itemCells = new Int32Array(0);
+
+  const cellOf = (x: number, y: number) => {
+    const cx = Math.min(cols - 1, Math.max(0, Math.floor(x / size)));
+    const cy = Math.min(rows - 1, Math.max(0, Math.floor(y / size)));
+    return cy * cols + cx;
+  };
+
+  const rebuild: SpatialHash['rebuild'] = (points, include, width, height, cellSize) => {
+    size = Math.max(MIN_CELL_SIZE, cellSize);
+    cols = Math.max(1, Math.ceil(width / size));
+    rows = Math.max(1, Math.ceil(height / size));
+    const cellCount = cols * rows;
+    if (cellStart.length < cellCount + 1) cellStart = new Int32Array(cellCount + 1);
+    if (itemCells.length < points.length) itemCells = new Int32Array(points.length);
+    cellStart.fill(0, 0, cellCount + 1);
+
+    let total = 0;
+    for (let i = 0; i < points.length; i++) {
+      if (!include(i)) {
+        itemCells[i] = -1;
+        continue;
+      }
+      const c = cellOf(points[i].x, points[i].y);
+      itemCells[i] = c;
+      cellStart[c + 1]++;
+      total++;
+    }
+    for (let c = 0; c < cellCount; c++) cellStart[c + 1] += cellStart[c];
+
+    if (items.length < total) items = new Int32Array(total);
+    // Scatter using a running cursor per cell (cellStart is restored afterwards)
+    for (let i = 0; i < points.length; i++) {
+      const c = itemCells[i];
+      if (c < 0) continue;
+      items[cellStart[c]++] = i;
+    }
+    for (let c = cellCount; c > 0; c--) cellStart[c] = cellStart[c - 1];
+    cellStart[0] = 0;
+  };
+
+  return {
+    get cols() { return cols; },
+    get rows() { return rows; },
+    get cellSize() { return size; },
+    get cellStart() { return cellStart; },
+    get items() { return items; },
+    rebuild,
+    cellOf
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { isEdited, recordEdit, redo, startHistory, undo } from './styleHistory';
+import { validateStyle } from './styleValidation';
+
+const base = validateStyle({ name: 'Base', colors: ['#000000'], speed: 1 }).style;
+const withSpeed = (speed: number) => ({ ...base, speed });
+
+describe('style history', () => {
+  it('undoes and redoes edits', () => {
+    let history = startHistory(base);
+    history = recordEdit(history, withSpeed(2), 'speed', 0);
+    history = recordEdit(history, { ...history.present, friction: 0.5 }, 'friction', 100);
+    expect(isEdited(history)).toBe(true);
+
+    history = undo(history);
+    expect(history.present).toEqual(withSpeed(2));
+    history = undo(history);
+    expect(history.present).toBe(base);
+    expect(undo(history)).toBe(history);
+
+    history = redo(redo(history));
+    expect(history.present.friction).toBe(0.5);
+    expect(redo(history)).toBe(history);
+  });
+
+  it('folds a drag on one field into a single step', () => {
+    let history = startHistory(base);
+    for (let i = 0; i < 10; i++) history = recordEdit(history, withSpeed(1 + i * 0.1), 'speed', i * 50);
+    expect(history.past).toEqual([base]);
+    expect(undo(history).present).toBe(base);
+  });
+
+  it('starts a new step after a pause or on another field', () => {
+    let history = startHistory(base);
+    history = recordEdit(history, withSpeed(2), 'speed', 0);
+    history = recordEdit(history, withSpeed(3), 'speed', 1000);
+    history = recordEdit(history, { ...history.present, friction: 0.5 }, 'friction', 1100);
+    expect(history.past).toHaveLength(3);
+  });
+
+  it('does not fold into an edit that was undone', () => {
+    let history = startHistory(base);
+    history = recordEdit(history, withSpeed(2), 'speed', 0);
+    history = undo(history);
+    history = recordEdit(history, withSpeed(3), 'speed', 10);
+    expect(history.past).toEqual([base]);
+  });
+
+  it('drops redo steps on a new edit', () => {
+    let history = startHistory(base);
+    history = recordEdit(history, withSpeed(2), 'speed', 0);
+    history = recordEdit(undo(history), withSpeed(4), 'speed', 5000);
+    expect(history.future).toEqual([]);
+    expect(redo(history)).toBe(history);
+  });
+
+  it('keeps at most 100 steps', () => {
+    let history = startHistory(base);
+    for (let i = 1; i <= 150; i++) history = recordEdit(history, withSpeed(i), 'speed', i * 1000);
+    expect(history.past).toHaveLength(100);
+    expect(history.past[0].speed).toBe(50);
+    expect(history.original).toBe(base);
+  });
+});
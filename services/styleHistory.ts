@@ -0,0 +1,59 @@
+import { ArtStyleConfig } from '../types';
+
+/**
+ * Undo/redo over manual style edits. Immutable, so it can live in React state. A slider drag
+ * fires dozens of changes; consecutive edits to the same field close together fold into one
+ * step. `original` is the style the editing session started from, for A/B comparison.
+ */
+
+export interface StyleHistory {
+  original: ArtStyleConfig;
+  past: ArtStyleConfig[];
+  present: ArtStyleConfig;
+  future: ArtStyleConfig[];
+  // The field and time of the last edit, for folding drags into one step
+  lastField: string | null;
+  lastAt: number;
+}
+
+const MAX_STEPS = 100;
+const COALESCE_MS = 600;
+
+export const startHistory = (style: ArtStyleConfig): StyleHistory => ({
+  original: style,
+  past: [],
+  present: style,
+  future: [],
+  lastField: null,
+  lastAt: 0
+});
+
+export const recordEdit = (history: StyleHistory, next: ArtStyleConfig, field: string, now: number): StyleHistory => {
+  const coalesce = field === history.lastField && now - history.lastAt < COALESCE_MS && history.past.length > 0;
+  const past = coalesce ? history.past : [...history.past, history.present].slice(-MAX_STEPS);
+  return { ...history, past, present: next, future: [], lastField: field, lastAt: now };
+};
+
+export const undo = (history: StyleHistory): StyleHistory => {
+  if (history.past.length === 0) return history;
+  return {
+    ...history,
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    lastField: null
+  };
+};
+
+export const redo = (history: StyleHistory): StyleHistory => {
+  if (history.future.length === 0) return history;
+  return {
+    ...history,
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    lastField: null
+  };
+};
+
+export const isEdited = (history: StyleHistory) => history.present !== history.original;
@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createStyleLibrary, parseTags } from './styleLibrary';
+import { validateStyle } from './styleValidation';
+
+const STORAGE_KEY = 'artflow.library.v1';
+
+const memoryStorage = (initial: Record<string, string> = {}) => {
+  const items = new Map(Object.entries(initial));
+  return {
+    items,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); }
+  } as unknown as Storage & { items: Map<string, string> };
+};
+
+const style = (name: string) => validateStyle({ name, colors: ['#000000', '#ffffff'] }).style;
+
+describe('createStyleLibrary', () => {
+  it('saves, updates and removes entries, and persists them', () => {
+    const storage = memoryStorage();
+    const library = createStyleLibrary(storage);
+    const entry = library.save(style('One'), { tags: ['Warm ', 'warm', 'dark'] });
+    expect(entry.tags).toEqual(['warm', 'dark']);
+    library.update(entry.id, { name: 'Renamed', favourite: true });
+    expect(library.list()[0]).toMatchObject({ favourite: true, style: { name: 'Renamed' } });
+
+    const reloaded = createStyleLibrary(storage).list();
+    expect(reloaded).toEqual(library.list());
+    library.remove(entry.id);
+    expect(createStyleLibrary(storage).list()).toEqual([]);
+  });
+
+  it('notifies subscribers and keeps list() stable between changes', () => {
+    const library = createStyleLibrary(memoryStorage());
+    let calls = 0;
+    const unsubscribe = library.subscribe(() => calls++);
+    const before = library.list();
+    expect(library.list()).toBe(before);
+    library.save(style('One'));
+    expect(library.list()).not.toBe(before);
+    unsubscribe();
+    library.save(style('Two'));
+    expect(calls).toBe(1);
+  });
+
+  it('validates entries read back from storage', () => {
+    const stored = [{ id: 'a', style: { name: 'Hand edited', speed: 99 }, tags: ['x', 3] }, { nope: true }];
+    const library = createStyleLibrary(memoryStorage({ [STORAGE_KEY]: JSON.stringify(stored) }));
+    expect(library.list()).toHaveLength(1);
+    expect(library.list()[0]).toMatchObject({ id: 'a', tags: ['x'], favourite: false, style: { speed: 5 } });
+  });
+
+  it('keeps an unreadable store aside instead of overwriting it', () => {
+    const storage = memoryStorage({ [STORAGE_KEY]: '{broken' });
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const library = createStyleLibrary(storage);
+    expect(library.list()).toEqual([]);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+    library.save(style('Fresh'));
+    expect(storage.items.get(`${STORAGE_KEY}.corrupt`)).toBe('{broken');
+  });
+
+  it('leaves the library unchanged when storage refuses the write', () => {
+    const storage = memoryStorage();
+    const library = createStyleLibrary(storage);
+    library.save(style('One'));
+    storage.setItem = () => { throw new Error('QuotaExceededError'); };
+    expect(() => library.save(style('Two'))).toThrow('QuotaExceededError');
+    expect(library.list().map(e => e.style.name)).toEqual(['One']);
+    expect(() => library.saveAll([{ style: style('Two') }, { style: style('Three') }])).toThrow('QuotaExceededError');
+    expect(library.list().map(e => e.style.name)).toEqual(['One']);
+  });
+
+  it('saves a batch in one write', () => {
+    const storage = memoryStorage();
+    const setItem = vi.spyOn(storage, 'setItem');
+    const library = createStyleLibrary(storage);
+    const saved = library.saveAll([{ style: style('One'), favourite: true }, { style: style('Two'), tags: ['Dark'] }]);
+    expect(setItem).toHaveBeenCalledTimes(1);
+    expect(saved.map(e => [e.style.name, e.favourite, e.tags])).toEqual([['One', true, []], ['Two', false, ['dark']]]);
+    expect(createStyleLibrary(storage).list()).toEqual(saved);
+  });
+
+  it('works without storage for the session', () => {
+    const library = createStyleLibrary(null);
+    library.save(style('One'));
+    expect(library.list()).toHaveLength(1);
+  });
+});
+
+describe('parseTags', () => {
+  it('splits, trims, lowercases and dedupes', () => {
+    expect(parseTags(' Neon, neon ,, Soft ')).toEqual(['neon', 'soft']);
+  });
+});
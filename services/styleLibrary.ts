@@ -0,0 +1,162 @@
+import { ArtStyleConfig } from '../types';
+import { validateStyle } from './styleValidation';
+
+/**
+ * The user's own saved styles, kept in localStorage. Entries are validated on the way in and
+ * again when read back, so a hand-edited or older store can't feed the renderer bad values.
+ */
+
+export interface LibraryEntry {
+  id: string;
+  style: ArtStyleConfig;
+  favourite: boolean;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface LibraryEntryPatch {
+  name?: string;
+  favourite?: boolean;
+  tags?: string[];
+  style?: ArtStyleConfig;
+}
+
+// A style to save along with its library extras
+export interface LibraryDraft {
+  style: ArtStyleConfig;
+  favourite?: boolean;
+  tags?: string[];
+}
+
+export interface StyleLibrary {
+  // Stable between changes, so it can back useSyncExternalStore
+  list: () => LibraryEntry[];
+  save: (style: ArtStyleConfig, extras?: { favourite?: boolean; tags?: string[] }) => LibraryEntry;
+  // All in one write: either every draft is saved or none is
+  saveAll: (drafts: LibraryDraft[]) => LibraryEntry[];
+  update: (id: string, patch: LibraryEntryPatch) => void;
+  remove: (id: string) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+const STORAGE_KEY = 'artflow.library.v1';
+const MAX_TAGS = 12;
+const MAX_TAG_LENGTH = 24;
+
+export const normalizeTags = (tags: string[]) =>
+  Array.from(new Set(tags.map(t => t.trim().toLowerCase().slice(0, MAX_TAG_LENGTH)).filter(Boolean))).slice(0, MAX_TAGS);
+
+export const parseTags = (text: string) => normalizeTags(text.split(','));
+
+const newId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readEntry = (value: unknown): LibraryEntry | null => {
+  if (!isRecord(value) || typeof value.id !== 'string') return null;
+  const { style } = validateStyle(value.style);
+  const now = Date.now();
+  return {
+    id: value.id,
+    style,
+    favourite: value.favourite === true,
+    tags: Array.isArray(value.tags) ? normalizeTags(value.tags.filter((t): t is string => typeof t === 'string')) : [],
+    createdAt: typeof value.createdAt === 'number' ? value.createdAt : now,
+    updatedAt: typeof value.updatedAt === 'number' ? value.updatedAt : now
+  };
+};
+
+const load = (storage: Storage): LibraryEntry[] => {
+  const raw = storage.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) throw new Error('Library is not a list');
+    return parsed.map(readEntry).filter((e): e is LibraryEntry => e !== null);
+  } catch (err) {
+    // Keep the unreadable copy around rather than overwrite it on the next save
+    console.error('Style library unreadable, starting empty:', err);
+    storage.setItem(`${STORAGE_KEY}.corrupt`, raw);
+    return [];
+  }
+};
+
+const defaultStorage = () => {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    // Blocked storage (privacy mode, sandboxed iframes) throws on access
+    return null;
+  }
+};
+
+// Without storage the library still works for the session, it just doesn't survive a reload.
+export const createStyleLibrary = (storage: Storage | null = defaultStorage()): StyleLibrary => {
+  let entries: LibraryEntry[] = storage ? load(storage) : [];
+  const listeners = new Set<() => void>();
+
+  const commit = (next: LibraryEntry[]) => {
+    // Write first: if the quota is full the caller gets the error and nothing changes
+    storage?.setItem(STORAGE_KEY, JSON.stringify(next));
+    entries = next;
+    listeners.forEach(listener => listener());
+  };
+
+  // Another tab changed the library
+  if (storage && typeof window !== 'undefined') {
+    window.addEventListener('storage', (e) => {
+      if (e.key !== STORAGE_KEY) return;
+      entries = load(storage);
+      listeners.forEach(listener => listener());
+    });
+  }
+
+  const saveAll = (drafts: LibraryDraft[]) => {
+    const now = Date.now();
+    const added = drafts.map((draft): LibraryEntry => ({
+      id: newId(),
+      style: validateStyle(draft.style).style,
+      favourite: draft.favourite ?? false,
+      tags: normalizeTags(draft.tags ?? []),
+      createdAt: now,
+      updatedAt: now
+    }));
+    commit([...entries, ...added]);
+    return added;
+  };
+
+  const save = (style: ArtStyleConfig, extras: { favourite?: boolean; tags?: string[] } = {}) =>
+    saveAll([{ style, ...extras }])[0];
+
+  const update = (id: string, patch: LibraryEntryPatch) => {
+    commit(entries.map(entry => {
+      if (entry.id !== id) return entry;
+      let style = patch.style ? validateStyle(patch.style).style : entry.style;
+      if (patch.name !== undefined && patch.name.trim()) style = { ...style, name: patch.name.trim() };
+      return {
+        ...entry,
+        style,
+        favourite: patch.favourite ?? entry.favourite,
+        tags: patch.tags ? normalizeTags(patch.tags) : entry.tags,
+        updatedAt: Date.now()
+      };
+    }));
+  };
+
+  return {
+    list: () => entries,
+    save,
+    saveAll,
+    update,
+    remove: (id) => commit(entries.filter(entry => entry.id !== id)),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }
+  };
+};
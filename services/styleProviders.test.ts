@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { createMockStyleProvider, generateStyle, isAbortError, StyleProvider } from './styleProviders';
+import { createLocalStyleProvider, deriveLocalStyle } from './localStyleProvider';
+
+// Never answers unless its signal aborts
+const hangingProvider: StyleProvider = {
+  id: 'gemini',
+  label: 'Hanging',
+  generate: ({ signal }) => new Promise((_, reject) => signal?.addEventListener('abort', () => reject(signal.reason)))
+};
+
+describe('generateStyle', () => {
+  it('uses the first provider that answers', async () => {
+    const first = createMockStyleProvider();
+    const second = createMockStyleProvider();
+    const answer = await generateStyle({ prompt: 'rain' }, [first, second]);
+    expect(answer.results[0].style.name).toBe('Mock: rain');
+    expect(answer.failures).toEqual([]);
+    expect(second.prompts).toEqual([]);
+  });
+
+  it('falls back past failing providers and reports why', async () => {
+    const failing = createMockStyleProvider({ failWith: 'quota exceeded' });
+    const answer = await generateStyle({ prompt: 'rain' }, [failing, createMockStyleProvider({ style: { name: 'Backup' } })]);
+    expect(answer.results[0].style.name).toBe('Backup');
+    expect(answer.failures).toEqual([{ provider: 'mock', label: 'Mock', message: 'quota exceeded' }]);
+  });
+
+  it('rejects with every reason when all providers fail', async () => {
+    const providers = [createMockStyleProvider({ failWith: 'one' }), createMockStyleProvider({ failWith: 'two' })];
+    await expect(generateStyle({ prompt: 'rain' }, providers)).rejects.toThrow('Mock: one\nMock: two');
+  });
+
+  it('times out a hung provider and moves on', async () => {
+    const answer = await generateStyle({ prompt: 'rain' }, [hangingProvider, createMockStyleProvider()], 20);
+    expect(answer.provider).toBe('mock');
+    expect(answer.failures[0].message).toBe('No answer after 0.02s');
+  });
+
+  it('stops the whole chain when the caller aborts', async () => {
+    const controller = new AbortController();
+    const fallback = createMockStyleProvider();
+    const pending = generateStyle({ prompt: 'rain', signal: controller.signal }, [hangingProvider, fallback]);
+    controller.abort();
+    const error = await pending.catch(err => err);
+    expect(isAbortError(error)).toBe(true);
+    expect(fallback.prompts).toEqual([]);
+  });
+
+  it('clamps the candidate count', async () => {
+    const answer = await generateStyle({ prompt: 'rain', count: 10 }, [createMockStyleProvider()]);
+    expect(answer.results.map(r => r.style.name)).toEqual(['Mock: rain (1)', 'Mock: rain (2)', 'Mock: rain (3)', 'Mock: rain (4)']);
+  });
+});
+
+describe('local style provider', () => {
+  it('returns the same style for the same prompt', async () => {
+    const provider = createLocalStyleProvider();
+    const [a] = await provider.generate({ prompt: 'Neon rain at night' });
+    const [b] = await provider.generate({ prompt: '  neon RAIN at night ' });
+    // Only the description quotes the prompt as typed
+    expect({ ...a.style, description: '' }).toEqual({ ...b.style, description: '' });
+    expect(deriveLocalStyle('ocean storm')).toEqual(deriveLocalStyle('ocean storm'));
+  });
+
+  it('gives distinct, repeatable variations', async () => {
+    const provider = createLocalStyleProvider();
+    const first = await provider.generate({ prompt: 'forest', count: 3 });
+    const again = await provider.generate({ prompt: 'forest', count: 3 });
+    expect(first.map(r => r.style)).toEqual(again.map(r => r.style));
+    expect(new Set(first.map(r => r.style.name)).size).toBe(3);
+  });
+
+  it('refines relative to the base style', async () => {
+    const base = deriveLocalStyle('forest');
+    const [refined] = await createLocalStyleProvider().generate({ prompt: 'slower', base });
+    expect(refined.style.speed).toBeLessThan(base.speed);
+  });
+});
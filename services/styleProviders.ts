@@ -0,0 +1,156 @@
+import { ArtStyleConfig, ParticleShape } from '../types';
+import { StyleValidationResult, validateStyle } from './styleValidation';
+import { DEFAULT_GLYPH_FONT, DEFAULT_GLYPH_RAMP } from './shapeAssets';
+
+/**
+ * Anything that turns a text prompt into a style. Providers reject with a readable reason
+ * rather than inventing a style, so callers can say which one produced the result and why
+ * earlier ones were skipped.
+ */
+
+export type StyleProviderId = 'gemini' | 'local' | 'mock';
+
+export interface StyleRequest {
+  prompt: string;
+  // Refine mode: the style to modify, and the instructions that produced it, oldest first
+  base?: ArtStyleConfig;
+  history?: string[];
+  // How many distinct candidates to return; 1 unless asking for variations
+  count?: number;
+  signal?: AbortSignal;
+}
+
+export interface StyleProvider {
+  readonly id: StyleProviderId;
+  readonly label: string;
+  // Resolves with between 1 and `count` validated styles
+  generate: (request: StyleRequest) => Promise<StyleValidationResult[]>;
+}
+
+export interface ProviderFailure {
+  provider: StyleProviderId;
+  label: string;
+  message: string;
+}
+
+export interface GeneratedStyles {
+  results: StyleValidationResult[];
+  provider: StyleProviderId;
+  providerLabel: string;
+  // Providers tried before the one that answered, in order
+  failures: ProviderFailure[];
+}
+
+export const MAX_VARIATIONS = 4;
+// Per provider, so a hung network call still leaves time for the local fallback
+export const STYLE_TIMEOUT_MS = 20000;
+
+export const formatFailures = (failures: ProviderFailure[]) =>
+  failures.map(f => `${f.label}: ${f.message}`).join('\n');
+
+export const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+// Settles with the promise, or rejects with the signal's reason as soon as it aborts
+const abortable = <T>(promise: Promise<T>, signal: AbortSignal) => new Promise<T>((resolve, reject) => {
+  if (signal.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const onAbort = () => reject(signal.reason);
+  signal.addEventListener('abort', onAbort, { once: true });
+  promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+});
+
+// Tries each provider in turn and returns the first answer; rejects only when all of them fail.
+// Each attempt is cut off after `timeoutMs`; aborting `request.signal` stops the whole chain
+// with an AbortError instead of falling back.
+export const generateStyle = async (
+  request: StyleRequest,
+  providers: StyleProvider[],
+  timeoutMs = STYLE_TIMEOUT_MS
+): Promise<GeneratedStyles> => {
+  const count = Math.min(MAX_VARIATIONS, Math.max(1, Math.round(request.count ?? 1)));
+  const failures: ProviderFailure[] = [];
+  for (const provider of providers) {
+    const controller = new AbortController();
+    const cancel = () => controller.abort(new DOMException('Generation cancelled', 'AbortError'));
+    if (request.signal?.aborted) cancel();
+    request.signal?.addEventListener('abort', cancel, { once: true });
+    const timer = setTimeout(() => controller.abort(new Error(`No answer after ${timeoutMs / 1000}s`)), timeoutMs);
+    try {
+      const results = await abortable(provider.generate({ ...request, count, signal: controller.signal }), controller.signal);
+      if (results.length === 0) throw new Error('No styles returned');
+      return { results: results.slice(0, count), provider: provider.id, providerLabel: provider.label, failures };
+    } catch (err) {
+      if (request.signal?.aborted) throw controller.signal.reason;
+      failures.push({ provider: provider.id, label: provider.label, message: err instanceof Error ? err.message : String(err) });
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', cancel);
+    }
+  }
+  throw new Error(failures.length > 0 ? formatFailures(failures) : 'No style provider configured');
+};
+
+const MOCK_STYLE: ArtStyleConfig = {
+  name: 'Mock Style',
+  description: '',
+  colors: ['#000000', '#808080', '#ffffff'],
+  particleSizeMin: 1,
+  particleSizeMax: 6,
+  density: 8,
+  speed: 1.5,
+  friction: 0.9,
+  shape: ParticleShape.CIRCLE,
+  blendingMode: 'source-over',
+  connectionDistance: 0,
+  trailEffect: 0.2,
+  noiseStrength: 2,
+  flowFieldStrength: 1,
+  interactionMode: 'repel',
+  interactionRadius: 200,
+  interactionStrength: 35,
+  interactionFalloff: 'linear',
+  motionStrength: 1,
+  samplingChannel: 'brightness',
+  colorMode: 'stepped',
+  glyphRamp: DEFAULT_GLYPH_RAMP,
+  glyphFont: DEFAULT_GLYPH_FONT,
+  fluidCoupling: 0,
+  fluidViscosity: 0.1,
+  fluidVorticity: 1
+};
+
+export interface MockStyleProviderOptions {
+  // Merged over the fixed mock style
+  style?: Partial<ArtStyleConfig>;
+  // Reject every request with this message instead
+  failWith?: string;
+}
+
+export interface MockStyleProvider extends StyleProvider {
+  // Every prompt received, in order
+  readonly prompts: string[];
+}
+
+// Answers instantly with the same styles every time (named after the prompt and candidate
+// number); a refinement keeps the base style and only renames it. For tests and demos.
+export const createMockStyleProvider = (options: MockStyleProviderOptions = {}): MockStyleProvider => {
+  const prompts: string[] = [];
+  return {
+    id: 'mock',
+    label: 'Mock',
+    prompts,
+    generate: async ({ prompt, base, count = 1 }) => {
+      prompts.push(prompt);
+      if (options.failWith) throw new Error(options.failWith);
+      const name = options.style?.name ?? `Mock: ${prompt}`;
+      return Array.from({ length: count }, (_, i) => validateStyle({
+        ...(base ?? MOCK_STYLE),
+        description: prompt,
+        ...options.style,
+        name: count > 1 ? `${name} (${i + 1})` : name
+      }));
+    }
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { artflowFilename, encodeShareHash, parseArtflow, readShareHash, serializeArtflow } from './styleSharing';
+import { validateStyle } from './styleValidation';
+
+const style = validateStyle({
+  name: 'Shared',
+  description: 'Goes places',
+  colors: ['#102030', '#ffeedd'],
+  speed: 2.123456,
+  shape: 'hexagon'
+}).style;
+
+describe('share links', () => {
+  it('round-trip a style through the URL hash', async () => {
+    const hash = await encodeShareHash(style);
+    expect(hash).toMatch(/^#style=z[\w-]+$/);
+    const read = await readShareHash(hash);
+    expect(read?.warnings).toEqual([]);
+    expect(read?.style).toEqual({ ...style, speed: 2.123 });
+  });
+
+  it('ignore hashes without a style', async () => {
+    expect(await readShareHash('')).toBeNull();
+    expect(await readShareHash('#other=1')).toBeNull();
+  });
+
+  it('report damaged and unknown links', async () => {
+    const hash = await encodeShareHash(style);
+    await expect(readShareHash(hash.slice(0, -6))).rejects.toThrow('The link is damaged');
+    await expect(readShareHash('#style=z%%%')).rejects.toThrow('The link is damaged');
+    await expect(readShareHash('#style=qAAAA')).rejects.toThrow('Unknown share link format');
+  });
+
+  it('fill fields a shorter, older link lacks with defaults', async () => {
+    const packed = btoa(JSON.stringify(['Old', '', ['#000000']])).replace(/=+$/, '');
+    const read = await readShareHash(`#style=j${packed}`);
+    expect(read?.style.name).toBe('Old');
+    expect(read?.style.speed).toBe(validateStyle({}).style.speed);
+  });
+});
+
+describe('.artflow.json files', () => {
+  it('round-trip a pack with tags and favourites', () => {
+    const text = serializeArtflow([{ style, tags: ['warm'], favourite: true }, { style: { ...style, name: 'Two' } }]);
+    const items = parseArtflow(text);
+    expect(items.map(i => [i.result.style.name, i.tags, i.favourite])).toEqual([['Shared', ['warm'], true], ['Two', [], false]]);
+    expect(items[0].result.style).toEqual(style);
+  });
+
+  it('accept a bare style or a list of styles', () => {
+    expect(parseArtflow(JSON.stringify(style))).toHaveLength(1);
+    expect(parseArtflow(JSON.stringify([style, { name: 'Loose', speed: 99 }]))[1].result.warnings).not.toEqual([]);
+  });
+
+  it('reject files from a newer version and files without styles', () => {
+    expect(() => parseArtflow(JSON.stringify({ format: 'artflow', version: 2, styles: [] })))
+      .toThrow('Made by a newer version of ArtFlow (format 2)');
+    expect(() => parseArtflow('{')).toThrow('Not a JSON file');
+    expect(() => parseArtflow(JSON.stringify({ format: 'artflow', version: 1 }))).toThrow('Style pack has no styles');
+    expect(() => parseArtflow('[1, 2]')).toThrow('No styles found in this file');
+  });
+
+  it('name files after the style', () => {
+    expect(artflowFilename('Neon Rain!')).toBe('neon-rain.artflow.json');
+    expect(artflowFilename('***')).toBe('style.artflow.json');
+  });
+});
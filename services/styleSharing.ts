@@ -0,0 +1,148 @@
+import { ArtStyleConfig } from '../types';
+import { StyleValidationResult, validateStyle } from './styleValidation';
+
+/**
+ * Moving styles between people and machines: `.artflow.json` files (one style or a pack) and
+ * share links that carry a compressed style in the URL hash. Everything read back is validated.
+ */
+
+export const ARTFLOW_EXTENSION = '.artflow.json';
+const FORMAT = 'artflow';
+const VERSION = 1;
+
+export interface ArtflowItem {
+  style: ArtStyleConfig;
+  tags?: string[];
+  favourite?: boolean;
+}
+
+export interface ImportedStyle {
+  result: StyleValidationResult;
+  tags: string[];
+  favourite: boolean;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const serializeArtflow = (items: ArtflowItem[]) =>
+  JSON.stringify({ format: FORMAT, version: VERSION, styles: items }, null, 2);
+
+export const artflowFilename = (name: string) => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 48);
+  return `${slug || 'style'}${ARTFLOW_EXTENSION}`;
+};
+
+// A pack item is either { style, tags, favourite } or a bare style
+const readItem = (value: unknown): ImportedStyle => {
+  const item: Record<string, unknown> = isRecord(value) && isRecord(value.style) ? value : { style: value };
+  return {
+    result: validateStyle(item.style),
+    tags: Array.isArray(item.tags) ? item.tags.filter((t): t is string => typeof t === 'string') : [],
+    favourite: item.favourite === true
+  };
+};
+
+// Accepts a pack, a list of styles, or a single style. Throws if there's nothing style-shaped in it.
+export const parseArtflow = (text: string): ImportedStyle[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  if (isRecord(data) && data.format === FORMAT) {
+    if (typeof data.version === 'number' && data.version > VERSION) {
+      throw new Error(`Made by a newer version of ArtFlow (format ${data.version})`);
+    }
+    if (!Array.isArray(data.styles)) throw new Error('Style pack has no styles');
+    data = data.styles;
+  }
+  const values = Array.isArray(data) ? data : [data];
+  const items = values.filter(v => isRecord(v) && (isRecord(v.style) || 'colors' in v || 'name' in v));
+  if (items.length === 0) throw new Error('No styles found in this file');
+  return items.map(readItem);
+};
+
+// --- Share links ---
+
+const HASH_PARAM = 'style';
+// Payload prefixes: deflate-compressed or plain JSON, both base64url
+const COMPRESSED = 'z';
+const PLAIN = 'j';
+
+// Links carry the values alone, in this order, to stay short. Only ever append: old links
+// then simply lack the newer fields, which validation fills with defaults.
+const SHARE_FIELDS: (keyof ArtStyleConfig)[] = [
+  'name', 'description', 'colors', 'particleSizeMin', 'particleSizeMax', 'density', 'speed', 'friction',
+  'shape', 'blendingMode', 'connectionDistance', 'trailEffect', 'noiseStrength', 'flowFieldStrength',
+  'interactionMode', 'interactionRadius', 'interactionStrength', 'interactionFalloff', 'motionStrength',
+  'samplingChannel', 'colorMode', 'glyphRamp', 'glyphFont', 'fluidCoupling', 'fluidViscosity', 'fluidVorticity'
+];
+
+const packStyle = (style: ArtStyleConfig) =>
+  SHARE_FIELDS.map(field => {
+    const value = style[field];
+    return typeof value === 'number' ? Math.round(value * 1000) / 1000 : value;
+  });
+
+const unpackStyle = (values: unknown) => {
+  if (!Array.isArray(values)) throw new Error('Not a packed style');
+  const style: Record<string, unknown> = {};
+  SHARE_FIELDS.forEach((field, i) => {
+    if (i < values.length) style[field] = values[i];
+  });
+  return style;
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const pipe = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+export const encodeShareHash = async (style: ArtStyleConfig) => {
+  const json = new TextEncoder().encode(JSON.stringify(packStyle(validateStyle(style).style)));
+  const payload = typeof CompressionStream !== 'undefined'
+    ? COMPRESSED + toBase64Url(await pipe(json, new CompressionStream('deflate-raw')))
+    : PLAIN + toBase64Url(json);
+  return `#${HASH_PARAM}=${payload}`;
+};
+
+export const shareUrl = async (style: ArtStyleConfig) =>
+  `${location.origin}${location.pathname}${location.search}${await encodeShareHash(style)}`;
+
+// Null when the hash carries no style; throws when it does but can't be read.
+export const readShareHash = async (hash: string): Promise<StyleValidationResult | null> => {
+  const payload = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_PARAM);
+  if (!payload) return null;
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(payload.slice(1));
+  } catch {
+    throw new Error('The link is damaged');
+  }
+  if (payload[0] === COMPRESSED) {
+    if (typeof DecompressionStream === 'undefined') throw new Error('This browser cannot open compressed share links');
+    try {
+      bytes = await pipe(bytes, new DecompressionStream('deflate-raw'));
+    } catch {
+      throw new Error('The link is damaged');
+    }
+  } else if (payload[0] !== PLAIN) {
+    throw new Error('Unknown share link format');
+  }
+  try {
+    return validateStyle(unpackStyle(JSON.parse(new TextDecoder().decode(bytes))));
+  } catch {
+    throw new Error('The link is damaged');
+  }
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ParticleShape } from '../types';
+import { blendPalettes, EASINGS, EasingName, interpolateStyle, resolveTransition } from './styleTransition';
+import { validateStyle } from './styleValidation';
+
+const from = validateStyle({ name: 'From', colors: ['#000000', '#ff0000'], speed: 1, particleSizeMax: 4, shape: 'circle' }).style;
+const to = validateStyle({ name: 'To', colors: ['#ffffff', '#0000ff', '#00ff00'], speed: 3, particleSizeMax: 8, shape: 'square' }).style;
+
+describe('EASINGS', () => {
+  it('run from 0 to 1', () => {
+    for (const name of Object.keys(EASINGS) as EasingName[]) {
+      expect(EASINGS[name](0)).toBe(0);
+      expect(EASINGS[name](1)).toBe(1);
+    }
+    expect(EASINGS.easeIn(0.5)).toBeLessThan(0.5);
+    expect(EASINGS.easeOut(0.5)).toBeGreaterThan(0.5);
+    expect(EASINGS.easeInOut(0.5)).toBe(0.5);
+  });
+});
+
+describe('blendPalettes', () => {
+  it('ends on each palette and keeps the longer length', () => {
+    const start = blendPalettes(from.colors, to.colors, 0);
+    expect([start.length, start[0], start[2]]).toEqual([3, '#000000', '#ff0000']);
+    expect(blendPalettes(from.colors, to.colors, 1)).toEqual(to.colors);
+    expect(blendPalettes(from.colors, to.colors, 0.5)).toHaveLength(3);
+  });
+});
+
+describe('interpolateStyle', () => {
+  it('interpolates numbers and switches discrete fields halfway', () => {
+    const early = interpolateStyle(from, to, 0.25);
+    expect(early.speed).toBe(1.5);
+    expect(early.particleSizeMax).toBe(5);
+    expect(early.shape).toBe(ParticleShape.CIRCLE);
+    expect(interpolateStyle(from, to, 0.75).shape).toBe(ParticleShape.SQUARE);
+    expect(early.name).toBe('To');
+  });
+});
+
+describe('resolveTransition', () => {
+  const active = { from, to, startedAt: 1000, options: { durationMs: 1000, easing: 'linear' as const } };
+
+  it('is done with the target style once the duration has passed', () => {
+    expect(resolveTransition(active, 2000)).toMatchObject({ style: to, done: true });
+    expect(resolveTransition({ ...active, options: { durationMs: 0, easing: 'linear' } }, 1000).done).toBe(true);
+  });
+
+  it('follows the easing on the way', () => {
+    expect(resolveTransition(active, 1500).style.speed).toBe(2);
+    const eased = resolveTransition({ ...active, options: { durationMs: 1000, easing: 'easeIn' } }, 1500);
+    expect(eased.style.speed).toBe(1.25);
+  });
+
+  it('cross-dissolves a shape change as two layers', () => {
+    const { layers, done } = resolveTransition(active, 1250);
+    expect(done).toBe(false);
+    expect(layers).toEqual([
+      { shape: ParticleShape.CIRCLE, blendingMode: from.blendingMode, opacity: 0.75 },
+      { shape: ParticleShape.SQUARE, blendingMode: to.blendingMode, opacity: 0.25 }
+    ]);
+    expect(resolveTransition({ ...active, to: { ...to, shape: from.shape } }, 1250).layers).toHaveLength(1);
+  });
+});
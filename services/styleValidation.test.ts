@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { ParticleShape } from '../types';
+import { DEFAULT_PALETTE, MAX_PALETTE_SIZE, STYLE_RANGES, validateStyle } from './styleValidation';
+
+// Every field present and in range, so a test only sees the warnings it provokes
+const complete = {
+  name: 'Complete',
+  description: 'All fields set',
+  colors: ['#000000', '#ffffff'],
+  particleSizeMin: 1,
+  particleSizeMax: 4,
+  density: 8,
+  speed: 1,
+  friction: 0.9,
+  shape: 'circle',
+  blendingMode: 'lighter',
+  connectionDistance: 0,
+  trailEffect: 0.2,
+  noiseStrength: 2,
+  flowFieldStrength: 1
+};
+
+const fieldsWarned = (input: unknown) => validateStyle(input).warnings.map(w => w.field);
+
+describe('validateStyle', () => {
+  it('passes a complete style through untouched', () => {
+    const { style, warnings } = validateStyle(complete);
+    expect(warnings).toEqual([]);
+    expect(style).toMatchObject({ ...complete, shape: ParticleShape.CIRCLE });
+  });
+
+  it('clamps numbers to their range', () => {
+    const { style, warnings } = validateStyle({ ...complete, speed: 99, friction: 1.5, density: 1 });
+    expect(style.speed).toBe(STYLE_RANGES.speed.max);
+    expect(style.friction).toBe(0.99);
+    expect(style.density).toBe(STYLE_RANGES.density.min);
+    expect(warnings.map(w => [w.field, w.code])).toEqual([['density', 'clamped'], ['speed', 'clamped'], ['friction', 'clamped']]);
+  });
+
+  it('defaults missing and non-numeric fields, and reads numbers given as strings', () => {
+    const { speed: _, ...withoutSpeed } = complete;
+    const { style, warnings } = validateStyle({ ...withoutSpeed, noiseStrength: 'lots', trailEffect: '0.5', density: NaN });
+    expect(style.speed).toBe(STYLE_RANGES.speed.fallback);
+    expect(style.noiseStrength).toBe(STYLE_RANGES.noiseStrength.fallback);
+    expect(style.density).toBe(STYLE_RANGES.density.fallback);
+    expect(style.trailEffect).toBe(0.5);
+    expect(warnings.map(w => [w.field, w.code])).toEqual([
+      ['density', 'invalid'], ['speed', 'missing'], ['noiseStrength', 'invalid']
+    ]);
+  });
+
+  it('fills in a whole style from nothing', () => {
+    const { style, warnings } = validateStyle(null);
+    expect(style.name).toBe('Untitled Style');
+    expect(style.colors).toEqual(DEFAULT_PALETTE);
+    expect(style.shape).toBe(ParticleShape.CIRCLE);
+    expect(warnings[0]).toMatchObject({ field: 'style', code: 'invalid' });
+  });
+
+  it('normalizes colours to #rrggbb and drops the unreadable ones', () => {
+    const { style, warnings } = validateStyle({ ...complete, colors: ['#ABC', 'red', 'rgb(0, 128, 255)', 'nope', 42, '#123456'] });
+    expect(style.colors).toEqual(['#aabbcc', '#ff0000', '#0080ff', '#123456']);
+    expect(warnings.filter(w => w.code === 'normalized')).toHaveLength(3);
+    expect(warnings.filter(w => w.code === 'invalid')).toHaveLength(2);
+  });
+
+  it('caps the palette and falls back to the default one when nothing is left', () => {
+    const many = Array.from({ length: MAX_PALETTE_SIZE + 4 }, (_, i) => `#0000${(i + 16).toString(16)}`);
+    expect(validateStyle({ ...complete, colors: many }).style.colors).toEqual(many.slice(0, MAX_PALETTE_SIZE));
+    expect(validateStyle({ ...complete, colors: ['nope'] }).style.colors).toEqual(DEFAULT_PALETTE);
+    expect(fieldsWarned({ ...complete, colors: [] })).toEqual(['colors']);
+  });
+
+  it('accepts shapes in any case and defaults unknown ones', () => {
+    const upper = validateStyle({ ...complete, shape: 'SQUARE' });
+    expect(upper.style.shape).toBe(ParticleShape.SQUARE);
+    expect(upper.warnings).toMatchObject([{ field: 'shape', code: 'normalized' }]);
+    const unknown = validateStyle({ ...complete, shape: 'blob' });
+    expect(unknown.style.shape).toBe(ParticleShape.CIRCLE);
+    expect(unknown.warnings).toMatchObject([{ field: 'shape', code: 'invalid' }]);
+  });
+
+  it('swaps a minimum size larger than the maximum', () => {
+    const { style, warnings } = validateStyle({ ...complete, particleSizeMin: 8, particleSizeMax: 2 });
+    expect([style.particleSizeMin, style.particleSizeMax]).toEqual([2, 8]);
+    expect(warnings).toMatchObject([{ field: 'particleSizeMax', code: 'invalid' }]);
+  });
+
+  it('silently defaults the settings older styles lack', () => {
+    const { style, warnings } = validateStyle(complete);
+    expect(warnings).toEqual([]);
+    expect(style.interactionMode).toBe('repel');
+    expect(style.interactionRadius).toBe(STYLE_RANGES.interactionRadius.fallback);
+    expect(style.interactionStrength).toBe(STYLE_RANGES.interactionStrength.fallback);
+    // Present but wrong still gets reported
+    expect(fieldsWarned({ ...complete, interactionRadius: 'far', interactionMode: 'push' })).toEqual(['interactionMode', 'interactionRadius']);
+  });
+});
@@ -0,0 +1,191 @@
+import { ArtStyleConfig, BlendingMode, ColorMode, InteractionFalloff, InteractionMode, ParticleShape, SamplingChannel } from '../types';
+import { toHex } from './color';
+import { DEFAULT_GLYPH_FONT, DEFAULT_GLYPH_RAMP, MAX_GLYPH_RAMP } from './shapeAssets';
+
+/**
+ * Turns anything claiming to be an ArtStyleConfig (AI output, imported files, manual edits)
+ * into one the renderer can run safely: missing fields get defaults, numbers are clamped to
+ * the ranges below, colours become '#rrggbb'. Every fix is reported as a warning.
+ */
+
+export type NumericStyleField =
+  | 'particleSizeMin' | 'particleSizeMax' | 'density' | 'speed' | 'friction'
+  | 'connectionDistance' | 'trailEffect' | 'noiseStrength' | 'flowFieldStrength'
+  | 'interactionRadius' | 'interactionStrength' | 'motionStrength'
+  | 'fluidCoupling' | 'fluidViscosity' | 'fluidVorticity';
+
+export interface NumericRange {
+  min: number;
+  max: number;
+  fallback: number;
+}
+
+// The documented range of every numeric field.
+export const STYLE_RANGES: Record<NumericStyleField, NumericRange> = {
+  particleSizeMin: { min: 0.5, max: 20, fallback: 1.5 },
+  particleSizeMax: { min: 1, max: 40, fallback: 6 },
+  density: { min: 4, max: 25, fallback: 8 },              // grid gap in px; engine never goes below 4
+  speed: { min: 0, max: 5, fallback: 1.5 },
+  friction: { min: 0, max: 0.99, fallback: 0.9 },         // >= 1 never damps and the particles explode
+  connectionDistance: { min: 0, max: 120, fallback: 0 },  // 0 disables
+  trailEffect: { min: 0, max: 1, fallback: 0.2 },
+  noiseStrength: { min: 0, max: 10, fallback: 2 },
+  flowFieldStrength: { min: 0, max: 5, fallback: 1 },
+  interactionRadius: { min: 20, max: 600, fallback: 200 },
+  interactionStrength: { min: 0, max: 150, fallback: 35 },
+  motionStrength: { min: 0, max: 5, fallback: 1 },
+  fluidCoupling: { min: 0, max: 1, fallback: 0 },         // 0 disables the fluid grid
+  fluidViscosity: { min: 0, max: 1, fallback: 0.1 },
+  fluidVorticity: { min: 0, max: 5, fallback: 1 }
+};
+
+export const DEFAULT_PALETTE = ['#6366f1', '#a855f7', '#ec4899'];
+export const MAX_PALETTE_SIZE = 16;
+
+const SHAPES = Object.values(ParticleShape) as string[];
+export const BLENDING_MODES: BlendingMode[] = ['source-over', 'lighter'];
+export const INTERACTION_MODES: InteractionMode[] = ['repel', 'attract', 'vortex', 'gravity', 'paint'];
+export const INTERACTION_FALLOFFS: InteractionFalloff[] = ['linear', 'smooth', 'quadratic', 'constant'];
+export const SAMPLING_CHANNELS: SamplingChannel[] = ['brightness', 'luminance', 'edges', 'hue', 'saturation', 'inverted'];
+export const COLOR_MODES: ColorMode[] = ['stepped', 'gradient', 'source', 'tint'];
+
+export type StyleWarningCode = 'missing' | 'invalid' | 'clamped' | 'normalized';
+
+export interface StyleWarning {
+  field: string;
+  code: StyleWarningCode;
+  message: string;
+}
+
+export interface StyleValidationResult {
+  style: ArtStyleConfig;
+  warnings: StyleWarning[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const validateStyle = (input: unknown): StyleValidationResult => {
+  const warnings: StyleWarning[] = [];
+  const warn = (field: string, code: StyleWarningCode, message: string) => warnings.push({ field, code, message });
+  const raw = isRecord(input) ? input : {};
+  if (!isRecord(input)) warn('style', 'invalid', 'Style is not an object; using defaults');
+
+  const text = (field: 'name' | 'description', fallback: string) => {
+    const value = raw[field];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (field === 'name') warn(field, value === undefined ? 'missing' : 'invalid', `Missing name, using "${fallback}"`);
+    return fallback;
+  };
+
+  const numeric = (field: NumericStyleField) => {
+    const { min, max, fallback } = STYLE_RANGES[field];
+    const value = typeof raw[field] === 'string' ? parseFloat(raw[field] as string) : raw[field];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      warn(field, raw[field] === undefined ? 'missing' : 'invalid', `${field} missing or not a number, using ${fallback}`);
+      return fallback;
+    }
+    if (value < min || value > max) {
+      const clamped = Math.min(max, Math.max(min, value));
+      warn(field, 'clamped', `${field} ${value} outside ${min}-${max}, clamped to ${clamped}`);
+      return clamped;
+    }
+    return value;
+  };
+
+  // Fields added after the original schema: absent means the default, silently
+  const optional = (field: NumericStyleField) => (raw[field] === undefined ? STYLE_RANGES[field].fallback : numeric(field));
+
+  const colors: string[] = [];
+  if (Array.isArray(raw.colors)) {
+    for (const c of raw.colors) {
+      const hex = typeof c === 'string' ? toHex(c) : null;
+      if (!hex) {
+        warn('colors', 'invalid', `Dropped invalid colour ${JSON.stringify(c)}`);
+        continue;
+      }
+      if (hex !== c) warn('colors', 'normalized', `Colour ${c} normalized to ${hex}`);
+      colors.push(hex);
+    }
+    if (colors.length > MAX_PALETTE_SIZE) {
+      warn('colors', 'clamped', `Palette trimmed to ${MAX_PALETTE_SIZE} colours`);
+      colors.length = MAX_PALETTE_SIZE;
+    }
+  }
+  if (colors.length === 0) {
+    warn('colors', raw.colors === undefined ? 'missing' : 'invalid', 'Empty palette, using the default palette');
+    colors.push(...DEFAULT_PALETTE);
+  }
+
+  const shapeValue = typeof raw.shape === 'string' ? raw.shape.toLowerCase() : raw.shape;
+  const shape = SHAPES.includes(shapeValue as string) ? shapeValue as ParticleShape : ParticleShape.CIRCLE;
+  if (shape === shapeValue && shape !== raw.shape) warn('shape', 'normalized', `Shape ${raw.shape} normalized to ${shape}`);
+  else if (shape !== raw.shape) warn('shape', raw.shape === undefined ? 'missing' : 'invalid', `Unknown shape ${JSON.stringify(raw.shape)}, using ${shape}`);
+
+  const blendingMode = BLENDING_MODES.includes(raw.blendingMode as BlendingMode) ? raw.blendingMode as BlendingMode : 'source-over';
+  if (blendingMode !== raw.blendingMode) warn('blendingMode', raw.blendingMode === undefined ? 'missing' : 'invalid', `Unknown blending mode, using ${blendingMode}`);
+
+  // Older saved styles predate these settings; they get the original behaviour without complaint
+  const choice = <T extends string>(field: 'interactionMode' | 'interactionFalloff' | 'samplingChannel' | 'colorMode', options: T[], fallback: T): T => {
+    const value = raw[field];
+    if (options.includes(value as T)) return value as T;
+    if (value !== undefined) warn(field, 'invalid', `Unknown ${field} ${JSON.stringify(value)}, using ${fallback}`);
+    return fallback;
+  };
+
+  // Glyph settings only matter for the GLYPH shape, so a missing one is silently defaulted
+  const glyphRampValue = raw.glyphRamp;
+  let glyphRamp = DEFAULT_GLYPH_RAMP;
+  if (typeof glyphRampValue === 'string' && glyphRampValue.length > 0) {
+    const glyphs = Array.from(glyphRampValue);
+    glyphRamp = glyphs.slice(0, MAX_GLYPH_RAMP).join('');
+    if (glyphs.length > MAX_GLYPH_RAMP) warn('glyphRamp', 'clamped', `glyphRamp trimmed to ${MAX_GLYPH_RAMP} characters`);
+  } else if (glyphRampValue !== undefined) {
+    warn('glyphRamp', 'invalid', `glyphRamp must be a non-empty string, using "${DEFAULT_GLYPH_RAMP}"`);
+  }
+  const glyphFontValue = raw.glyphFont;
+  let glyphFont = DEFAULT_GLYPH_FONT;
+  if (typeof glyphFontValue === 'string' && glyphFontValue.trim()) glyphFont = glyphFontValue.trim();
+  else if (glyphFontValue !== undefined) warn('glyphFont', 'invalid', `glyphFont must be a font family, using ${DEFAULT_GLYPH_FONT}`);
+
+  let particleSizeMin = numeric('particleSizeMin');
+  let particleSizeMax = numeric('particleSizeMax');
+  if (particleSizeMin > particleSizeMax) {
+    warn('particleSizeMax', 'invalid', 'particleSizeMin was larger than particleSizeMax; swapped');
+    [particleSizeMin, particleSizeMax] = [particleSizeMax, particleSizeMin];
+  }
+
+  return {
+    style: {
+      name: text('name', 'Untitled Style'),
+      description: text('description', ''),
+      colors,
+      particleSizeMin,
+      particleSizeMax,
+      density: numeric('density'),
+      speed: numeric('speed'),
+      friction: numeric('friction'),
+      shape,
+      blendingMode,
+      connectionDistance: numeric('connectionDistance'),
+      trailEffect: numeric('trailEffect'),
+      noiseStrength: numeric('noiseStrength'),
+      flowFieldStrength: numeric('flowFieldStrength'),
+      interactionMode: choice('interactionMode', INTERACTION_MODES, 'repel'),
+      interactionRadius: optional('interactionRadius'),
+      interactionStrength: optional('interactionStrength'),
+      interactionFalloff: choice('interactionFalloff', INTERACTION_FALLOFFS, 'linear'),
+      motionStrength: optional('motionStrength'),
+      samplingChannel: choice('samplingChannel', SAMPLING_CHANNELS, 'brightness'),
+      colorMode: choice('colorMode', COLOR_MODES, 'stepped'),
+      glyphRamp,
+      glyphFont,
+      fluidCoupling: optional('fluidCoupling'),
+      fluidViscosity: optional('fluidViscosity'),
+      fluidVorticity: optional('fluidVorticity')
+    },
+    warnings
+  };
+};
+
+export const formatWarnings = (warnings: StyleWarning[]) => warnings.map(w => w.message).join('\n');
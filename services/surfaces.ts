@@ -0,0 +1,27 @@
+/**
+ * Off-screen canvases that work the same in the simulation worker and on the main thread.
+ */
+
+export type ScratchCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+export const createScratchCanvas = (width: number, height: number): ScratchCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export const canvasToBlob = (canvas: ScratchCanvas, type = 'image/png'): Promise<Blob> => {
+  if ('convertToBlob' in canvas) return canvas.convertToBlob({ type });
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas encoding failed'))), type);
+  });
+};
+
+export const imageDataToBlob = (image: ImageData, type = 'image/png') => {
+  const canvas = createScratchCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+  ctx.putImageData(image, 0, 0);
+  return canvasToBlob(canvas, type);
+};
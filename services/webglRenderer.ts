@@ -0,0 +1,508 @@
+import { BlendingMode, ParticleShape } from '../types';
+import { parseColor } from './color';
+import { CONNECTION_FLOATS } from './connections';
+import { ParticleRenderer, RenderScene } from './particleRenderer';
+import { createGlyphAtlas, spriteExtent } from './shapeAssets';
+
+/**
+ * WebGL2 backend. Every particle is one instance of a unit quad; the shape is cut out in the
+ * fragment shader, so a whole frame is a single draw call instead of one path per particle.
+ *
+ * Trails use two framebuffers (ping-pong): each frame copies the previous one faded by
+ * `trailEffect`, draws the particles on top, then blits the result to the screen.
+ *
+ * GLYPH and SPRITE sample a texture (the glyph atlas or the uploaded sprite) through the
+ * same quad, tinted by the instance colour.
+ */
+
+// x, y, size, angle, r, g, b, a, brightness
+const INSTANCE_FLOATS = 9;
+
+const SHAPE_INDEX: Record<ParticleShape, number> = {
+  [ParticleShape.CIRCLE]: 0,
+  [ParticleShape.SQUARE]: 1,
+  [ParticleShape.LINE]: 2,
+  [ParticleShape.CROSS]: 3,
+  [ParticleShape.TRIANGLE]: 4,
+  [ParticleShape.HEXAGON]: 5,
+  [ParticleShape.GLYPH]: 6,
+  [ParticleShape.SPRITE]: 7
+};
+
+const PARTICLE_VS = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec4 a_instance;
+layout(location = 2) in vec4 a_color;
+layout(location = 3) in float a_brightness;
+uniform vec2 u_resolution;
+uniform int u_shape;
+uniform float u_glyphCount;
+uniform vec2 u_spriteExtent; // sprite half extent per unit of particle size
+out vec2 v_local;
+out vec2 v_uv;
+out vec4 v_color;
+flat out float v_size;
+flat out float v_stroke;
+flat out float v_glyph;
+
+void main() {
+  float size = a_instance.z;
+  float stroke = max(1.0, size / 3.0);
+  vec2 halfExtent;
+  if (u_shape == 0) halfExtent = vec2(size + 1.0);
+  else if (u_shape == 1) halfExtent = vec2(size);
+  else if (u_shape == 2) halfExtent = vec2(size * 2.5, stroke * 0.5);
+  else if (u_shape == 4 || u_shape == 5) halfExtent = vec2(size + 1.0);
+  else if (u_shape == 6) halfExtent = vec2(size);
+  else if (u_shape == 7) halfExtent = size * u_spriteExtent;
+  else halfExtent = vec2(max(size, stroke * 0.5));
+
+  v_local = a_corner * halfExtent;
+  v_uv = a_corner * 0.5 + 0.5;
+  v_color = a_color;
+  v_size = size;
+  v_stroke = stroke;
+  v_glyph = min(u_glyphCount - 1.0, floor(a_brightness / 256.0 * u_glyphCount));
+
+  float angle = u_shape == 2 ? a_instance.w : 0.0;
+  float c = cos(angle);
+  float s = sin(angle);
+  vec2 pos = a_instance.xy + vec2(v_local.x * c - v_local.y * s, v_local.x * s + v_local.y * c);
+  vec2 clip = pos / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+}`;
+
+const PARTICLE_FS = `#version 300 es
+precision mediump float;
+in vec2 v_local;
+in vec2 v_uv;
+in vec4 v_color;
+flat in float v_size;
+flat in float v_stroke;
+flat in float v_glyph;
+uniform int u_shape;
+uniform float u_opacity;
+uniform sampler2D u_image;    // premultiplied glyph atlas or sprite
+uniform vec2 u_glyphGrid;     // atlas columns, rows
+out vec4 outColor;
+
+void main() {
+  float alpha = v_color.a * u_opacity;
+  if (u_shape == 6 || u_shape == 7) {
+    vec2 uv = v_uv;
+    if (u_shape == 6) uv = (vec2(mod(v_glyph, u_glyphGrid.x), floor(v_glyph / u_glyphGrid.x)) + v_uv) / u_glyphGrid;
+    vec4 texel = texture(u_image, uv);
+    // Glyphs are white, so this is plain colour; sprites are multiplied by it
+    outColor = vec4(texel.rgb * v_color.rgb, texel.a) * alpha;
+    if (outColor.a <= 0.0) discard;
+    return;
+  }
+  if (u_shape == 0) {
+    alpha *= clamp(v_size + 0.5 - length(v_local), 0.0, 1.0);
+  } else if (u_shape == 4) {
+    // Equilateral, point up: distance to the furthest of the three edges (inradius = size / 2)
+    vec2 p = v_local;
+    float d = max(p.y, max(dot(p, vec2(-0.8660254, -0.5)), dot(p, vec2(0.8660254, -0.5))));
+    alpha *= clamp(v_size * 0.5 + 0.5 - d, 0.0, 1.0);
+  } else if (u_shape == 5) {
+    // Flat-topped (inradius = size * cos 30°)
+    vec2 p = abs(v_local);
+    float d = max(p.y, dot(p, vec2(0.8660254, 0.5)));
+    alpha *= clamp(v_size * 0.8660254 + 0.5 - d, 0.0, 1.0);
+  } else if (u_shape == 3) {
+    float hs = v_stroke * 0.5;
+    bool horizontal = abs(v_local.y) <= hs && abs(v_local.x) <= v_size;
+    bool vertical = abs(v_local.x) <= hs && abs(v_local.y) <= v_size;
+    if (!(horizontal || vertical)) discard;
+  }
+  if (alpha <= 0.0) discard;
+  outColor = vec4(v_color.rgb * alpha, alpha);
+}`;
+
+// Connection lines: one quad per segment, colour interpolated between the two endpoints.
+const LINE_VS = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec4 a_segment;
+layout(location = 2) in float a_alpha;
+layout(location = 3) in vec3 a_colorA;
+layout(location = 4) in vec3 a_colorB;
+uniform vec2 u_resolution;
+out vec4 v_color;
+
+void main() {
+  float t = a_corner.x * 0.5 + 0.5;
+  vec2 a = a_segment.xy;
+  vec2 b = a_segment.zw;
+  vec2 dir = b - a;
+  float len = length(dir);
+  vec2 normal = len > 0.0 ? vec2(-dir.y, dir.x) / len : vec2(0.0, 1.0);
+  vec2 pos = mix(a, b, t) + normal * a_corner.y * 0.5;
+  v_color = vec4(mix(a_colorA, a_colorB, t), a_alpha);
+  vec2 clip = pos / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+}`;
+
+const LINE_FS = `#version 300 es
+precision mediump float;
+in vec4 v_color;
+out vec4 outColor;
+void main() {
+  outColor = vec4(v_color.rgb * v_color.a, v_color.a);
+}`;
+
+const QUAD_VS = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+out vec2 v_uv;
+void main() {
+  v_uv = a_corner * 0.5 + 0.5;
+  gl_Position = vec4(a_corner, 0.0, 1.0);
+}`;
+
+const QUAD_FS = `#version 300 es
+precision mediump float;
+in vec2 v_uv;
+uniform sampler2D u_texture;
+uniform float u_fade;
+out vec4 outColor;
+void main() {
+  outColor = texture(u_texture, v_uv) * u_fade;
+}`;
+
+const compile = (gl: WebGL2RenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader compile failed: ${log}`);
+  }
+  return shader;
+};
+
+const link = (gl: WebGL2RenderingContext, vs: string, fs: string) => {
+  const program = gl.createProgram()!;
+  gl.attachShader(program, compile(gl, gl.VERTEX_SHADER, vs));
+  gl.attachShader(program, compile(gl, gl.FRAGMENT_SHADER, fs));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Program link failed: ${gl.getProgramInfoLog(program)}`);
+  }
+  return program;
+};
+
+interface RenderTarget {
+  texture: WebGLTexture;
+  framebuffer: WebGLFramebuffer;
+}
+
+// Returns null if the shaders don't compile, so the caller can fall back to Canvas2D.
+export const createWebGLRenderer = (gl: WebGL2RenderingContext): ParticleRenderer | null => {
+  let particleProgram: WebGLProgram;
+  let lineProgram: WebGLProgram;
+  let quadProgram: WebGLProgram;
+  try {
+    particleProgram = link(gl, PARTICLE_VS, PARTICLE_FS);
+    lineProgram = link(gl, LINE_VS, LINE_FS);
+    quadProgram = link(gl, QUAD_VS, QUAD_FS);
+  } catch (e) {
+    console.error('WebGL2 renderer unavailable:', e);
+    return null;
+  }
+
+  const uResolution = gl.getUniformLocation(particleProgram, 'u_resolution');
+  const uShapeVs = gl.getUniformLocation(particleProgram, 'u_shape');
+  const uOpacity = gl.getUniformLocation(particleProgram, 'u_opacity');
+  const uGlyphCount = gl.getUniformLocation(particleProgram, 'u_glyphCount');
+  const uGlyphGrid = gl.getUniformLocation(particleProgram, 'u_glyphGrid');
+  const uSpriteExtent = gl.getUniformLocation(particleProgram, 'u_spriteExtent');
+  const uImage = gl.getUniformLocation(particleProgram, 'u_image');
+  const uLineResolution = gl.getUniformLocation(lineProgram, 'u_resolution');
+  const uTexture = gl.getUniformLocation(quadProgram, 'u_texture');
+  const uFade = gl.getUniformLocation(quadProgram, 'u_fade');
+
+  const cornerBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+
+  // Fullscreen quad only needs the corners
+  const quadVao = gl.createVertexArray();
+  gl.bindVertexArray(quadVao);
+  gl.enableVertexAttribArray(0);
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+  const instanceBuffer = gl.createBuffer();
+  const particleVao = gl.createVertexArray();
+  gl.bindVertexArray(particleVao);
+  gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer);
+  gl.enableVertexAttribArray(0);
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+  gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+  const stride = INSTANCE_FLOATS * 4;
+  gl.enableVertexAttribArray(1);
+  gl.vertexAttribPointer(1, 4, gl.FLOAT, false, stride, 0);
+  gl.vertexAttribDivisor(1, 1);
+  gl.enableVertexAttribArray(2);
+  gl.vertexAttribPointer(2, 4, gl.FLOAT, false, stride, 16);
+  gl.vertexAttribDivisor(2, 1);
+  gl.enableVertexAttribArray(3);
+  gl.vertexAttribPointer(3, 1, gl.FLOAT, false, stride, 32);
+  gl.vertexAttribDivisor(3, 1);
+
+  const lineBuffer = gl.createBuffer();
+  const lineVao = gl.createVertexArray();
+  gl.bindVertexArray(lineVao);
+  gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer);
+  gl.enableVertexAttribArray(0);
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+  gl.bindBuffer(gl.ARRAY_BUFFER, lineBuffer);
+  const lineStride = CONNECTION_FLOATS * 4;
+  ([[1, 4, 0], [2, 1, 16], [3, 3, 20], [4, 3, 32]] as const).forEach(([loc, size, offset]) => {
+    gl.enableVertexAttribArray(loc);
+    gl.vertexAttribPointer(loc, size, gl.FLOAT, false, lineStride, offset);
+    gl.vertexAttribDivisor(loc, 1);
+  });
+  gl.bindVertexArray(null);
+
+  let instances = new Float32Array(1024 * INSTANCE_FLOATS);
+  let targets: RenderTarget[] = [];
+  let current = 0;
+  let width = 0;
+  let height = 0;
+
+  // Shape textures, uploaded premultiplied with mipmaps so small stamps don't shimmer
+  const createImageTexture = (source: TexImageSource) => {
+    const texture = gl.createTexture()!;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+    gl.generateMipmap(gl.TEXTURE_2D);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR_MIPMAP_LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    return texture;
+  };
+
+  let glyphs: { key: string; texture: WebGLTexture; columns: number; rows: number; count: number } | null = null;
+  let sprite: { texture: WebGLTexture; width: number; height: number } | null = null;
+
+  // Rebuilt only when the ramp or font changes
+  const glyphAtlasFor = (ramp: string, font: string) => {
+    const key = `${font}\n${ramp}`;
+    if (glyphs?.key === key) return glyphs;
+    if (glyphs) gl.deleteTexture(glyphs.texture);
+    const atlas = createGlyphAtlas(ramp, font);
+    glyphs = { key, texture: createImageTexture(atlas.canvas), columns: atlas.columns, rows: atlas.rows, count: atlas.count };
+    return glyphs;
+  };
+
+  const setSprite = (image: ImageBitmap | null) => {
+    if (sprite) gl.deleteTexture(sprite.texture);
+    sprite = image ? { texture: createImageTexture(image), width: image.width, height: image.height } : null;
+  };
+
+  const bindImage = (texture: WebGLTexture) => {
+    gl.useProgram(particleProgram);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.uniform1i(uImage, 0);
+  };
+
+  const createTarget = (w: number, h: number): RenderTarget => {
+    const texture = gl.createTexture()!;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, w, h, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    const framebuffer = gl.createFramebuffer()!;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    gl.clearColor(0, 0, 0, 1);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    return { texture, framebuffer };
+  };
+
+  const releaseTargets = () => {
+    for (const t of targets) {
+      gl.deleteTexture(t.texture);
+      gl.deleteFramebuffer(t.framebuffer);
+    }
+    targets = [];
+  };
+
+  const resize = (w: number, h: number) => {
+    width = w;
+    height = h;
+    gl.canvas.width = w;
+    gl.canvas.height = h;
+    releaseTargets();
+    if (w > 0 && h > 0) targets = [createTarget(w, h), createTarget(w, h)];
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  };
+
+  const ensureCapacity = (count: number) => {
+    if (instances.length >= count * INSTANCE_FLOATS) return;
+    let size = instances.length;
+    while (size < count * INSTANCE_FLOATS) size *= 2;
+    instances = new Float32Array(size);
+  };
+
+  const uploadInstances = (count: number) => {
+    gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, instances.subarray(0, count * INSTANCE_FLOATS), gl.STREAM_DRAW);
+  };
+
+  // Draws whatever uploadInstances last put in the instance buffer
+  const drawInstances = (count: number, shape: number, opacity: number) => {
+    if (count === 0 || opacity <= 0) return;
+    gl.useProgram(particleProgram);
+    gl.uniform2f(uResolution, width, height);
+    gl.uniform1i(uShapeVs, shape);
+    gl.uniform1f(uOpacity, opacity);
+    gl.bindVertexArray(particleVao);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, count);
+    gl.bindVertexArray(null);
+  };
+
+  const setBlending = (mode: BlendingMode) => {
+    if (mode === 'lighter') gl.blendFunc(gl.ONE, gl.ONE);
+    else gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+  };
+
+  const drawTexture = (texture: WebGLTexture, fade: number) => {
+    gl.useProgram(quadProgram);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.uniform1i(uTexture, 0);
+    gl.uniform1f(uFade, fade);
+    gl.bindVertexArray(quadVao);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    gl.bindVertexArray(null);
+  };
+
+  const drawConnections = (segments: Float32Array, count: number) => {
+    if (count === 0) return;
+    gl.useProgram(lineProgram);
+    gl.uniform2f(uLineResolution, width, height);
+    gl.bindVertexArray(lineVao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, lineBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, segments.subarray(0, count * CONNECTION_FLOATS), gl.STREAM_DRAW);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, count);
+    gl.bindVertexArray(null);
+  };
+
+  const render = ({ particles, style, layers, connections, markers }: RenderScene) => {
+    if (targets.length < 2) return;
+    const src = targets[current];
+    const dst = targets[1 - current];
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, dst.framebuffer);
+    gl.viewport(0, 0, width, height);
+
+    // Trail: previous frame faded, same as painting black at `trailEffect` alpha over it
+    gl.disable(gl.BLEND);
+    drawTexture(src.texture, 1 - style.trailEffect);
+
+    gl.enable(gl.BLEND);
+    setBlending(style.blendingMode);
+
+    drawConnections(connections.segments, connections.count);
+
+    ensureCapacity(particles.length);
+    let count = 0;
+    for (let i = 0; i < particles.length; i++) {
+      const p = particles[i];
+      if (!p.visible) continue;
+      const [r, g, b, a] = parseColor(p.color);
+      const o = count * INSTANCE_FLOATS;
+      instances[o] = p.x;
+      instances[o + 1] = p.y;
+      instances[o + 2] = p.size;
+      instances[o + 3] = Math.atan2(p.vy, p.vx) || 0;
+      instances[o + 4] = r / 255;
+      instances[o + 5] = g / 255;
+      instances[o + 6] = b / 255;
+      instances[o + 7] = a;
+      instances[o + 8] = p.brightness;
+      count++;
+    }
+    uploadInstances(count);
+    for (const layer of layers) {
+      setBlending(layer.blendingMode);
+      let shape = layer.shape;
+      if (shape === ParticleShape.GLYPH) {
+        const atlas = glyphAtlasFor(style.glyphRamp, style.glyphFont);
+        bindImage(atlas.texture);
+        gl.uniform1f(uGlyphCount, atlas.count);
+        gl.uniform2f(uGlyphGrid, atlas.columns, atlas.rows);
+      } else if (shape === ParticleShape.SPRITE) {
+        // Without an uploaded sprite, SPRITE draws circles
+        if (sprite) {
+          bindImage(sprite.texture);
+          const extent = spriteExtent(sprite, 1);
+          gl.uniform2f(uSpriteExtent, extent.x, extent.y);
+        } else {
+          shape = ParticleShape.CIRCLE;
+        }
+      }
+      drawInstances(count, SHAPE_INDEX[shape] ?? 0, layer.opacity);
+    }
+
+    if (markers.length > 0) {
+      gl.blendFunc(gl.ONE, gl.ONE);
+      ensureCapacity(markers.length);
+      markers.forEach((m, i) => {
+        const [r, g, b, a] = parseColor(m.color);
+        instances.set([m.x, m.y, m.radius, 0, r / 255, g / 255, b / 255, a, 0], i * INSTANCE_FLOATS);
+      });
+      uploadInstances(markers.length);
+      drawInstances(markers.length, SHAPE_INDEX[ParticleShape.CIRCLE], 1);
+    }
+
+    gl.disable(gl.BLEND);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.viewport(0, 0, width, height);
+    drawTexture(dst.texture, 1);
+
+    current = 1 - current;
+  };
+
+  // The latest frame lives in targets[current]; GL rows are bottom-up and alpha decays with the trail
+  const readPixels = () => {
+    if (targets.length < 2) return null;
+    const pixels = new Uint8ClampedArray(width * height * 4);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, targets[current].framebuffer);
+    gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+    const image = new ImageData(width, height);
+    const rowBytes = width * 4;
+    for (let y = 0; y < height; y++) {
+      image.data.set(pixels.subarray((height - 1 - y) * rowBytes, (height - y) * rowBytes), y * rowBytes);
+    }
+    for (let i = 3; i < image.data.length; i += 4) image.data[i] = 255;
+    return image;
+  };
+
+  const dispose = () => {
+    releaseTargets();
+    setSprite(null);
+    if (glyphs) gl.deleteTexture(glyphs.texture);
+    glyphs = null;
+    gl.deleteBuffer(cornerBuffer);
+    gl.deleteBuffer(instanceBuffer);
+    gl.deleteBuffer(lineBuffer);
+    gl.deleteVertexArray(quadVao);
+    gl.deleteVertexArray(particleVao);
+    gl.deleteVertexArray(lineVao);
+    gl.deleteProgram(particleProgram);
+    gl.deleteProgram(lineProgram);
+    gl.deleteProgram(quadProgram);
+  };
+
+  return { backend: 'webgl2', resize, render, setSprite, readPixels, dispose };
+};
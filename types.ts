@@ -3,11 +3,27 @@ export enum ParticleShape {
   CIRCLE = 'circle',
   SQUARE = 'square',
   LINE = 'line',
-  CROSS = 'cross'
+  CROSS = 'cross',
+  TRIANGLE = 'triangle',
+  HEXAGON = 'hexagon',
+  GLYPH = 'glyph',   // a character from glyphRamp, picked by brightness
+  SPRITE = 'sprite'  // the uploaded sprite image, tinted by particle colour
 }
 
 export type BlendingMode = 'source-over' | 'lighter';
 
+// How the pointer / hands touch the particles. 'paint' drags them along with the pointer's motion.
+export type InteractionMode = 'repel' | 'attract' | 'vortex' | 'gravity' | 'paint';
+
+// Force weight from the centre (1) to the edge of the interaction radius.
+export type InteractionFalloff = 'linear' | 'smooth' | 'quadratic' | 'constant';
+
+// What a sampled pixel is measured by: this value sets visibility, size and the flow field.
+export type SamplingChannel = 'brightness' | 'luminance' | 'edges' | 'hue' | 'saturation' | 'inverted';
+
+// Where particle colour comes from: the palette (banded or as a gradient), the pixel, or a blend.
+export type ColorMode = 'stepped' | 'gradient' | 'source' | 'tint';
+
 export interface ArtStyleConfig {
   name: string;
   description: string;
@@ -23,6 +39,18 @@ export interface ArtStyleConfig {
   trailEffect: number; // 0 to 1, persistence
   noiseStrength: number;
   flowFieldStrength: number; // 0 to 5, how much particles follow image contours
+  interactionMode: InteractionMode;
+  interactionRadius: number; // px, for a pointer; hands reach a little further
+  interactionStrength: number;
+  interactionFalloff: InteractionFalloff;
+  motionStrength: number; // 0 to 5, how strongly movement in the frame sweeps particles along
+  samplingChannel: SamplingChannel;
+  colorMode: ColorMode;
+  glyphRamp: string; // GLYPH characters from sparse (dark) to dense (bright)
+  glyphFont: string; // CSS font family for GLYPH
+  fluidCoupling: number; // 0 to 1, how strongly particles ride the fluid grid; 0 turns the fluid off
+  fluidViscosity: number; // 0 to 1, thick syrup towards 1, thin smoke at 0
+  fluidVorticity: number; // 0 to 5, vorticity confinement; higher keeps curls alive longer
 }
 
 export interface Particle {
@@ -35,10 +63,37 @@ export interface Particle {
   size: number;
   color: string;
   brightness: number;
+  visible: boolean; // false while the sampled pixel is background
 }
 
-export interface MouseState {
+// One active mouse, pen or finger, in canvas pixels.
+export interface PointerState {
+  id: number;
   x: number;
   y: number;
-  isActive: boolean;
+  vx: number; // px per frame
+  vy: number;
+  pressure: number; // 0-1; only pens report real pressure
+  type: 'mouse' | 'pen' | 'touch';
 }
+
+// 'touch' follows the style's interactionMode; the rest are gesture overrides.
+export type ForceMode = 'touch' | 'repel' | 'attract' | 'explode' | 'freeze';
+
+// Something pushing the particles around: a pointer, or one tracked hand. Coordinates in canvas pixels.
+export interface ForceSource {
+  x: number;
+  y: number;
+  vx: number; // px per frame, used by 'paint'
+  vy: number;
+  radiusScale: number;   // multiplies the style's interactionRadius
+  strengthScale: number; // multiplies the style's interactionStrength
+  mode: ForceMode;
+  kind: 'pointer' | 'hand';
+}
+
+// Numeric ArtStyleConfig fields that live modulation (audio, ...) can push around.
+export type ModulatableField = 'noiseStrength' | 'particleSizeMax' | 'speed' | 'flowFieldStrength' | 'connectionDistance';
+
+// Additive per-frame adjustments layered over the current style by the simulation.
+export type StyleOffsets = Partial<Record<ModulatableField, number>>;